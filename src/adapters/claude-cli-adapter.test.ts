@@ -0,0 +1,210 @@
+/**
+ * Unit tests for claude-cli-adapter.ts
+ *
+ * Uses a shell script standing in for the claude binary.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { ClaudeCLIAdapter, ClaudeRunError, buildClaudeArgs } from './claude-cli-adapter';
+import { mkdtemp, rm, writeFile, chmod } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('ClaudeCLIAdapter', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'workflow-adapter-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  const createFakeClaude = async (script: string): Promise<string> => {
+    const path = join(testDir, 'claude');
+    await writeFile(path, `#!/bin/sh\n${script}\n`, 'utf-8');
+    await chmod(path, 0o755);
+    return path;
+  };
+
+  test('returns text output and exit code', async () => {
+    const claude = await createFakeClaude('echo "<phase>CI_PASSED</phase>"; exit 3');
+    const adapter = new ClaudeCLIAdapter(claude);
+
+    const result = await adapter.runPrompt({ prompt: 'test', outputFormat: 'text' });
+    expect(result.content).toBe('<phase>CI_PASSED</phase>\n');
+    expect(result.exitCode).toBe(3);
+  });
+
+  test('streams assistant text and captures the final result', async () => {
+    const claude = await createFakeClaude(`
+case "$*" in *"--output-format stream-json --verbose"*) ;; *) exit 9 ;; esac
+echo '{"type":"system","subtype":"init","session_id":"sess-1"}'
+echo '{"type":"assistant","message":{"content":[{"type":"text","text":"Working..."}]}}'
+echo '{"type":"assistant","message":{"content":[{"type":"text","text":"<phase>CI_PASSED</phase>"}]}}'
+echo '{"type":"result","is_error":false,"result":"Working...<phase>CI_PASSED</phase>","session_id":"sess-1","total_cost_usd":0.25,"usage":{"input_tokens":10,"output_tokens":5}}'
+`);
+    const adapter = new ClaudeCLIAdapter(claude);
+    const chunks: string[] = [];
+
+    const result = await adapter.runPrompt({
+      prompt: 'test',
+      outputFormat: 'stream-json',
+      onText: (text) => chunks.push(text),
+    });
+
+    expect(chunks).toEqual(['Working...', '<phase>CI_PASSED</phase>']);
+    expect(result.exitCode).toBe(0);
+    expect(result.isError).toBe(false);
+    expect(result.content).toBe('Working...<phase>CI_PASSED</phase>');
+    expect(result.sessionId).toBe('sess-1');
+    expect(result.costUsd).toBe(0.25);
+    expect(result.usage).toEqual({
+      inputTokens: 10,
+      outputTokens: 5,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    });
+  });
+
+  test('reports an error result', async () => {
+    const claude = await createFakeClaude(`
+echo '{"type":"result","subtype":"error_max_turns","is_error":true,"session_id":"sess-1"}'
+exit 1
+`);
+    const adapter = new ClaudeCLIAdapter(claude);
+
+    const result = await adapter.runPrompt({ prompt: 'test', outputFormat: 'stream-json' });
+    expect(result.isError).toBe(true);
+    expect(result.exitCode).toBe(1);
+  });
+
+  test('falls back to streamed text without a result message', async () => {
+    const claude = await createFakeClaude(
+      `echo '{"type":"assistant","message":{"content":[{"type":"text","text":"partial"}]}}'`
+    );
+    const adapter = new ClaudeCLIAdapter(claude);
+
+    const result = await adapter.runPrompt({ prompt: 'test', outputFormat: 'stream-json' });
+    expect(result.content).toBe('partial');
+    expect(result.sessionId).toBeNull();
+  });
+
+  test('rejects with partial output on timeout', async () => {
+    const claude = await createFakeClaude('echo "partial work"; echo "oops" >&2; sleep 5');
+    const adapter = new ClaudeCLIAdapter(claude);
+
+    const error = await adapter
+      .runPrompt({ prompt: 'test', outputFormat: 'text', timeout: 200 })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ClaudeRunError);
+    expect(error.reason).toBe('timeout');
+    expect(error.message).toContain('timed out after 200ms');
+    expect(error.stdout).toBe('partial work\n');
+    expect(error.stderr).toBe('oops\n');
+  });
+
+  test('escalates to SIGKILL when SIGTERM is ignored', async () => {
+    const claude = await createFakeClaude(
+      "trap '' TERM; echo started; while true; do sleep 0.1; done"
+    );
+    const adapter = new ClaudeCLIAdapter(claude);
+    const startedAt = Date.now();
+
+    const error = await adapter
+      .runPrompt({ prompt: 'test', outputFormat: 'text', timeout: 200, killGracePeriod: 200 })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ClaudeRunError);
+    expect(error.stdout).toBe('started\n');
+    expect(Date.now() - startedAt).toBeLessThan(3000);
+  });
+
+  test('rejects with aborted reason when the signal fires', async () => {
+    const claude = await createFakeClaude('echo "before abort"; sleep 5');
+    const adapter = new ClaudeCLIAdapter(claude);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+
+    const error = await adapter
+      .runPrompt({ prompt: 'test', outputFormat: 'text', signal: controller.signal })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ClaudeRunError);
+    expect(error.reason).toBe('aborted');
+    expect(error.stdout).toBe('before abort\n');
+  });
+
+  test('rejects immediately when already aborted', async () => {
+    const adapter = new ClaudeCLIAdapter(await createFakeClaude('echo never'));
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      adapter.runPrompt({ prompt: 'test', signal: controller.signal })
+    ).rejects.toBeInstanceOf(ClaudeRunError);
+  });
+});
+
+describe('buildClaudeArgs', () => {
+  test('builds a plain print-mode invocation', () => {
+    expect(buildClaudeArgs({ prompt: '/workflows:phase-setup x.md' })).toEqual([
+      '-p',
+      '/workflows:phase-setup x.md',
+      '--output-format',
+      'text',
+    ]);
+  });
+
+  test('adds agent settings', () => {
+    const args = buildClaudeArgs({
+      prompt: 'test',
+      outputFormat: 'stream-json',
+      model: 'sonnet',
+      permissionMode: 'acceptEdits',
+      maxTurns: 25,
+      mcpConfig: '.mcp.ci.json',
+      appendSystemPrompt: 'Be brief.',
+    });
+
+    expect(args).toEqual([
+      '-p',
+      'test',
+      '--output-format',
+      'stream-json',
+      '--verbose',
+      '--model',
+      'sonnet',
+      '--permission-mode',
+      'acceptEdits',
+      '--max-turns',
+      '25',
+      '--mcp-config',
+      '.mcp.ci.json',
+      '--append-system-prompt',
+      'Be brief.',
+    ]);
+  });
+
+  test('passes each tool rule as its own argument', () => {
+    const args = buildClaudeArgs({
+      prompt: 'test',
+      allowedTools: ['Read', 'Bash(git diff:*)'],
+      disallowedTools: ['Edit'],
+    });
+
+    expect(args.slice(4)).toEqual([
+      '--allowedTools',
+      'Read',
+      'Bash(git diff:*)',
+      '--disallowedTools',
+      'Edit',
+    ]);
+  });
+
+  test('omits empty tool lists', () => {
+    expect(buildClaudeArgs({ prompt: 'test', allowedTools: [] })).not.toContain('--allowedTools');
+  });
+});
@@ -3,11 +3,39 @@
  */
 
 import { spawn } from 'node:child_process';
-import type { ClaudeRunOptions, ClaudeRunResult } from '../types';
+import {
+  StreamJsonParser,
+  getAssistantText,
+  getResult,
+  type StreamJsonEvent,
+  type StreamJsonResult,
+} from './stream-json-parser';
+import { DEFAULT_KILL_GRACE_PERIOD, trackProcessGroup } from './process-group';
+import type {
+  AgentAdapter,
+  ClaudeRunOptions,
+  ClaudeRunResult,
+} from '../types';
 
 const DEFAULT_TIMEOUT = 10 * 60 * 1000; // 10 minutes
 
-export class ClaudeCLIAdapter {
+/**
+ * Raised when a run is stopped by timeout or abort.
+ * Carries whatever output the process produced before it was stopped.
+ */
+export class ClaudeRunError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'timeout' | 'aborted',
+    public readonly stdout: string,
+    public readonly stderr: string
+  ) {
+    super(message);
+    this.name = 'ClaudeRunError';
+  }
+}
+
+export class ClaudeCLIAdapter implements AgentAdapter {
   private claudePath: string;
 
   constructor(claudePath: string = 'claude') {
@@ -17,16 +45,34 @@ export class ClaudeCLIAdapter {
   /**
    * Run a prompt through Claude CLI as a subprocess
    * Each invocation starts with fresh context
+   *
+   * On timeout or abort the whole process group receives SIGTERM, then
+   * SIGKILL after `killGracePeriod`. The promise rejects with a
+   * ClaudeRunError once the process has exited.
    */
   async runPrompt(options: ClaudeRunOptions): Promise<ClaudeRunResult> {
-    const { prompt, workingDirectory, timeout = DEFAULT_TIMEOUT } = options;
+    const {
+      prompt,
+      workingDirectory,
+      timeout = DEFAULT_TIMEOUT,
+      outputFormat = 'text',
+      onText,
+      signal,
+      killGracePeriod = DEFAULT_KILL_GRACE_PERIOD,
+    } = options;
+
+    if (signal?.aborted) {
+      throw new ClaudeRunError('Claude CLI run aborted', 'aborted', '', '');
+    }
 
     return new Promise((resolve, reject) => {
-      const args = ['-p', prompt, '--output-format', 'text'];
+      const args = buildClaudeArgs(options);
 
       const child = spawn(this.claudePath, args, {
         cwd: workingDirectory ?? process.cwd(),
         stdio: ['ignore', 'pipe', 'pipe'],
+        // Own process group so tools spawned by claude can be killed with it
+        detached: true,
         env: {
           ...process.env,
           // Disable interactive features
@@ -37,29 +83,90 @@ export class ClaudeCLIAdapter {
       let stdout = '';
       let stderr = '';
 
+      // stream-json state
+      const parser = new StreamJsonParser();
+      const stream: { text: string; result: StreamJsonResult | null } = {
+        text: '',
+        result: null,
+      };
+
+      // Why the process was stopped, if we stopped it
+      let stopReason: 'timeout' | 'aborted' | null = null;
+      const group = trackProcessGroup(child, killGracePeriod);
+
+      const handleEvents = (events: StreamJsonEvent[]): void => {
+        for (const event of events) {
+          for (const text of getAssistantText(event)) {
+            stream.text += text;
+            onText?.(text);
+          }
+          stream.result = getResult(event) ?? stream.result;
+        }
+      };
+
+      const stop = (reason: 'timeout' | 'aborted'): void => {
+        if (stopReason) return;
+        stopReason = reason;
+        group.stop();
+      };
+
+      const onAbort = (): void => stop('aborted');
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const cleanup = (): void => {
+        clearTimeout(timeoutId);
+        group.release();
+        signal?.removeEventListener('abort', onAbort);
+      };
+
       child.stdout.on('data', (data) => {
-        stdout += data.toString();
+        const chunk = data.toString();
+        stdout += chunk;
+        if (outputFormat === 'stream-json') {
+          handleEvents(parser.push(chunk));
+        }
       });
 
       child.stderr.on('data', (data) => {
         stderr += data.toString();
       });
 
-      const timeoutId = setTimeout(() => {
-        child.kill('SIGTERM');
-        reject(new Error(`Claude CLI timed out after ${timeout}ms`));
-      }, timeout);
+      const timeoutId = setTimeout(() => stop('timeout'), timeout);
 
       child.on('close', (code) => {
-        clearTimeout(timeoutId);
+        cleanup();
+
+        if (stopReason) {
+          const message =
+            stopReason === 'timeout'
+              ? `Claude CLI timed out after ${timeout}ms`
+              : 'Claude CLI run aborted';
+          reject(new ClaudeRunError(message, stopReason, stdout, stderr));
+          return;
+        }
+
+        if (outputFormat !== 'stream-json') {
+          resolve({
+            content: stdout,
+            exitCode: code ?? 0,
+          });
+          return;
+        }
+
+        handleEvents(parser.end());
+        const summary = stream.result;
         resolve({
-          content: stdout,
+          content: summary?.result ?? stream.text,
           exitCode: code ?? 0,
+          isError: summary?.isError ?? false,
+          sessionId: summary?.sessionId ?? null,
+          usage: summary?.usage ?? null,
+          costUsd: summary?.costUsd ?? null,
         });
       });
 
       child.on('error', (err) => {
-        clearTimeout(timeoutId);
+        cleanup();
         reject(err);
       });
     });
@@ -93,3 +200,41 @@ export class ClaudeCLIAdapter {
     }
   }
 }
+
+/**
+ * Command-line arguments for a `claude -p` invocation
+ */
+export function buildClaudeArgs(options: ClaudeRunOptions): string[] {
+  const outputFormat = options.outputFormat ?? 'text';
+  const args = ['-p', options.prompt, '--output-format', outputFormat];
+
+  if (outputFormat === 'stream-json') {
+    // stream-json requires --verbose in print mode
+    args.push('--verbose');
+  }
+  if (options.model) {
+    args.push('--model', options.model);
+  }
+  if (options.permissionMode) {
+    args.push('--permission-mode', options.permissionMode);
+  }
+  if (options.maxTurns !== undefined) {
+    args.push('--max-turns', String(options.maxTurns));
+  }
+  if (options.mcpConfig) {
+    args.push('--mcp-config', options.mcpConfig);
+  }
+  if (options.appendSystemPrompt) {
+    args.push('--append-system-prompt', options.appendSystemPrompt);
+  }
+  // Tool lists are variadic; each rule is its own argument so rules
+  // containing spaces (`Bash(git diff:*)`) stay intact
+  if (options.allowedTools?.length) {
+    args.push('--allowedTools', ...options.allowedTools);
+  }
+  if (options.disallowedTools?.length) {
+    args.push('--disallowedTools', ...options.disallowedTools);
+  }
+
+  return args;
+}
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for process-group.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { killActiveProcessGroups, trackProcessGroup } from './process-group';
+
+/**
+ * A detached shell with a background sleep. The sleep inherits stdout,
+ * so the child only emits `close` once the sleep is gone too.
+ */
+async function spawnGroup() {
+  const child = spawn('sh', ['-c', 'sleep 30 & echo started; wait'], {
+    stdio: ['ignore', 'pipe', 'ignore'],
+    detached: true,
+  });
+  await once(child.stdout, 'data');
+  child.stdout.resume();
+  return child;
+}
+
+describe('trackProcessGroup', () => {
+  test('stops the whole group and ignores repeat calls', async () => {
+    const child = await spawnGroup();
+    const group = trackProcessGroup(child, 1000);
+
+    group.stop();
+    group.stop();
+    const [, signal] = await once(child, 'close');
+    group.release();
+
+    expect(group.stopped).toBe(true);
+    expect(signal).toBe('SIGTERM');
+  });
+});
+
+describe('killActiveProcessGroups', () => {
+  test('synchronously kills every tracked group', async () => {
+    const child = await spawnGroup();
+    trackProcessGroup(child);
+
+    expect(killActiveProcessGroups()).toBe(1);
+    const [, signal] = await once(child, 'close');
+
+    expect(signal).toBe('SIGKILL');
+    expect(killActiveProcessGroups()).toBe(0);
+  });
+
+  test('skips groups released after their child exited', async () => {
+    const child = await spawnGroup();
+    const group = trackProcessGroup(child, 1000);
+    group.stop();
+    await once(child, 'close');
+    group.release();
+
+    expect(killActiveProcessGroups()).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Process groups of spawned agents and local checks
+ *
+ * Children are spawned detached, in their own process group, so the tools
+ * they start can be stopped with them. A detached group outlives this
+ * process unless it is killed explicitly, so every live group is tracked
+ * for `killActiveProcessGroups` to kill before a hard exit.
+ */
+
+import type { ChildProcess } from 'node:child_process';
+
+export const DEFAULT_KILL_GRACE_PERIOD = 10 * 1000; // 10 seconds
+
+const activeGroups = new Set<ChildProcess>();
+
+export interface ProcessGroup {
+  /** SIGTERM the group, then SIGKILL after the grace period; repeat calls are ignored */
+  stop(): void;
+  /** Whether `stop` has been called */
+  readonly stopped: boolean;
+  /** Cancel a pending SIGKILL and stop tracking the group, once the child has exited */
+  release(): void;
+}
+
+/**
+ * Track the process group led by a child spawned with `detached: true`
+ */
+export function trackProcessGroup(
+  child: ChildProcess,
+  killGracePeriod: number = DEFAULT_KILL_GRACE_PERIOD
+): ProcessGroup {
+  let stopped = false;
+  let killTimer: ReturnType<typeof setTimeout> | undefined;
+  activeGroups.add(child);
+
+  return {
+    stop() {
+      if (stopped) return;
+      stopped = true;
+      killGroup(child, 'SIGTERM');
+      killTimer = setTimeout(() => killGroup(child, 'SIGKILL'), killGracePeriod);
+    },
+    get stopped() {
+      return stopped;
+    },
+    release() {
+      clearTimeout(killTimer);
+      activeGroups.delete(child);
+    },
+  };
+}
+
+/**
+ * Synchronously signal every tracked process group, for use right before
+ * `process.exit`. Returns the number of groups signalled.
+ */
+export function killActiveProcessGroups(sig: NodeJS.Signals = 'SIGKILL'): number {
+  const count = activeGroups.size;
+  for (const child of activeGroups) {
+    killGroup(child, sig);
+  }
+  activeGroups.clear();
+  return count;
+}
+
+function killGroup(child: ChildProcess, sig: NodeJS.Signals): void {
+  try {
+    if (child.pid) process.kill(-child.pid, sig);
+  } catch {
+    // Group already gone, fall back to the direct child
+    child.kill(sig);
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Tests for recording-adapter.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { RecordingAdapter, ReplayAdapter, ReplayMismatchError } from './recording-adapter';
+import { ScriptedAdapter } from './scripted-adapter';
+import { ClaudeRunError } from './claude-cli-adapter';
+import { WorkflowRunner } from '../runner/workflow-runner';
+import { formatNonceInstructions } from '../runner/signal-parser';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { PhaseRecording } from '../types';
+
+const signal = (name: string, payload?: Record<string, unknown>): string =>
+  `<signal name="${name}" nonce="{{nonce}}">${payload ? JSON.stringify(payload) : ''}</signal>`;
+
+const SCRIPT = {
+  '/workflows:phase-setup': signal('SETUP_COMPLETE', {
+    worktreePath: '/tmp/worktree',
+    branch: 'feat/test',
+  }),
+  '/workflows:phase-plan': signal('PLANNING_COMPLETE', {
+    plans: [{ path: 'plans/workflow-1-auth.md', issueNumber: 42 }],
+  }),
+  '/workflows:phase-impl': `${signal('PLAN_COMPLETE', { planNumber: 1 })}\n${signal(
+    'IMPLEMENTATION_COMPLETE'
+  )}`,
+  '/workflows:phase-submit': signal('PR_CREATED', {
+    prNumber: 7,
+    prUrl: 'https://github.com/org/repo/pull/7',
+  }),
+  '/workflows:phase-verify-ci': [
+    signal('CI_FAILED', { failureReason: 'lint' }),
+    signal('CI_PASSED'),
+  ],
+  '/workflows:phase-fix-ci': signal('CI_FIX_PUSHED'),
+  '/workflows:phase-resolve-comments': signal('COMMENTS_RESOLVED'),
+};
+
+describe('RecordingAdapter and ReplayAdapter', () => {
+  let testDir: string;
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'recording-adapter-test-'));
+    fixturesDir = join(testDir, 'fixtures');
+    spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  const record = () =>
+    new WorkflowRunner({
+      adapter: new ScriptedAdapter(SCRIPT),
+      basePath: testDir,
+      recordDir: fixturesDir,
+    }).run('research/test.md');
+
+  test('records one numbered fixture per invocation', async () => {
+    await record();
+
+    const files = await readdir(fixturesDir);
+    expect(files.sort()).toEqual([
+      '001-phase-setup.json',
+      '002-phase-plan.json',
+      '003-phase-impl.json',
+      '004-phase-submit.json',
+      '005-phase-verify-ci.json',
+      '006-phase-fix-ci.json',
+      '007-phase-verify-ci.json',
+      '008-phase-resolve-comments.json',
+    ]);
+
+    const recording = JSON.parse(
+      await readFile(join(fixturesDir, '003-phase-impl.json'), 'utf-8')
+    ) as PhaseRecording;
+    expect(recording.prompt).toBe('/workflows:phase-impl plans/workflow-1-auth.md');
+    expect(recording.workingDirectory).toBe('/tmp/worktree');
+    expect(recording.exitCode).toBe(0);
+    expect(recording.nonce).toMatch(/^[0-9a-f]{16}$/);
+    expect(recording.output).toContain(`nonce="${recording.nonce}"`);
+    expect(recording.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test('replays a recorded run to the same outcome', async () => {
+    const recorded = await record();
+
+    const replay = new ReplayAdapter(fixturesDir);
+    const replayed = await new WorkflowRunner({
+      adapter: replay,
+      basePath: testDir,
+    }).run('research/test.md');
+
+    expect(replayed.finalPhase).toBe(recorded.finalPhase);
+    expect(replayed.context.ciAttempts).toBe(1);
+    expect(replayed.context.signals.map((s) => s.signal)).toEqual(
+      recorded.context.signals.map((s) => s.signal)
+    );
+    expect(await replay.remaining()).toBe(0);
+  });
+
+  test('replays recorded local checks instead of running them again', async () => {
+    const worktree = join(testDir, 'worktree');
+    await mkdir(worktree);
+    const script = {
+      ...SCRIPT,
+      '/workflows:phase-setup': signal('SETUP_COMPLETE', {
+        worktreePath: worktree,
+        branch: 'feat/test',
+      }),
+      '/workflows:phase-fix-checks': signal('VERIFY_FIXED'),
+    };
+    // Fails on the first run only, so running it again would diverge
+    const verify = {
+      test: 'test -f .fixed || { touch .fixed; echo "auth.test.ts: 1 fail"; exit 1; }',
+    };
+
+    const recorded = await new WorkflowRunner({
+      adapter: new ScriptedAdapter(script),
+      basePath: testDir,
+      recordDir: fixturesDir,
+      verify,
+    }).run('research/test.md');
+
+    const files = (await readdir(fixturesDir)).sort();
+    expect(files.slice(3, 6)).toEqual([
+      '004-local-checks.json',
+      '005-phase-fix-checks.json',
+      '006-local-checks.json',
+    ]);
+
+    const replay = new ReplayAdapter(fixturesDir);
+    const replayed = await new WorkflowRunner({
+      adapter: replay,
+      basePath: testDir,
+      verify,
+    }).run('research/test.md');
+
+    expect(replayed.finalPhase).toBe('completed');
+    expect(replayed.context.verifyAttempts).toBe(1);
+    expect(replayed.context.signals.map((s) => s.signal)).toEqual(
+      recorded.context.signals.map((s) => s.signal)
+    );
+    expect(await replay.remaining()).toBe(0);
+  });
+
+  test('fails loudly when the runner asks for a different command', async () => {
+    await record();
+
+    const path = join(fixturesDir, '002-phase-plan.json');
+    const recording = JSON.parse(await readFile(path, 'utf-8')) as PhaseRecording;
+    await writeFile(path, JSON.stringify({ ...recording, prompt: '/workflows:phase-other' }));
+
+    const runner = new WorkflowRunner({
+      adapter: new ReplayAdapter(fixturesDir),
+      basePath: testDir,
+    });
+
+    await expect(runner.run('research/test.md')).rejects.toThrow(
+      'Replay mismatch at 002-phase-plan.json: recorded "/workflows:phase-other", runner asked for "/workflows:phase-plan research/test.md"'
+    );
+  });
+
+  test('fails loudly when recordings run out', async () => {
+    const adapter = new ReplayAdapter(fixturesDir);
+    await new RecordingAdapter(new ScriptedAdapter(SCRIPT), fixturesDir).runPrompt({
+      prompt: '/workflows:phase-setup research/test.md',
+    });
+
+    await adapter.runPrompt({ prompt: '/workflows:phase-setup research/test.md' });
+    const next = adapter.runPrompt({ prompt: '/workflows:phase-plan research/test.md' });
+
+    await expect(next).rejects.toBeInstanceOf(ReplayMismatchError);
+    await expect(next).rejects.toThrow('Replay exhausted after 1 recordings');
+  });
+
+  test('records and replays failed invocations', async () => {
+    const recorder = new RecordingAdapter(
+      new ScriptedAdapter({ '/workflows:phase-submit': { output: 'pushing...', timeout: true } }),
+      fixturesDir
+    );
+    const options = { prompt: '/workflows:phase-submit', timeout: 1000 };
+
+    await expect(recorder.runPrompt(options)).rejects.toBeInstanceOf(ClaudeRunError);
+
+    const error = await new ReplayAdapter(fixturesDir)
+      .runPrompt(options)
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(ClaudeRunError);
+    expect((error as ClaudeRunError).reason).toBe('timeout');
+    expect((error as ClaudeRunError).stdout).toBe('pushing...');
+  });
+
+  test('does not save cancelled invocations', async () => {
+    const recorder = new RecordingAdapter(
+      new ScriptedAdapter({ '/workflows:phase-submit': { output: 'pushing...', delayMs: 1000 } }),
+      fixturesDir
+    );
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    const error = await recorder
+      .runPrompt({ prompt: '/workflows:phase-submit', signal: controller.signal })
+      .catch((err: unknown) => err);
+
+    expect((error as ClaudeRunError).reason).toBe('aborted');
+    expect(await readdir(fixturesDir).catch(() => [])).toEqual([]);
+  });
+
+  test('re-tags recorded signals with the new nonce', async () => {
+    await new RecordingAdapter(new ScriptedAdapter(SCRIPT), fixturesDir).runPrompt({
+      prompt: '/workflows:phase-setup research/test.md',
+      appendSystemPrompt: formatNonceInstructions('aaaaaaaaaaaaaaaa'),
+    });
+
+    const result = await new ReplayAdapter(fixturesDir).runPrompt({
+      prompt: '/workflows:phase-setup research/test.md',
+      appendSystemPrompt: formatNonceInstructions('bbbbbbbbbbbbbbbb'),
+    });
+
+    expect(result.content).toContain('nonce="bbbbbbbbbbbbbbbb"');
+    expect(result.content).not.toContain('aaaaaaaaaaaaaaaa');
+  });
+
+  test('refuses to start a new recording over existing fixtures', async () => {
+    await record();
+
+    await expect(record()).rejects.toThrow('already holds fixtures');
+  });
+
+  test('continues numbering after existing fixtures when resuming', async () => {
+    const recorder = () => new RecordingAdapter(new ScriptedAdapter(SCRIPT), fixturesDir);
+    await recorder().runPrompt({ prompt: '/workflows:phase-setup research/test.md' });
+    await recorder().runPrompt({ prompt: '/workflows:phase-plan research/test.md' });
+
+    expect((await readdir(fixturesDir)).sort()).toEqual([
+      '001-phase-setup.json',
+      '002-phase-plan.json',
+    ]);
+  });
+});
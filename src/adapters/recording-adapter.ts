@@ -0,0 +1,283 @@
+/**
+ * Record-and-replay of agent invocations
+ *
+ * RecordingAdapter wraps a real backend and saves every invocation to a
+ * fixtures directory (`001-phase-setup.json`, `002-phase-plan.json`, ...).
+ * ReplayAdapter serves those recordings back in order so a past run can be
+ * re-driven through the current signal parser and state machine. The local
+ * checks of the verifying phase are recorded and replayed the same way, so
+ * a replay does not depend on the current working tree.
+ */
+
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ClaudeRunError } from './claude-cli-adapter';
+import { readSignalNonce } from '../runner/signal-parser';
+import { runVerifyChecks } from '../runner/verify-checks';
+import type {
+  AgentAdapter,
+  ClaudeRunOptions,
+  ClaudeRunResult,
+  PhaseRecording,
+  VerifyCheckResult,
+  VerifyCommands,
+  VerifyRunOptions,
+} from '../types';
+
+const FIXTURE_PATTERN = /^\d+-.*\.json$/;
+
+// Recorded in place of a prompt for the local checks of a verifying phase
+const LOCAL_CHECKS_PROMPT = 'local-checks';
+
+/**
+ * Raised when the runner asks for a different command than was recorded.
+ * The runner rethrows it instead of failing the workflow.
+ */
+export class ReplayMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayMismatchError';
+  }
+}
+
+export class RecordingAdapter implements AgentAdapter {
+  private inner: AgentAdapter;
+  private fixturesDir: string;
+  private nextIndex: number | null = null;
+
+  constructor(inner: AgentAdapter, fixturesDir: string) {
+    this.inner = inner;
+    this.fixturesDir = fixturesDir;
+  }
+
+  /**
+   * Begin a new recording. Refuses a directory that already holds
+   * fixtures, since a replay would serve the older run first.
+   * A resumed run skips this and appends to the existing fixtures.
+   */
+  async start(): Promise<void> {
+    if ((await listFixtures(this.fixturesDir)).length > 0) {
+      throw new Error(
+        `Recording directory ${this.fixturesDir} already holds fixtures; use an empty directory`
+      );
+    }
+    this.nextIndex = 1;
+  }
+
+  /**
+   * Run the prompt through the wrapped backend and save the outcome,
+   * including failures other than a cancel, before passing it on
+   */
+  async runPrompt(options: ClaudeRunOptions): Promise<ClaudeRunResult> {
+    const startedAt = Date.now();
+    const base = {
+      prompt: options.prompt,
+      workingDirectory: options.workingDirectory ?? null,
+      nonce: readSignalNonce(options.appendSystemPrompt),
+    };
+
+    try {
+      const result = await this.inner.runPrompt(options);
+      await this.save({
+        ...base,
+        output: result.content,
+        exitCode: result.exitCode,
+        durationMs: Date.now() - startedAt,
+        isError: result.isError,
+        sessionId: result.sessionId,
+        usage: result.usage,
+        costUsd: result.costUsd,
+      });
+      return result;
+    } catch (err) {
+      // A cancelled phase is run again on resume, so it is not saved
+      if (err instanceof ClaudeRunError && err.reason === 'aborted') {
+        throw err;
+      }
+      await this.save({
+        ...base,
+        output: err instanceof ClaudeRunError ? err.stdout : '',
+        exitCode: null,
+        durationMs: Date.now() - startedAt,
+        error: {
+          message: err instanceof Error ? err.message : String(err),
+          reason: err instanceof ClaudeRunError ? err.reason : null,
+        },
+      });
+      throw err;
+    }
+  }
+
+  /**
+   * Run the local checks through the wrapped backend, or directly, and
+   * save their results
+   */
+  async runChecks(
+    commands: VerifyCommands,
+    options: VerifyRunOptions
+  ): Promise<VerifyCheckResult[]> {
+    const startedAt = Date.now();
+    const checks = this.inner.runChecks
+      ? await this.inner.runChecks(commands, options)
+      : await runVerifyChecks(commands, options);
+
+    // A cancelled verifying phase is run again on resume, so it is not saved
+    if (!options.signal?.aborted) {
+      await this.save({
+        prompt: LOCAL_CHECKS_PROMPT,
+        workingDirectory: options.cwd,
+        nonce: null,
+        output: '',
+        exitCode: null,
+        durationMs: Date.now() - startedAt,
+        checks,
+      });
+    }
+    return checks;
+  }
+
+  private async save(recording: PhaseRecording): Promise<void> {
+    await mkdir(this.fixturesDir, { recursive: true });
+
+    // Continue numbering after existing fixtures so a resumed run appends
+    if (this.nextIndex === null) {
+      this.nextIndex = (await listFixtures(this.fixturesDir)).length + 1;
+    }
+
+    const filename = formatFixtureName(this.nextIndex++, recording.prompt);
+    await writeFile(
+      join(this.fixturesDir, filename),
+      `${JSON.stringify(recording, null, 2)}\n`,
+      'utf-8'
+    );
+  }
+}
+
+export class ReplayAdapter implements AgentAdapter {
+  private fixturesDir: string;
+  private recordings: Array<{ file: string; recording: PhaseRecording }> | null =
+    null;
+  private position = 0;
+
+  constructor(fixturesDir: string) {
+    this.fixturesDir = fixturesDir;
+  }
+
+  /**
+   * Serve the next recording. Throws ReplayMismatchError if the prompt
+   * differs from the recorded one or the recordings are exhausted.
+   */
+  async runPrompt(options: ClaudeRunOptions): Promise<ClaudeRunResult> {
+    const recording = await this.next(options.prompt);
+
+    // Recorded signals carry the old nonce; re-tag them for this run
+    const nonce = readSignalNonce(options.appendSystemPrompt);
+    const output =
+      recording.nonce && nonce
+        ? recording.output.replaceAll(recording.nonce, nonce)
+        : recording.output;
+
+    if (recording.error) {
+      if (recording.error.reason) {
+        throw new ClaudeRunError(
+          recording.error.message,
+          recording.error.reason,
+          output,
+          ''
+        );
+      }
+      throw new Error(recording.error.message);
+    }
+
+    options.onText?.(output);
+
+    return {
+      content: output,
+      exitCode: recording.exitCode ?? 0,
+      isError: recording.isError,
+      sessionId: recording.sessionId,
+      usage: recording.usage,
+      costUsd: recording.costUsd,
+    };
+  }
+
+  /**
+   * Serve the recorded local check results instead of running the commands
+   */
+  async runChecks(): Promise<VerifyCheckResult[]> {
+    const recording = await this.next(LOCAL_CHECKS_PROMPT);
+    return recording.checks ?? [];
+  }
+
+  /**
+   * Number of recordings not yet served
+   */
+  async remaining(): Promise<number> {
+    return (await this.load()).length - this.position;
+  }
+
+  /**
+   * Take the next recording, which must be for `prompt`
+   */
+  private async next(prompt: string): Promise<PhaseRecording> {
+    const recordings = await this.load();
+    const next = recordings[this.position];
+
+    if (!next) {
+      throw new ReplayMismatchError(
+        `Replay exhausted after ${recordings.length} recordings; runner asked for: ${prompt}`
+      );
+    }
+
+    const { file, recording } = next;
+    if (recording.prompt !== prompt) {
+      throw new ReplayMismatchError(
+        `Replay mismatch at ${file}: recorded "${recording.prompt}", runner asked for "${prompt}"`
+      );
+    }
+    this.position++;
+    return recording;
+  }
+
+  private async load(): Promise<Array<{ file: string; recording: PhaseRecording }>> {
+    if (this.recordings) return this.recordings;
+
+    const files = await listFixtures(this.fixturesDir);
+    if (files.length === 0) {
+      throw new Error(`No recordings found in ${this.fixturesDir}`);
+    }
+
+    this.recordings = await Promise.all(
+      files.map(async (file) => ({
+        file,
+        recording: JSON.parse(
+          await readFile(join(this.fixturesDir, file), 'utf-8')
+        ) as PhaseRecording,
+      }))
+    );
+    return this.recordings;
+  }
+}
+
+/**
+ * Fixture filenames in recording order
+ */
+async function listFixtures(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir);
+    return entries
+      .filter((name) => FIXTURE_PATTERN.test(name))
+      .sort((a, b) => parseInt(a, 10) - parseInt(b, 10));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * `/workflows:phase-impl plans/x.md` at index 3 → `003-phase-impl.json`
+ */
+function formatFixtureName(index: number, prompt: string): string {
+  const command = prompt.split(' ')[0].replace(/^\/workflows:/, '');
+  const slug = command.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${String(index).padStart(3, '0')}-${slug || 'prompt'}.json`;
+}
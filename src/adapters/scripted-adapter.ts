@@ -0,0 +1,124 @@
+/**
+ * Scripted agent backend for exercising the runner without a real agent
+ *
+ * Responses are looked up by the full prompt first, then by the slash
+ * command alone (`/workflows:phase-setup research/x.md` → `/workflows:phase-setup`).
+ * A single response is returned on every call; an array is consumed in order.
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import { ClaudeRunError } from './claude-cli-adapter';
+import { readSignalNonce } from '../runner/signal-parser';
+import type {
+  AgentAdapter,
+  ClaudeRunOptions,
+  ClaudeUsage,
+  ClaudeRunResult,
+} from '../types';
+
+export interface ScriptedResponse {
+  /** Output text; `{{nonce}}` is replaced by the invocation's signal nonce */
+  output?: string;
+  exitCode?: number;
+  /** Report an error in the final result, as stream-json `is_error` does */
+  isError?: boolean;
+  usage?: ClaudeUsage;
+  costUsd?: number;
+  /** Milliseconds to wait before responding */
+  delayMs?: number;
+  /** Reject as if the run timed out, with `output` as partial stdout */
+  timeout?: boolean;
+  /** Reject with this error message */
+  error?: string;
+}
+
+export type ScriptedStep = string | ScriptedResponse;
+
+export type AgentScript = Record<string, ScriptedStep | ScriptedStep[]>;
+
+export class ScriptedAdapter implements AgentAdapter {
+  private script: AgentScript;
+  private positions = new Map<string, number>();
+
+  /** Every prompt received, in order */
+  readonly calls: ClaudeRunOptions[] = [];
+
+  constructor(script: AgentScript) {
+    this.script = script;
+  }
+
+  async runPrompt(options: ClaudeRunOptions): Promise<ClaudeRunResult> {
+    this.calls.push(options);
+
+    const response = this.nextResponse(options.prompt);
+    const nonce = readSignalNonce(options.appendSystemPrompt) ?? '';
+    const output = (response.output ?? '').replaceAll('{{nonce}}', nonce);
+
+    if (response.delayMs) {
+      try {
+        await sleep(response.delayMs, undefined, { signal: options.signal });
+      } catch {
+        throw new ClaudeRunError('Claude CLI run aborted', 'aborted', output, '');
+      }
+    } else if (options.signal?.aborted) {
+      throw new ClaudeRunError('Claude CLI run aborted', 'aborted', '', '');
+    }
+
+    if (response.timeout) {
+      throw new ClaudeRunError(
+        `Claude CLI timed out after ${options.timeout ?? 0}ms`,
+        'timeout',
+        output,
+        ''
+      );
+    }
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    options.onText?.(output);
+
+    return {
+      content: output,
+      exitCode: response.exitCode ?? 0,
+      isError: response.isError,
+      usage: response.usage,
+      costUsd: response.costUsd,
+    };
+  }
+
+  /**
+   * Commands that were called, without arguments
+   */
+  get commands(): string[] {
+    return this.calls.map((call) => call.prompt.split(' ')[0]);
+  }
+
+  private nextResponse(prompt: string): ScriptedResponse {
+    const command = prompt.split(' ')[0];
+    const key = prompt in this.script ? prompt : command;
+    const entry = this.script[key];
+
+    if (entry === undefined) {
+      throw new Error(`No scripted response for: ${prompt}`);
+    }
+
+    if (!Array.isArray(entry)) {
+      return toResponse(entry);
+    }
+
+    const position = this.positions.get(key) ?? 0;
+    if (position >= entry.length) {
+      throw new Error(
+        `Scripted responses exhausted for: ${key} (${entry.length} used)`
+      );
+    }
+    this.positions.set(key, position + 1);
+    return toResponse(entry[position]);
+  }
+}
+
+function toResponse(step: ScriptedStep): ScriptedResponse {
+  return typeof step === 'string' ? { output: step } : step;
+}
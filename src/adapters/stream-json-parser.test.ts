@@ -0,0 +1,99 @@
+/**
+ * Unit tests for stream-json-parser.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { StreamJsonParser, getAssistantText, getResult } from './stream-json-parser';
+
+const assistantLine = (text: string) =>
+  JSON.stringify({
+    type: 'assistant',
+    message: { content: [{ type: 'text', text }] },
+    session_id: 'sess-1',
+  });
+
+const resultLine = JSON.stringify({
+  type: 'result',
+  subtype: 'success',
+  is_error: false,
+  result: 'Done.\n<phase>CI_PASSED</phase>',
+  session_id: 'sess-1',
+  total_cost_usd: 0.42,
+  usage: {
+    input_tokens: 100,
+    output_tokens: 50,
+    cache_creation_input_tokens: 10,
+    cache_read_input_tokens: 2000,
+  },
+});
+
+describe('StreamJsonParser', () => {
+  test('parses complete lines', () => {
+    const parser = new StreamJsonParser();
+    const events = parser.push(`${assistantLine('Hello')}\n${resultLine}\n`);
+    expect(events.map((e) => e.type)).toEqual(['assistant', 'result']);
+  });
+
+  test('buffers partial lines across chunks', () => {
+    const parser = new StreamJsonParser();
+    const line = assistantLine('Hello');
+    expect(parser.push(line.slice(0, 10))).toEqual([]);
+    const events = parser.push(`${line.slice(10)}\n`);
+    expect(events).toHaveLength(1);
+    expect(getAssistantText(events[0])).toEqual(['Hello']);
+  });
+
+  test('flushes an unterminated final line on end', () => {
+    const parser = new StreamJsonParser();
+    expect(parser.push(resultLine)).toEqual([]);
+    expect(parser.end().map((e) => e.type)).toEqual(['result']);
+  });
+
+  test('skips non-JSON noise', () => {
+    const parser = new StreamJsonParser();
+    const events = parser.push(`warning: something\n{broken\n${assistantLine('ok')}\n`);
+    expect(events).toHaveLength(1);
+  });
+});
+
+describe('getAssistantText', () => {
+  test('returns only text blocks', () => {
+    const text = getAssistantText({
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'tool_use', name: 'Bash', input: {} },
+          { type: 'text', text: 'First' },
+          { type: 'text', text: 'Second' },
+        ],
+      },
+    });
+    expect(text).toEqual(['First', 'Second']);
+  });
+
+  test('returns nothing for other event types', () => {
+    expect(getAssistantText({ type: 'system', subtype: 'init' })).toEqual([]);
+  });
+});
+
+describe('getResult', () => {
+  test('extracts result, session, usage and cost', () => {
+    const [event] = new StreamJsonParser().push(`${resultLine}\n`);
+    expect(getResult(event)).toEqual({
+      result: 'Done.\n<phase>CI_PASSED</phase>',
+      isError: false,
+      sessionId: 'sess-1',
+      usage: {
+        inputTokens: 100,
+        outputTokens: 50,
+        cacheCreationInputTokens: 10,
+        cacheReadInputTokens: 2000,
+      },
+      costUsd: 0.42,
+    });
+  });
+
+  test('returns null for non-result events', () => {
+    expect(getResult({ type: 'assistant' })).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Line parser for Claude CLI `--output-format stream-json` output
+ *
+ * Mirrors the jq filters used by the shell scripts:
+ * - JQ_STREAM: assistant text blocks
+ * - JQ_RESULT: the final `result` message
+ */
+
+import type { ClaudeUsage } from '../types';
+
+export interface StreamJsonEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface StreamJsonResult {
+  result: string | null;
+  isError: boolean;
+  sessionId: string | null;
+  usage: ClaudeUsage | null;
+  costUsd: number | null;
+}
+
+export class StreamJsonParser {
+  private buffer = '';
+
+  /**
+   * Feed a stdout chunk, returning every complete event it finishes.
+   * Lines that are not JSON objects (warnings, progress noise) are skipped.
+   */
+  push(chunk: string): StreamJsonEvent[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    return lines.flatMap((line) => parseLine(line));
+  }
+
+  /**
+   * Flush a trailing line that was not newline-terminated
+   */
+  end(): StreamJsonEvent[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    return parseLine(rest);
+  }
+}
+
+/**
+ * Text blocks of an assistant message event
+ */
+export function getAssistantText(event: StreamJsonEvent): string[] {
+  if (event.type !== 'assistant') return [];
+
+  const message = event.message as { content?: unknown } | undefined;
+  if (!Array.isArray(message?.content)) return [];
+
+  return message.content
+    .filter(
+      (block): block is { type: 'text'; text: string } =>
+        block?.type === 'text' && typeof block.text === 'string'
+    )
+    .map((block) => block.text);
+}
+
+/**
+ * Summary of the final `result` event, or null for any other event
+ */
+export function getResult(event: StreamJsonEvent): StreamJsonResult | null {
+  if (event.type !== 'result') return null;
+
+  return {
+    result: typeof event.result === 'string' ? event.result : null,
+    isError: event.is_error === true,
+    sessionId: typeof event.session_id === 'string' ? event.session_id : null,
+    usage: parseUsage(event.usage),
+    costUsd:
+      typeof event.total_cost_usd === 'number' ? event.total_cost_usd : null,
+  };
+}
+
+function parseLine(line: string): StreamJsonEvent[] {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('{')) return [];
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    return typeof parsed?.type === 'string' ? [parsed as StreamJsonEvent] : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseUsage(value: unknown): ClaudeUsage | null {
+  if (typeof value !== 'object' || value === null) return null;
+
+  const usage = value as Record<string, unknown>;
+  const count = (key: string): number =>
+    typeof usage[key] === 'number' ? (usage[key] as number) : 0;
+
+  return {
+    inputTokens: count('input_tokens'),
+    outputTokens: count('output_tokens'),
+    cacheCreationInputTokens: count('cache_creation_input_tokens'),
+    cacheReadInputTokens: count('cache_read_input_tokens'),
+  };
+}
@@ -4,26 +4,150 @@
  *
  * Usage:
  *   bun run src/cli.ts run <research-file>
- *   bun run src/cli.ts resume
+ *   bun run src/cli.ts resume [--answer <text>]
+ *   bun run src/cli.ts approve
+ *   bun run src/cli.ts reject --reason <text>
  */
 
+import { parseArgs } from 'node:util';
 import { WorkflowRunner } from './runner/workflow-runner';
+import { ReplayAdapter } from './adapters/recording-adapter';
+import { killActiveProcessGroups } from './adapters/process-group';
+import {
+  loadWorkflowConfig,
+  mergeWorkflowConfig,
+  parseWorkflowConfig,
+} from './runner/workflow-config';
+import { formatUsageSummary } from './runner/usage-report';
+import { formatApprovalSummary } from './runner/approval-summary';
+import { formatEscalationSummary } from './runner/escalation';
+import { isPaused } from './workflows/main.workflow';
+import type {
+  PlanInfo,
+  WorkflowApproval,
+  WorkflowConfig,
+  WorkflowEscalation,
+  WorkflowUsage,
+} from './types';
+
+function parseCliArgs() {
+  try {
+    return parseArgs({
+      args: process.argv.slice(2),
+      options: {
+        verbose: { type: 'boolean', short: 'v' },
+        record: { type: 'string' },
+        replay: { type: 'string' },
+        config: { type: 'string' },
+        'claude-path': { type: 'string' },
+        'max-iterations': { type: 'string' },
+        'max-verify-attempts': { type: 'string' },
+        'max-ci-attempts': { type: 'string' },
+        'max-comment-attempts': { type: 'string' },
+        'max-rebase-attempts': { type: 'string' },
+        'phase-timeout': { type: 'string' },
+        'max-cost': { type: 'string' },
+        'max-duration': { type: 'string' },
+        merge: { type: 'boolean' },
+        'merge-strategy': { type: 'string' },
+        cleanup: { type: 'boolean' },
+        stacked: { type: 'boolean' },
+        reason: { type: 'string' },
+        answer: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+      allowPositionals: true,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Invalid arguments';
+    console.error(`Error: ${message}`);
+    printUsage();
+    process.exit(1);
+  }
+}
 
 async function main(): Promise<void> {
-  const [command, ...args] = process.argv.slice(2);
+  const { values, positionals } = parseCliArgs();
+  const [command, ...args] = positionals;
+
+  if (values.help) {
+    printUsage();
+    return;
+  }
 
   if (!command) {
     printUsage();
     process.exit(1);
   }
 
-  const runner = new WorkflowRunner({
-    verbose: args.includes('--verbose') || args.includes('-v'),
+  // workflow.config.(json|ts) with CLI flags layered on top
+  let config: WorkflowConfig;
+  try {
+    const flags = parseWorkflowConfig(
+      {
+        claudePath: values['claude-path'],
+        maxIterations: toNumber(values['max-iterations']),
+        maxVerifyAttempts: toNumber(values['max-verify-attempts']),
+        maxCiAttempts: toNumber(values['max-ci-attempts']),
+        maxCommentAttempts: toNumber(values['max-comment-attempts']),
+        maxRebaseAttempts: toNumber(values['max-rebase-attempts']),
+        phaseTimeout: toNumber(values['phase-timeout']),
+        budget: {
+          maxCostUsd: toNumber(values['max-cost']),
+          maxDurationMs: toNumber(values['max-duration']),
+        },
+        merge: values.merge,
+        mergeStrategy: values['merge-strategy'],
+        cleanup: values.cleanup,
+        stacked: values.stacked,
+      },
+      'command line options'
+    );
+    config = mergeWorkflowConfig(
+      await loadWorkflowConfig(process.cwd(), values.config),
+      flags
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+
+  // Options that cannot be combined are rejected by the runner
+  let runner: WorkflowRunner;
+  try {
+    runner = new WorkflowRunner({
+      ...config,
+      verbose: values.verbose,
+      adapter: values.replay ? new ReplayAdapter(values.replay) : undefined,
+      recordDir: values.record,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+
+  // First Ctrl+C stops the current phase and saves progress for resume;
+  // a second one, or SIGTERM, kills the running agent or check and exits
+  // immediately, since its process group would otherwise outlive the CLI
+  let interrupted = false;
+  process.on('SIGINT', () => {
+    if (interrupted) {
+      killActiveProcessGroups();
+      process.exit(130);
+    }
+    interrupted = true;
+    runner.cancel();
+  });
+  process.on('SIGTERM', () => {
+    killActiveProcessGroups();
+    process.exit(143);
   });
 
   switch (command) {
     case 'run': {
-      const researchFile = args.find((a) => !a.startsWith('-'));
+      const researchFile = args[0];
       if (!researchFile) {
         console.error('Error: Research file path required');
         console.error('Usage: cli.ts run <research-file>');
@@ -32,15 +156,38 @@ async function main(): Promise<void> {
 
       const result = await runner.run(researchFile);
       outputResult(result);
-      process.exit(result.success ? 0 : 1);
+      process.exit(exitCode(result));
       break;
     }
 
     case 'resume': {
       try {
-        const result = await runner.resume();
+        const result = await runner.resume(values.answer);
+        outputResult(result);
+        process.exit(exitCode(result));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        console.error(`Error: ${message}`);
+        process.exit(1);
+      }
+      break;
+    }
+
+    case 'approve':
+    case 'reject': {
+      if (command === 'reject' && !values.reason) {
+        console.error('Error: Rejection reason required');
+        console.error('Usage: cli.ts reject --reason <text>');
+        process.exit(1);
+      }
+
+      try {
+        const result =
+          command === 'approve'
+            ? await runner.approve()
+            : await runner.reject(values.reason as string);
         outputResult(result);
-        process.exit(result.success ? 0 : 1);
+        process.exit(exitCode(result));
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Unknown error';
         console.error(`Error: ${message}`);
@@ -50,8 +197,6 @@ async function main(): Promise<void> {
     }
 
     case 'help':
-    case '--help':
-    case '-h':
       printUsage();
       break;
 
@@ -67,17 +212,40 @@ function printUsage(): void {
 Workflow Runner CLI
 
 Commands:
-  run <research-file>   Start a new workflow from research file
-  resume                Resume an existing workflow from progress file
-  help                  Show this help message
+  run <research-file>           Start a new workflow from research file
+  resume [--answer <text>]      Resume an existing workflow from progress file
+  approve                       Approve the pending gate and continue the workflow
+  reject --reason <text>        Reject the pending gate and fail the workflow
+  help                          Show this help message
 
 Options:
-  --verbose, -v         Enable verbose output
+  --verbose, -v                 Enable verbose output
+  --config <path>               Config file (default: workflow.config.json or .ts in cwd)
+  --claude-path <path>          Claude CLI executable
+  --max-iterations <n>          Maximum phase invocations (default: 50)
+  --max-verify-attempts <n>     Local check fix attempts before failing (default: 3)
+  --max-ci-attempts <n>         CI fix attempts before failing (default: 5)
+  --max-comment-attempts <n>    Comment fix attempts before failing (default: 10)
+  --max-rebase-attempts <n>     Rebases onto a moved base branch before failing (default: 3)
+  --phase-timeout <ms>          Timeout for each phase (default: 900000)
+  --max-cost <usd>              Pause the workflow once this much has been spent
+  --max-duration <ms>           Pause the workflow once its phases have run this long
+  --merge                       Merge the PR once comments are resolved
+  --merge-strategy <strategy>   merge, squash or rebase (default: squash)
+  --cleanup                     Remove the worktree at the end; after --merge also the branch and plan issues
+  --stacked                     Open one PR per plan, each stacked on the previous plan's branch
+  --record <dir>                Save each phase's prompt and output as fixtures in <dir>
+  --replay <dir>                Replay recorded fixtures from <dir> instead of running Claude
+  --reason <text>               Why the pending gate is rejected (reject only)
+  --answer <text>               Answer to a needs_human escalation, passed to the agent (resume only)
 
 Examples:
   bun run src/cli.ts run research/my-feature.md
   bun run src/cli.ts run research/auth-system.md --verbose
+  bun run src/cli.ts run research/auth-system.md --record fixtures/auth
+  bun run src/cli.ts run research/auth-system.md --replay fixtures/auth
   bun run src/cli.ts resume
+  bun run src/cli.ts reject --reason "Split plan 2 into smaller steps"
 `);
 }
 
@@ -86,9 +254,25 @@ interface WorkflowResult {
   context: {
     prUrl: string | null;
     error: string | null;
+    pause: { phase: string; reason: string } | null;
+    plans: PlanInfo[];
+    approval: WorkflowApproval | null;
+    escalation: WorkflowEscalation | null;
     signals: Array<{ signal: string; timestamp: string }>;
   };
   finalPhase: string;
+  usage: WorkflowUsage;
+  cancelled: boolean;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function exitCode(result: WorkflowResult): number {
+  if (result.success) return 0;
+  if (isPaused(result.finalPhase)) return 2;
+  return result.cancelled ? 130 : 1;
 }
 
 function outputResult(result: WorkflowResult): void {
@@ -101,6 +285,41 @@ function outputResult(result: WorkflowResult): void {
     if (result.context.prUrl) {
       console.log(`pr_url: ${result.context.prUrl}`);
     }
+    // Stacked mode: one PR per plan
+    result.context.plans.forEach((plan, i) => {
+      if (plan.pr?.url) {
+        console.log(`plan_${i + 1}_pr_url: ${plan.pr.url}`);
+      }
+    });
+  } else if (result.finalPhase === 'needs_human') {
+    console.log('<promise>NEEDS_HUMAN</promise>');
+    console.log(`final_phase: ${result.finalPhase}`);
+    if (result.context.escalation) {
+      for (const line of formatEscalationSummary(result.context.escalation)) {
+        console.log(line);
+      }
+    }
+    console.log('Answer on the PR, then resume with: bun run src/cli.ts resume --answer <text>');
+  } else if (result.finalPhase === 'awaiting_approval') {
+    console.log('<promise>AWAITING_APPROVAL</promise>');
+    console.log(`final_phase: ${result.finalPhase}`);
+    for (const line of formatApprovalSummary(result.context)) {
+      console.log(line);
+    }
+    console.log('Approve with: bun run src/cli.ts approve');
+    console.log('Reject with: bun run src/cli.ts reject --reason <text>');
+  } else if (result.finalPhase === 'budget_exceeded') {
+    console.log('<promise>PAUSED</promise>');
+    console.log(`final_phase: ${result.finalPhase}`);
+    if (result.context.pause) {
+      console.log(`paused_phase: ${result.context.pause.phase}`);
+      console.log(`<reason>${result.context.pause.reason}</reason>`);
+    }
+    console.log('Raise the budget and resume with: bun run src/cli.ts resume');
+  } else if (result.cancelled) {
+    console.log('<promise>CANCELLED</promise>');
+    console.log(`final_phase: ${result.finalPhase}`);
+    console.log('Resume with: bun run src/cli.ts resume');
   } else {
     console.log('<promise>FAILED</promise>');
     console.log(`final_phase: ${result.finalPhase}`);
@@ -111,6 +330,12 @@ function outputResult(result: WorkflowResult): void {
 
   console.log('═'.repeat(50));
 
+  // Token and cost summary
+  console.log('\nUsage:');
+  for (const line of formatUsageSummary(result.usage)) {
+    console.log(`  ${line}`);
+  }
+
   // Summary of signals
   console.log('\nSignal History:');
   for (const signal of result.context.signals) {
@@ -12,16 +12,107 @@ export type {
   WorkflowEvent,
   WorkflowResult,
   PlanInfo,
+  PlanPullRequest,
   SignalRecord,
   ClaudeRunOptions,
   ClaudeRunResult,
+  ClaudeOutputFormat,
+  ClaudePermissionMode,
+  AgentSettings,
+  ClaudeUsage,
+  AgentAdapter,
+  PhaseRecording,
   ProgressFileData,
+  JournalEntry,
+  NoSignalRetryPolicy,
+  NoSignalRetryConfig,
+  WorkflowConfig,
+  WorkflowLimits,
+  UsageTotals,
+  WorkflowBudget,
+  WorkflowPause,
+  ApprovalGate,
+  ChangeSummary,
+  WorkflowApproval,
+  VerifyCommands,
+  VerifyCheckName,
+  VerifyCheckResult,
+  VerifyRunOptions,
+  EscalationPhase,
+  WorkflowEscalation,
+  StuckLoopAction,
+  MergeStrategy,
+  LoopHistory,
+  CommentCategory,
+  CommentAction,
+  CommentRecord,
+  CiStatus,
+  BaseStatus,
+  CheckConclusion,
+  CiCheckResult,
+  CiRun,
+  WorkflowUsage,
 } from './types';
 
 // Runner
 export { WorkflowRunner } from './runner/workflow-runner';
-export { parseSignals, parseAllSignals, extractSignalData } from './runner/signal-parser';
-export { ProgressWriter } from './runner/progress-writer';
+export { EventJournal, hashOutput, rebuildSnapshot } from './runner/event-journal';
+export {
+  parseAllPhaseSignals,
+  resolveSignalConflicts,
+  createSignalNonce,
+  formatNonceInstructions,
+  readSignalNonce,
+  verifySignalNonce,
+  parseSignals,
+  parseAllSignals,
+  extractSignalData,
+  parsePlanList,
+} from './runner/signal-parser';
+export {
+  DEFAULT_NO_SIGNAL_POLICY,
+  resolveNoSignalPolicy,
+  getRetryDelay,
+  formatNoSignalPrompt,
+} from './runner/retry-policy';
+export { ProgressWriter, toWorkflowContext } from './runner/progress-writer';
+export {
+  PROGRESS_SCHEMA_VERSION,
+  ProgressFileSchema,
+  migrateProgressData,
+} from './runner/progress-schema';
+export { resolveAgentSettings } from './runner/agent-settings';
+export { checkBudget } from './runner/budget';
+export { formatApprovalSummary } from './runner/approval-summary';
+export {
+  formatEscalationSummary,
+  formatHumanAnswerPrompt,
+} from './runner/escalation';
+export {
+  VERIFY_CHECKS,
+  hasVerifyCommands,
+  runVerifyChecks,
+  runCheck,
+  formatVerifyFailures,
+  formatRebaseChecks,
+} from './runner/verify-checks';
+export { formatCommentRecord, formatHandledComments } from './runner/comment-report';
+export {
+  getPhaseUsageShares,
+  formatCost,
+  formatShare,
+  formatPhaseUsage,
+  formatUsageSummary,
+} from './runner/usage-report';
+export type { PhaseUsageShare } from './runner/usage-report';
+export {
+  CONFIG_FILENAMES,
+  WorkflowConfigSchema,
+  defineWorkflowConfig,
+  parseWorkflowConfig,
+  loadWorkflowConfig,
+  mergeWorkflowConfig,
+} from './runner/workflow-config';
 export {
   mapPhaseToCommand,
   formatCommand,
@@ -36,7 +127,70 @@ export {
   getCurrentPhase,
   isTerminal,
   isSuccess,
+  isPaused,
+  isAwaitingApproval,
+  isEscalated,
+  DEFAULT_WORKFLOW_LIMITS,
+  createEmptyUsage,
 } from './workflows/main.workflow';
 
+export {
+  createEmptyLoopHistory,
+  fingerprintCiFailure,
+  fingerprintPendingComments,
+  detectRepeat,
+  isEmptyFix,
+  describeStall,
+} from './workflows/loop-detection';
+export type { LoopStall } from './workflows/loop-detection';
+export {
+  isCommentResolved,
+  getReportedComments,
+  mergeComments,
+  countComments,
+} from './workflows/comment-tracking';
+export {
+  getReportedCheckResults,
+  createCiRun,
+  getCheckTrends,
+} from './workflows/ci-history';
+export {
+  getPlanBranch,
+  getStackBase,
+  openPlanPullRequest,
+  savePlanPullRequest,
+  getNextPlanIndex,
+  getWorkflowBranches,
+} from './workflows/stacked-prs';
+
 // Adapters
-export { ClaudeCLIAdapter } from './adapters/claude-cli-adapter';
+export {
+  ClaudeCLIAdapter,
+  ClaudeRunError,
+  buildClaudeArgs,
+} from './adapters/claude-cli-adapter';
+export {
+  trackProcessGroup,
+  killActiveProcessGroups,
+} from './adapters/process-group';
+export {
+  StreamJsonParser,
+  getAssistantText,
+  getResult,
+} from './adapters/stream-json-parser';
+export { ScriptedAdapter } from './adapters/scripted-adapter';
+export {
+  RecordingAdapter,
+  ReplayAdapter,
+  ReplayMismatchError,
+} from './adapters/recording-adapter';
+export type {
+  ScriptedResponse,
+  ScriptedStep,
+  AgentScript,
+} from './adapters/scripted-adapter';
+export type {
+  StreamJsonEvent,
+  StreamJsonResult,
+} from './adapters/stream-json-parser';
+export type { ProcessGroup } from './adapters/process-group';
@@ -0,0 +1,37 @@
+/**
+ * Unit tests for agent-settings.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { resolveAgentSettings } from './agent-settings';
+
+describe('resolveAgentSettings', () => {
+  test('returns empty settings without configuration', () => {
+    expect(resolveAgentSettings('setup')).toEqual({});
+  });
+
+  test('applies shared settings to every phase', () => {
+    const settings = resolveAgentSettings('ci_resolution', { model: 'sonnet', maxTurns: 30 });
+    expect(settings).toEqual({ model: 'sonnet', maxTurns: 30 });
+  });
+
+  test('per-phase settings replace shared keys', () => {
+    const settings = resolveAgentSettings(
+      'ci_resolution',
+      { model: 'sonnet', allowedTools: ['Read', 'Edit', 'Bash'] },
+      { ci_resolution: { allowedTools: ['Read', 'Bash(gh:*)'] } }
+    );
+
+    expect(settings).toEqual({ model: 'sonnet', allowedTools: ['Read', 'Bash(gh:*)'] });
+  });
+
+  test('ignores settings for other phases', () => {
+    const settings = resolveAgentSettings(
+      'implementing',
+      { model: 'sonnet' },
+      { ci_resolution: { model: 'haiku' } }
+    );
+
+    expect(settings.model).toBe('sonnet');
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Per-phase agent settings for Claude invocations
+ */
+
+import type { AgentSettings, WorkflowPhase } from '../types';
+
+/**
+ * Resolve the settings for a phase, layering per-phase overrides on the
+ * settings shared by every phase. Overrides replace whole keys, so a
+ * phase's `allowedTools` is not merged with the shared list.
+ */
+export function resolveAgentSettings(
+  phase: WorkflowPhase,
+  defaults: AgentSettings = {},
+  phaseAgents: Partial<Record<WorkflowPhase, AgentSettings>> = {}
+): AgentSettings {
+  const overrides = Object.fromEntries(
+    Object.entries(phaseAgents[phase] ?? {}).filter(
+      ([, value]) => value !== undefined
+    )
+  );
+  return { ...defaults, ...overrides };
+}
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for approval-summary.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { formatApprovalSummary } from './approval-summary';
+import type { PlanInfo } from '../types';
+
+const PLANS: PlanInfo[] = [
+  { path: 'plans/workflow-1-auth.md', issueNumber: 42, completed: false, title: 'Auth' },
+  { path: 'plans/workflow-2-api.md', issueNumber: null, completed: false },
+];
+
+describe('formatApprovalSummary', () => {
+  test('returns nothing when no approval is pending', () => {
+    expect(formatApprovalSummary({ plans: PLANS, approval: null })).toEqual([]);
+  });
+
+  test('lists the plans before implementing', () => {
+    const lines = formatApprovalSummary({
+      plans: PLANS,
+      approval: {
+        phase: 'implementing',
+        requestedAt: '2024-01-01T00:00:00.000Z',
+        prTitle: null,
+        diffSummary: null,
+      },
+    });
+
+    expect(lines).toEqual([
+      'Approval required before: Implementing',
+      'Plans:',
+      '  1. plans/workflow-1-auth.md (issue: #42) - Auth',
+      '  2. plans/workflow-2-api.md',
+    ]);
+  });
+
+  test('shows the PR title and diff summary before submitting', () => {
+    const lines = formatApprovalSummary({
+      plans: PLANS,
+      approval: {
+        phase: 'submitting',
+        requestedAt: '2024-01-01T00:00:00.000Z',
+        prTitle: 'Add authentication',
+        diffSummary: ' src/auth.ts | 40 +++\n 1 file changed, 40 insertions(+)\n',
+      },
+    });
+
+    expect(lines).toEqual([
+      'Approval required before: Submitting PR',
+      'PR title: Add authentication',
+      'Diff summary:',
+      '  src/auth.ts | 40 +++',
+      '  1 file changed, 40 insertions(+)',
+    ]);
+  });
+
+  test('marks summaries the implementation phase did not report', () => {
+    const lines = formatApprovalSummary({
+      plans: PLANS,
+      approval: {
+        phase: 'submitting',
+        requestedAt: '2024-01-01T00:00:00.000Z',
+        prTitle: null,
+        diffSummary: null,
+      },
+    });
+
+    expect(lines).toContain('PR title: (not reported)');
+    expect(lines.at(-1)).toBe('  (not reported)');
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Summary of what a workflow in `awaiting_approval` is waiting on
+ */
+
+import { getPhaseName } from './phase-mapper';
+import type { WorkflowContext } from '../types';
+
+/**
+ * Lines describing the pending approval: the plans before implementing,
+ * the reported PR title and diff summary before submitting.
+ * Empty when no approval is pending.
+ */
+export function formatApprovalSummary(
+  context: Pick<WorkflowContext, 'plans' | 'approval'>
+): string[] {
+  const { approval } = context;
+  if (!approval) return [];
+
+  const lines = [`Approval required before: ${getPhaseName(approval.phase)}`];
+
+  if (approval.phase === 'implementing') {
+    lines.push('Plans:');
+    context.plans.forEach((plan, i) => {
+      const issue = plan.issueNumber ? ` (issue: #${plan.issueNumber})` : '';
+      const title = plan.title ? ` - ${plan.title}` : '';
+      lines.push(`  ${i + 1}. ${plan.path}${issue}${title}`);
+    });
+  } else {
+    lines.push(`PR title: ${approval.prTitle ?? '(not reported)'}`);
+    lines.push('Diff summary:');
+    const diff = (approval.diffSummary ?? '')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line !== '');
+    lines.push(
+      ...(diff.length > 0 ? diff.map((line) => `  ${line}`) : ['  (not reported)'])
+    );
+  }
+
+  return lines;
+}
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for budget.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { checkBudget } from './budget';
+import { createEmptyLoopHistory } from '../workflows/loop-detection';
+import type { UsageTotals, WorkflowContext } from '../types';
+
+const totals = (overrides: Partial<UsageTotals> = {}): UsageTotals => ({
+  invocations: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheCreationInputTokens: 0,
+  cacheReadInputTokens: 0,
+  costUsd: 0,
+  durationMs: 0,
+  ...overrides,
+});
+
+const createContext = (overrides: Partial<WorkflowContext> = {}): WorkflowContext => ({
+  researchFile: 'research/test.md',
+  worktreePath: '/path/to/worktree',
+  branch: 'feat/test',
+  plans: [],
+  currentPlanIndex: 0,
+  prNumber: 7,
+  prUrl: null,
+  ciStatus: null,
+  ciRuns: [],
+  verifyAttempts: 0,
+  ciAttempts: 3,
+  commentAttempts: 0,
+  rebaseAttempts: 0,
+  limits: {
+    maxVerifyAttempts: 3,
+    maxCiAttempts: 5,
+    maxCommentAttempts: 10,
+    maxRebaseAttempts: 3,
+    stuckLoopAction: 'escalate',
+  },
+  pause: null,
+  approvalGates: [],
+  approval: null,
+  escalation: null,
+  loops: createEmptyLoopHistory(),
+  comments: [],
+  verifyEnabled: false,
+  verifyFailures: [],
+  changeSummary: null,
+  mergeStrategy: null,
+  cleanupEnabled: false,
+  stacked: false,
+  error: null,
+  startedAt: '2024-01-01T00:00:00.000Z',
+  lastUpdate: '2024-01-01T00:00:00.000Z',
+  signals: [],
+  usage: {
+    total: totals({ invocations: 4, costUsd: 2.5, durationMs: 90 * 60 * 1000 }),
+    phases: {
+      implementing: totals({ invocations: 1, costUsd: 1 }),
+      ci_fixing: totals({ invocations: 3, costUsd: 1.5 }),
+    },
+  },
+  ...overrides,
+});
+
+describe('checkBudget', () => {
+  test('allows any phase without a budget', () => {
+    expect(checkBudget({}, createContext(), 'ci_fixing')).toBeNull();
+  });
+
+  test('allows phases within budget', () => {
+    const budget = {
+      maxCostUsd: 5,
+      maxDurationMs: 2 * 60 * 60 * 1000,
+      maxInvocations: { ci_fixing: 4 },
+    };
+    expect(checkBudget(budget, createContext(), 'ci_fixing')).toBeNull();
+  });
+
+  test('stops once the cost budget is spent', () => {
+    expect(checkBudget({ maxCostUsd: 2.5 }, createContext(), 'setup')).toBe(
+      'Cost budget exceeded: $2.5000 spent of $2.5000'
+    );
+  });
+
+  test('stops once the phases have run for the duration budget', () => {
+    expect(
+      checkBudget({ maxDurationMs: 60 * 60 * 1000 }, createContext(), 'setup')
+    ).toBe('Duration budget exceeded: phases ran 1h30m of 1h00m');
+  });
+
+  test('does not count time spent paused', () => {
+    // Started two days ago, but the phases only ran for 90 minutes
+    const context = createContext({ startedAt: '2023-12-30T00:00:00.000Z' });
+    expect(
+      checkBudget({ maxDurationMs: 2 * 60 * 60 * 1000 }, context, 'setup')
+    ).toBeNull();
+  });
+
+  test('stops a phase that used its invocations', () => {
+    const budget = { maxInvocations: { ci_fixing: 3, implementing: 5 } };
+    expect(checkBudget(budget, createContext(), 'ci_fixing')).toBe(
+      'Invocation budget exceeded for ci_fixing: 3 of 3'
+    );
+    expect(checkBudget(budget, createContext(), 'implementing')).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Budget guardrails checked by the runner before each phase
+ */
+
+import type { WorkflowBudget, WorkflowContext, WorkflowPhase } from '../types';
+
+/**
+ * Describe the first budget the workflow has used up before running
+ * `phase`, or null when it may proceed
+ */
+export function checkBudget(
+  budget: WorkflowBudget,
+  context: WorkflowContext,
+  phase: WorkflowPhase
+): string | null {
+  const { total, phases } = context.usage;
+
+  if (budget.maxCostUsd !== undefined && total.costUsd >= budget.maxCostUsd) {
+    return `Cost budget exceeded: $${total.costUsd.toFixed(4)} spent of $${budget.maxCostUsd.toFixed(4)}`;
+  }
+
+  // Only time spent running phases counts, not time waiting while paused
+  if (
+    budget.maxDurationMs !== undefined &&
+    total.durationMs >= budget.maxDurationMs
+  ) {
+    return `Duration budget exceeded: phases ran ${formatDuration(total.durationMs)} of ${formatDuration(budget.maxDurationMs)}`;
+  }
+
+  const maxInvocations = budget.maxInvocations?.[phase];
+  const invocations = phases[phase]?.invocations ?? 0;
+  if (maxInvocations !== undefined && invocations >= maxInvocations) {
+    return `Invocation budget exceeded for ${phase}: ${invocations} of ${maxInvocations}`;
+  }
+
+  return null;
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 60_000) {
+    return `${Math.floor(ms / 1000)}s`;
+  }
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}m`;
+}
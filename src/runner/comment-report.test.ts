@@ -0,0 +1,48 @@
+/**
+ * Unit tests for comment-report.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { formatCommentRecord, formatHandledComments } from './comment-report';
+import type { CommentRecord } from '../types';
+
+const FIXED: CommentRecord = {
+  id: 1201,
+  author: 'alice',
+  file: 'src/auth.ts',
+  line: 42,
+  category: 'actionable-clear',
+  action: 'fixed',
+  fixCommit: 'abc1234',
+};
+
+const ASKED: CommentRecord = {
+  id: 1202,
+  author: 'bob',
+  file: null,
+  line: null,
+  category: 'actionable-unclear',
+  action: 'asked',
+  fixCommit: null,
+};
+
+describe('formatCommentRecord', () => {
+  test('includes the location and fix commit when known', () => {
+    expect(formatCommentRecord(FIXED)).toBe(
+      '#1201 @alice src/auth.ts:42 actionable-clear: fixed (abc1234)'
+    );
+    expect(formatCommentRecord(ASKED)).toBe('#1202 @bob actionable-unclear: asked');
+  });
+});
+
+describe('formatHandledComments', () => {
+  test('lists only resolved comments', () => {
+    const prompt = formatHandledComments([FIXED, ASKED]);
+    expect(prompt).toContain('- #1201 @alice src/auth.ts:42 actionable-clear: fixed (abc1234)');
+    expect(prompt).not.toContain('#1202');
+  });
+
+  test('returns null when nothing has been handled', () => {
+    expect(formatHandledComments([ASKED])).toBeNull();
+  });
+});
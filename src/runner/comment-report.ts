@@ -0,0 +1,32 @@
+/**
+ * Reporting of tracked review comments in the progress file and prompts
+ */
+
+import { isCommentResolved } from '../workflows/comment-tracking';
+import type { CommentRecord } from '../types';
+
+/**
+ * One-line description, e.g.
+ * `#1201 @alice src/auth.ts:42 actionable-clear: fixed (abc1234)`
+ */
+export function formatCommentRecord(comment: CommentRecord): string {
+  const location = comment.file
+    ? ` ${comment.file}${comment.line !== null ? `:${comment.line}` : ''}`
+    : '';
+  const commit = comment.fixCommit ? ` (${comment.fixCommit})` : '';
+  return `#${comment.id} @${comment.author}${location} ${comment.category}: ${comment.action}${commit}`;
+}
+
+/**
+ * System prompt for comment phases listing the comments already dealt
+ * with, so they are not handled again. Null when there are none.
+ */
+export function formatHandledComments(comments: CommentRecord[]): string | null {
+  const handled = comments.filter(isCommentResolved);
+  if (handled.length === 0) return null;
+
+  return [
+    'These review comments were handled in earlier iterations. Skip them unless the reviewer has replied since:',
+    ...handled.map((comment) => `- ${formatCommentRecord(comment)}`),
+  ].join('\n');
+}
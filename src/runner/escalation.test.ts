@@ -0,0 +1,46 @@
+/**
+ * Unit tests for escalation.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { formatEscalationSummary, formatHumanAnswerPrompt } from './escalation';
+import type { WorkflowEscalation } from '../types';
+
+const ESCALATION: WorkflowEscalation = {
+  phase: 'comment_resolution',
+  reason: 'Reviewer asks for an architectural change',
+  commentIds: [1201, 1202],
+  checks: [],
+  requestedAt: '2024-01-01T00:00:00.000Z',
+  answer: null,
+};
+
+describe('formatEscalationSummary', () => {
+  test('names the phase, reason and comments', () => {
+    expect(formatEscalationSummary(ESCALATION)).toEqual([
+      'Needs a human in: Resolving Comments',
+      'Reason: Reviewer asks for an architectural change',
+      'Comments: #1201, #1202',
+    ]);
+  });
+
+  test('lists CI checks', () => {
+    const lines = formatEscalationSummary({
+      ...ESCALATION,
+      phase: 'ci_fixing',
+      commentIds: [],
+      checks: ['e2e', 'deploy-preview'],
+    });
+    expect(lines).toContain('CI checks: e2e, deploy-preview');
+    expect(lines.some((line) => line.startsWith('Comments:'))).toBe(false);
+  });
+});
+
+describe('formatHumanAnswerPrompt', () => {
+  test('quotes the escalation and the answer', () => {
+    const prompt = formatHumanAnswerPrompt(ESCALATION, 'Keep the current design');
+    expect(prompt).toContain('Reason: Reviewer asks for an architectural change');
+    expect(prompt).toContain('Comments: #1201, #1202');
+    expect(prompt).toContain('The human answered:\nKeep the current design');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Reporting of escalations to a human and passing their answer on
+ */
+
+import { getPhaseName } from './phase-mapper';
+import type { WorkflowEscalation } from '../types';
+
+/**
+ * Lines describing what needs a person and why
+ */
+export function formatEscalationSummary(escalation: WorkflowEscalation): string[] {
+  const lines = [
+    `Needs a human in: ${getPhaseName(escalation.phase)}`,
+    `Reason: ${escalation.reason}`,
+  ];
+
+  if (escalation.commentIds.length > 0) {
+    lines.push(`Comments: ${escalation.commentIds.map((id) => `#${id}`).join(', ')}`);
+  }
+  if (escalation.checks.length > 0) {
+    lines.push(`CI checks: ${escalation.checks.join(', ')}`);
+  }
+
+  return lines;
+}
+
+/**
+ * System prompt for the escalated phase after a human answered, so the
+ * agent acts on the answer instead of escalating again
+ */
+export function formatHumanAnswerPrompt(
+  escalation: WorkflowEscalation,
+  answer: string
+): string {
+  return [
+    'You previously escalated this phase to a human:',
+    ...formatEscalationSummary(escalation).slice(1),
+    '',
+    'The human answered:',
+    answer,
+    '',
+    'Follow this answer when continuing.',
+  ].join('\n');
+}
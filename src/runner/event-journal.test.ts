@@ -0,0 +1,173 @@
+/**
+ * Unit tests for event-journal.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { createActor } from 'xstate';
+import { EventJournal, hashOutput, rebuildSnapshot } from './event-journal';
+import { workflowMachine, getCurrentPhase } from '../workflows/main.workflow';
+import { appendFile, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { JournalEntry, WorkflowEvent } from '../types';
+
+const EVENTS: WorkflowEvent[] = [
+  { type: 'START', researchFile: 'research/test.md', timestamp: '2024-01-01T00:00:00.000Z' },
+  {
+    type: 'SETUP_COMPLETE',
+    data: { worktreePath: '/path/to/worktree', branch: 'feat/test' },
+    timestamp: '2024-01-01T00:01:00.000Z',
+  },
+  {
+    type: 'PLANNING_COMPLETE',
+    data: { plans: [{ path: 'plans/workflow-1-auth.md', issueNumber: 42, completed: false }] },
+    timestamp: '2024-01-01T00:02:00.000Z',
+  },
+  { type: 'IMPLEMENTATION_COMPLETE', timestamp: '2024-01-01T00:03:00.000Z' },
+  {
+    type: 'PR_CREATED',
+    data: { prNumber: 7, prUrl: 'https://github.com/org/repo/pull/7' },
+    timestamp: '2024-01-01T00:04:00.000Z',
+  },
+  { type: 'CI_FAILED', timestamp: '2024-01-01T00:05:00.000Z' },
+];
+
+/**
+ * Drive a live actor with the events and record journal entries alongside
+ */
+function recordRun(events: WorkflowEvent[]) {
+  const actor = createActor(workflowMachine);
+  actor.start();
+  const entries: JournalEntry[] = events.map((event, i) => {
+    const phaseBefore = getCurrentPhase(actor.getSnapshot().value as string);
+    actor.send(event);
+    return {
+      event,
+      timestamp: event.timestamp!,
+      iteration: i,
+      phaseBefore,
+      phaseAfter: getCurrentPhase(actor.getSnapshot().value as string),
+      outputHash: i === 0 ? null : hashOutput(`output ${i}`),
+    };
+  });
+  return { snapshot: actor.getSnapshot(), entries };
+}
+
+describe('EventJournal', () => {
+  let testDir: string;
+  let journal: EventJournal;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'workflow-journal-test-'));
+    journal = new EventJournal(testDir);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test('read returns empty list when journal does not exist', async () => {
+    expect(await journal.read()).toEqual([]);
+  });
+
+  test('appends and reads entries in order', async () => {
+    const { entries } = recordRun(EVENTS);
+    for (const entry of entries) {
+      await journal.append(entry);
+    }
+
+    const read = await journal.read();
+    expect(read).toEqual(entries);
+  });
+
+  test('clear truncates the journal', async () => {
+    const { entries } = recordRun(EVENTS);
+    await journal.append(entries[0]);
+    await journal.clear();
+
+    expect(await journal.read()).toEqual([]);
+  });
+
+  test('rebuild reproduces the live snapshot', async () => {
+    const { snapshot, entries } = recordRun(EVENTS);
+    for (const entry of entries) {
+      await journal.append(entry);
+    }
+
+    const rebuilt = await journal.rebuild();
+    expect(rebuilt.value).toBe('ci_fixing');
+    expect(rebuilt.context).toEqual(snapshot.context);
+  });
+
+  test('skips a torn last entry so the run can still be rebuilt', async () => {
+    const { entries } = recordRun(EVENTS);
+    for (const entry of entries.slice(0, -1)) {
+      await journal.append(entry);
+    }
+    const path = join(testDir, '.workflow-events.jsonl');
+    const torn = JSON.stringify(entries.at(-1)).slice(0, 40);
+    await appendFile(path, torn, 'utf-8');
+
+    expect(await journal.read()).toEqual(entries.slice(0, -1));
+    expect((await journal.rebuild()).value).toBe('ci_resolution');
+    // Reading leaves the file alone
+    expect(await readFile(path, 'utf-8')).toEndWith(torn);
+  });
+
+  test('repair truncates a torn last entry so appends start on a fresh line', async () => {
+    const { entries } = recordRun(EVENTS);
+    for (const entry of entries.slice(0, -1)) {
+      await journal.append(entry);
+    }
+    const torn = JSON.stringify(entries.at(-1)).slice(0, 40);
+    await appendFile(join(testDir, '.workflow-events.jsonl'), torn, 'utf-8');
+
+    expect(await journal.repair()).toBe(torn);
+    expect(await journal.repair()).toBeNull();
+
+    await journal.append(entries.at(-1)!);
+    expect(await journal.read()).toEqual(entries);
+  });
+
+  test('repair terminates a complete last entry without a newline', async () => {
+    const { entries } = recordRun(EVENTS);
+    const path = join(testDir, '.workflow-events.jsonl');
+    await writeFile(path, entries.slice(0, 2).map((e) => JSON.stringify(e)).join('\n'), 'utf-8');
+
+    expect(await journal.read()).toEqual(entries.slice(0, 2));
+    expect(await journal.repair()).toBeNull();
+
+    await journal.append(entries[2]);
+    expect(await journal.read()).toEqual(entries.slice(0, 3));
+  });
+
+  test('still rejects a corrupt entry before the last line', async () => {
+    await writeFile(join(testDir, '.workflow-events.jsonl'), '{ nope\n{"event":{}}', 'utf-8');
+    await expect(journal.read()).rejects.toThrow('line 1');
+  });
+
+  test('read reports the line of a corrupt entry', async () => {
+    await writeFile(join(testDir, '.workflow-events.jsonl'), '{"event":{}}\n{ nope\n', 'utf-8');
+    await expect(journal.read()).rejects.toThrow('line 2');
+  });
+});
+
+describe('rebuildSnapshot', () => {
+  test('requires a leading START event', () => {
+    const { entries } = recordRun(EVENTS);
+    expect(() => rebuildSnapshot(entries.slice(1))).toThrow('START');
+  });
+
+  test('detects divergence from the recorded phase', () => {
+    const { entries } = recordRun(EVENTS);
+    entries[2] = { ...entries[2], phaseAfter: 'failed' };
+    expect(() => rebuildSnapshot(entries)).toThrow('Journal diverges at entry 3');
+  });
+});
+
+describe('hashOutput', () => {
+  test('is stable for identical output', () => {
+    expect(hashOutput('abc')).toBe(hashOutput('abc'));
+    expect(hashOutput('abc')).not.toBe(hashOutput('abd'));
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Append-only journal of every event sent to the workflow machine
+ *
+ * Each line of `.workflow-events.jsonl` is one JournalEntry. Replaying the
+ * entries through `workflowMachine` rebuilds the exact snapshot of the run.
+ */
+
+import { appendFile, readFile, writeFile, access } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { join } from 'node:path';
+import { createActor, type SnapshotFrom } from 'xstate';
+import { workflowMachine, getCurrentPhase } from '../workflows/main.workflow';
+import type { JournalEntry } from '../types';
+
+const JOURNAL_FILENAME = '.workflow-events.jsonl';
+
+type WorkflowSnapshot = SnapshotFrom<typeof workflowMachine>;
+
+export class EventJournal {
+  private basePath: string;
+
+  constructor(basePath: string = process.cwd()) {
+    this.basePath = basePath;
+  }
+
+  private get filePath(): string {
+    return join(this.basePath, JOURNAL_FILENAME);
+  }
+
+  /**
+   * Append a single entry to the journal
+   */
+  async append(entry: JournalEntry): Promise<void> {
+    await appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+  }
+
+  /**
+   * Truncate the journal, used when a new workflow starts
+   */
+  async clear(): Promise<void> {
+    await writeFile(this.filePath, '', 'utf-8');
+  }
+
+  /**
+   * Read all journal entries in order.
+   * A crash during `append` can leave the last line unterminated; if it
+   * does not parse it is left out, so the run can still be replayed.
+   * Corrupt lines elsewhere throw. Reading never changes the file; see
+   * `repair`.
+   */
+  async read(): Promise<JournalEntry[]> {
+    const content = await this.readContent();
+    if (content === null) return [];
+
+    const { entries, last } = parseJournal(content);
+    return last ? [...entries, last] : entries;
+  }
+
+  /**
+   * Make the file safe to append to again after a crash during `append`:
+   * an unterminated last entry that parses is terminated, one that does
+   * not is truncated. Returns the dropped text, or null if none was.
+   */
+  async repair(): Promise<string | null> {
+    const content = await this.readContent();
+    if (content === null) return null;
+
+    const { last, end } = parseJournal(content);
+    const tail = content.slice(end);
+    if (tail.trim() === '') return null;
+
+    if (last) {
+      await writeFile(this.filePath, `${content}\n`, 'utf-8');
+      return null;
+    }
+    await writeFile(this.filePath, content.slice(0, end), 'utf-8');
+    return tail;
+  }
+
+  private async readContent(): Promise<string | null> {
+    try {
+      await access(this.filePath);
+    } catch {
+      return null;
+    }
+    return readFile(this.filePath, 'utf-8');
+  }
+
+  /**
+   * Rebuild the machine snapshot by replaying the journal
+   */
+  async rebuild(): Promise<WorkflowSnapshot> {
+    return rebuildSnapshot(await this.read());
+  }
+}
+
+/**
+ * Parse the terminated lines of a journal, throwing on a corrupt one, and
+ * the unterminated tail after `end` if there is one and it parses
+ */
+function parseJournal(content: string): {
+  entries: JournalEntry[];
+  last: JournalEntry | null;
+  end: number;
+} {
+  const end = content.lastIndexOf('\n') + 1;
+  const tail = content.slice(end);
+
+  const entries = content
+    .slice(0, end)
+    .split('\n')
+    .map((line, i) => ({ line, number: i + 1 }))
+    .filter(({ line }) => line.trim() !== '')
+    .map(({ line, number }) => {
+      const entry = parseEntry(line);
+      if (!entry) {
+        throw new Error(`Invalid journal entry at line ${number}`);
+      }
+      return entry;
+    });
+
+  return {
+    entries,
+    last: tail.trim() === '' ? null : parseEntry(tail),
+    end,
+  };
+}
+
+function parseEntry(line: string): JournalEntry | null {
+  try {
+    return JSON.parse(line) as JournalEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hash phase output so the journal can be matched against recorded transcripts
+ */
+export function hashOutput(output: string): string {
+  return createHash('sha256').update(output).digest('hex');
+}
+
+/**
+ * Replay journal entries through a fresh actor.
+ * Throws if the journal does not start with START or if a replayed
+ * transition lands in a different phase than the one recorded.
+ */
+export function rebuildSnapshot(entries: JournalEntry[]): WorkflowSnapshot {
+  if (entries.length === 0 || entries[0].event.type !== 'START') {
+    throw new Error('Journal must begin with a START event');
+  }
+
+  const actor = createActor(workflowMachine);
+  actor.start();
+
+  entries.forEach((entry, i) => {
+    const before = getCurrentPhase(actor.getSnapshot().value as string);
+    if (before !== entry.phaseBefore) {
+      throw new Error(
+        `Journal diverges at entry ${i + 1}: expected phase ${entry.phaseBefore}, got ${before}`
+      );
+    }
+
+    actor.send(entry.event);
+
+    const after = getCurrentPhase(actor.getSnapshot().value as string);
+    if (after !== entry.phaseAfter) {
+      throw new Error(
+        `Journal diverges at entry ${i + 1}: ${entry.event.type} led to ${after}, recorded ${entry.phaseAfter}`
+      );
+    }
+  });
+
+  return actor.getSnapshot();
+}
@@ -10,6 +10,8 @@ import {
   isTerminalPhase,
   isSuccessPhase,
 } from './phase-mapper';
+import { createEmptyUsage } from '../workflows/main.workflow';
+import { createEmptyLoopHistory } from '../workflows/loop-detection';
 import type { WorkflowContext } from '../types';
 
 describe('mapPhaseToCommand', () => {
@@ -21,8 +23,32 @@ describe('mapPhaseToCommand', () => {
     currentPlanIndex: 0,
     prNumber: null,
     prUrl: null,
+    ciStatus: null,
+    ciRuns: [],
+    verifyAttempts: 0,
     ciAttempts: 0,
     commentAttempts: 0,
+    rebaseAttempts: 0,
+    limits: {
+      maxVerifyAttempts: 3,
+      maxCiAttempts: 5,
+      maxCommentAttempts: 10,
+      maxRebaseAttempts: 3,
+      stuckLoopAction: 'escalate',
+    },
+    usage: createEmptyUsage(),
+    pause: null,
+    approvalGates: [],
+    approval: null,
+    escalation: null,
+    loops: createEmptyLoopHistory(),
+    comments: [],
+    verifyEnabled: false,
+    verifyFailures: [],
+    changeSummary: null,
+    mergeStrategy: null,
+    cleanupEnabled: false,
+    stacked: false,
     error: null,
     startedAt: '2024-01-01T00:00:00.000Z',
     lastUpdate: '2024-01-01T00:00:00.000Z',
@@ -84,6 +110,92 @@ describe('mapPhaseToCommand', () => {
     expect(result).toBeNull();
   });
 
+  test('maps rebasing phase to phase-rebase with the PR number', () => {
+    const context = createContext({ prNumber: 123 });
+    expect(mapPhaseToCommand('rebasing', context)).toEqual({
+      command: '/workflows:phase-rebase',
+      args: ['123'],
+    });
+  });
+
+  test('maps merging phase to phase-merge with the PR and strategy', () => {
+    const context = createContext({ prNumber: 123, mergeStrategy: 'rebase' });
+    expect(mapPhaseToCommand('merging', context)).toEqual({
+      command: '/workflows:phase-merge',
+      args: ['123', 'rebase'],
+    });
+  });
+
+  const merged = [
+    { signal: 'PR_MERGED' as const, timestamp: '2024-01-01T00:00:00.000Z' },
+  ];
+
+  test('maps cleanup after a merge to phase-cleanup with the worktree, branch and plan issues', () => {
+    const context = createContext({
+      worktreePath: '/wt',
+      branch: 'feat/test',
+      signals: merged,
+      plans: [
+        { path: 'plans/plan-1.md', issueNumber: 42, completed: true },
+        { path: 'plans/plan-2.md', issueNumber: null, completed: true },
+      ],
+    });
+    expect(mapPhaseToCommand('cleanup', context)).toEqual({
+      command: '/workflows:phase-cleanup',
+      args: ['/wt', 'feat/test', '#42'],
+    });
+  });
+
+  test('maps cleanup without a merge to removing the worktree only', () => {
+    const context = createContext({
+      worktreePath: '/wt',
+      branch: 'feat/test',
+      plans: [{ path: 'plans/plan-1.md', issueNumber: 42, completed: true }],
+    });
+    expect(mapPhaseToCommand('cleanup', context)).toEqual({
+      command: '/workflows:phase-cleanup',
+      args: ['/wt'],
+    });
+  });
+
+  test('maps cleanup of an unmerged stack to removing the worktree only', () => {
+    const pr = (branch: string) => ({
+      branch,
+      baseBranch: null,
+      number: null,
+      url: null,
+      ciStatus: null,
+      ciAttempts: 0,
+      ciRuns: [],
+      commentAttempts: 0,
+      rebaseAttempts: 0,
+      comments: [],
+    });
+    const context = createContext({
+      worktreePath: '/wt',
+      stacked: true,
+      plans: [
+        { path: 'plans/plan-1.md', issueNumber: 42, completed: true, pr: pr('feat/test') },
+        { path: 'plans/plan-2.md', issueNumber: 43, completed: true, pr: pr('feat/test-plan-2') },
+      ],
+    });
+    expect(mapPhaseToCommand('cleanup', context)?.args).toEqual(['/wt']);
+  });
+
+  test('maps verify_fixing phase to phase-fix-checks command', () => {
+    const context = createContext();
+    const result = mapPhaseToCommand('verify_fixing', context);
+    expect(result).toEqual({
+      command: '/workflows:phase-fix-checks',
+      args: [],
+    });
+  });
+
+  test('returns null for verifying, which the runner runs itself', () => {
+    const context = createContext();
+    expect(mapPhaseToCommand('verifying', context)).toBeNull();
+  });
+
   test('maps submitting phase to phase-submit command', () => {
     const context = createContext();
     const result = mapPhaseToCommand('submitting', context);
@@ -93,6 +205,23 @@ describe('mapPhaseToCommand', () => {
     });
   });
 
+  test('maps submitting in stacked mode to phase-submit for the current plan', () => {
+    const plans = [
+      { path: 'plans/plan-1.md', issueNumber: 42, completed: true },
+      { path: 'plans/plan-2.md', issueNumber: 43, completed: true },
+    ];
+    expect(mapPhaseToCommand('submitting', createContext({ stacked: true, plans }))).toEqual({
+      command: '/workflows:phase-submit',
+      args: ['plans/plan-1.md', 'feat/test', '#42'],
+    });
+    expect(
+      mapPhaseToCommand('submitting', createContext({ stacked: true, plans, currentPlanIndex: 1 }))
+    ).toEqual({
+      command: '/workflows:phase-submit',
+      args: ['plans/plan-2.md', 'feat/test-plan-2', 'feat/test', '#43'],
+    });
+  });
+
   test('maps ci_resolution phase to phase-verify-ci command', () => {
     const context = createContext({ prNumber: 123 });
     const result = mapPhaseToCommand('ci_resolution', context);
@@ -2,6 +2,11 @@
  * Map XState phases to slash commands
  */
 
+import {
+  getPlanBranch,
+  getStackBase,
+  getWorkflowBranches,
+} from '../workflows/stacked-prs';
 import type { WorkflowPhase, WorkflowContext } from '../types';
 
 interface PhaseCommand {
@@ -40,12 +45,37 @@ export function mapPhaseToCommand(
       };
     }
 
-    case 'submitting':
+    case 'verify_fixing':
       return {
-        command: '/workflows:phase-submit',
+        command: '/workflows:phase-fix-checks',
         args: [],
       };
 
+    case 'submitting': {
+      if (!context.stacked) {
+        return {
+          command: '/workflows:phase-submit',
+          args: [],
+        };
+      }
+      // One PR for the current plan, on its own branch stacked on the
+      // previous plan's branch
+      const index = context.currentPlanIndex;
+      const currentPlan = context.plans[index];
+      if (!currentPlan) {
+        return null;
+      }
+      return {
+        command: '/workflows:phase-submit',
+        args: [
+          currentPlan.path,
+          getPlanBranch(context.branch, index),
+          getStackBase(context, index),
+          currentPlan.issueNumber ? `#${currentPlan.issueNumber}` : null,
+        ].filter((arg): arg is string => arg !== null),
+      };
+    }
+
     case 'ci_resolution':
       return {
         command: '/workflows:phase-verify-ci',
@@ -71,7 +101,41 @@ export function mapPhaseToCommand(
         args: context.prNumber ? [String(context.prNumber)] : [],
       };
 
+    case 'rebasing':
+      return {
+        command: '/workflows:phase-rebase',
+        args: context.prNumber ? [String(context.prNumber)] : [],
+      };
+
+    case 'merging':
+      return {
+        command: '/workflows:phase-merge',
+        args: context.prNumber
+          ? [String(context.prNumber), context.mergeStrategy ?? 'squash']
+          : [],
+      };
+
+    case 'cleanup':
+      // Without a confirmed merge the branch holds the only copy of the
+      // work and the issues are not done, so only the worktree goes
+      return {
+        command: '/workflows:phase-cleanup',
+        args: (isPrMerged(context)
+          ? [
+              context.worktreePath,
+              ...getWorkflowBranches(context),
+              ...context.plans.map((p) => (p.issueNumber ? `#${p.issueNumber}` : null)),
+            ]
+          : [context.worktreePath]
+        ).filter((arg): arg is string => arg !== null),
+      };
+
+    // Local checks are run by the runner, not by the agent
+    case 'verifying':
     case 'idle':
+    case 'budget_exceeded':
+    case 'awaiting_approval':
+    case 'needs_human':
     case 'completed':
     case 'failed':
       return null;
@@ -81,6 +145,13 @@ export function mapPhaseToCommand(
   }
 }
 
+/**
+ * Whether the merging phase confirmed the PR merged with PR_MERGED
+ */
+function isPrMerged(context: WorkflowContext): boolean {
+  return context.signals.some((record) => record.signal === 'PR_MERGED');
+}
+
 /**
  * Format command with arguments for Claude CLI
  */
@@ -101,11 +172,19 @@ export function getPhaseName(phase: WorkflowPhase): string {
     setup: 'Setup',
     planning: 'Planning',
     implementing: 'Implementing',
+    verifying: 'Running Local Checks',
+    verify_fixing: 'Fixing Local Checks',
     submitting: 'Submitting PR',
     ci_resolution: 'Verifying CI',
     ci_fixing: 'Fixing CI',
     comment_resolution: 'Resolving Comments',
     comment_resolving: 'Applying Comment Fixes',
+    rebasing: 'Rebasing PR',
+    merging: 'Merging PR',
+    cleanup: 'Cleaning Up',
+    budget_exceeded: 'Budget Exceeded',
+    awaiting_approval: 'Awaiting Approval',
+    needs_human: 'Needs Human',
     completed: 'Completed',
     failed: 'Failed',
   };
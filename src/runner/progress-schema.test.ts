@@ -0,0 +1,247 @@
+/**
+ * Unit tests for progress-schema.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { PROGRESS_SCHEMA_VERSION, migrateProgressData } from './progress-schema';
+import { createEmptyUsage } from '../workflows/main.workflow';
+import { createEmptyLoopHistory } from '../workflows/loop-detection';
+
+describe('migrateProgressData', () => {
+  const createLegacyData = (overrides: Record<string, unknown> = {}) => ({
+    timestamp: '2024-01-01T00:00:00.000Z',
+    researchFile: 'research/test.md',
+    worktreePath: null,
+    branch: null,
+    currentPhase: 'implementing',
+    iteration: 2,
+    startedAt: '2024-01-01T00:00:00.000Z',
+    lastUpdate: '2024-01-01T00:00:00.000Z',
+    plans: {
+      total: 2,
+      completed: 2,
+      list: [
+        { path: 'plans/plan-1.md', issueNumber: 1, completed: true },
+        { path: 'plans/plan-2.md', issueNumber: 2, completed: true },
+      ],
+    },
+    pr: { number: null, url: null, ciStatus: null, ciAttempts: 0 },
+    comments: { total: 0, resolved: 0, pending: 0 },
+    signals: [],
+    ...overrides,
+  });
+
+  test('upgrades unversioned data to the current version', () => {
+    const data = migrateProgressData(createLegacyData());
+    expect(data.version).toBe(PROGRESS_SCHEMA_VERSION);
+    expect(data.error).toBeNull();
+    expect(data.comments.attempts).toBe(0);
+  });
+
+  test('adds empty usage to version 1 data', () => {
+    const data = migrateProgressData({
+      ...createLegacyData(),
+      version: 1,
+      error: null,
+      plans: { ...createLegacyData().plans, currentIndex: 2 },
+      comments: { total: 0, resolved: 0, pending: 0, attempts: 3 },
+    });
+
+    expect(data.usage.total.invocations).toBe(0);
+    expect(data.usage.total.costUsd).toBe(0);
+    expect(data.usage.phases).toEqual({});
+    expect(data.comments.attempts).toBe(3);
+  });
+
+  test('adds an empty pause to version 2 data', () => {
+    const data = migrateProgressData({
+      ...createLegacyData(),
+      version: 2,
+      error: null,
+      plans: { ...createLegacyData().plans, currentIndex: 2 },
+      comments: { total: 0, resolved: 0, pending: 0, attempts: 0 },
+      usage: {
+        total: {
+          invocations: 1,
+          inputTokens: 10,
+          outputTokens: 5,
+          cacheCreationInputTokens: 0,
+          cacheReadInputTokens: 0,
+          costUsd: 0.1,
+        },
+        phases: {},
+      },
+    });
+
+    expect(data.pause).toBeNull();
+    expect(data.usage.total.invocations).toBe(1);
+    expect(data.usage.total.durationMs).toBe(0);
+  });
+
+  test('adds no pending approval to version 3 data', () => {
+    const data = migrateProgressData({
+      ...createLegacyData(),
+      version: 3,
+      error: null,
+      plans: { ...createLegacyData().plans, currentIndex: 2 },
+      comments: { total: 0, resolved: 0, pending: 0, attempts: 0 },
+      usage: createEmptyUsage(),
+      pause: { phase: 'ci_fixing', reason: 'Cost budget exceeded' },
+    });
+
+    expect(data.approval).toBeNull();
+    expect(data.pause?.phase).toBe('ci_fixing');
+  });
+
+  test('adds no escalation to version 4 data', () => {
+    const data = migrateProgressData({
+      ...createLegacyData(),
+      version: 4,
+      error: null,
+      plans: { ...createLegacyData().plans, currentIndex: 2 },
+      comments: { total: 0, resolved: 0, pending: 0, attempts: 0 },
+      usage: createEmptyUsage(),
+      pause: null,
+      approval: null,
+    });
+
+    expect(data.escalation).toBeNull();
+  });
+
+  test('starts loop detection afresh for version 5 data', () => {
+    const data = migrateProgressData({
+      ...createLegacyData(),
+      version: 5,
+      error: null,
+      plans: { ...createLegacyData().plans, currentIndex: 2 },
+      comments: { total: 0, resolved: 0, pending: 0, attempts: 0 },
+      usage: createEmptyUsage(),
+      pause: null,
+      approval: null,
+      escalation: null,
+    });
+
+    expect(data.loops).toEqual(createEmptyLoopHistory());
+  });
+
+  test('adds no local check history to version 6 data', () => {
+    const data = migrateProgressData({
+      ...createLegacyData(),
+      version: 6,
+      error: null,
+      plans: { ...createLegacyData().plans, currentIndex: 2 },
+      comments: { total: 0, resolved: 0, pending: 0, attempts: 0 },
+      usage: createEmptyUsage(),
+      pause: null,
+      approval: null,
+      escalation: null,
+      loops: createEmptyLoopHistory(),
+    });
+
+    expect(data.verify).toEqual({ attempts: 0, failures: [] });
+    expect(data.changeSummary).toBeNull();
+  });
+
+  test('tracks no comments for version 7 data', () => {
+    const data = migrateProgressData({
+      ...createLegacyData(),
+      version: 7,
+      error: null,
+      plans: { ...createLegacyData().plans, currentIndex: 2 },
+      comments: { total: 0, resolved: 0, pending: 0, attempts: 2 },
+      usage: createEmptyUsage(),
+      pause: null,
+      approval: null,
+      escalation: null,
+      loops: createEmptyLoopHistory(),
+      verify: { attempts: 0, failures: [] },
+      changeSummary: null,
+    });
+
+    expect(data.comments).toEqual({ total: 0, resolved: 0, pending: 0, attempts: 2, list: [] });
+  });
+
+  test('records no CI runs for version 8 data', () => {
+    const legacy = createLegacyData();
+    const data = migrateProgressData({
+      ...legacy,
+      version: 8,
+      error: null,
+      plans: { ...legacy.plans, currentIndex: 2 },
+      comments: { total: 0, resolved: 0, pending: 0, attempts: 0, list: [] },
+      usage: createEmptyUsage(),
+      pause: null,
+      approval: null,
+      escalation: null,
+      loops: createEmptyLoopHistory(),
+      verify: { attempts: 0, failures: [] },
+      changeSummary: null,
+    });
+
+    expect(data.pr.ciRuns).toEqual([]);
+    expect(data.pr.ciStatus).toBe(legacy.pr.ciStatus);
+  });
+
+  test('starts rebase attempts at zero for version 9 data', () => {
+    const legacy = createLegacyData();
+    const data = migrateProgressData({
+      ...legacy,
+      version: 9,
+      error: null,
+      plans: { ...legacy.plans, currentIndex: 2 },
+      pr: { ...legacy.pr, ciRuns: [] },
+      comments: { total: 0, resolved: 0, pending: 0, attempts: 0, list: [] },
+      usage: createEmptyUsage(),
+      pause: null,
+      approval: null,
+      escalation: null,
+      loops: createEmptyLoopHistory(),
+      verify: { attempts: 0, failures: [] },
+      changeSummary: null,
+    });
+
+    expect(data.pr.rebaseAttempts).toBe(0);
+  });
+
+  test('leaves the run settings unknown for version 10 data', () => {
+    const legacy = createLegacyData();
+    const data = migrateProgressData({
+      ...legacy,
+      version: 10,
+      error: null,
+      plans: { ...legacy.plans, currentIndex: 2 },
+      pr: { ...legacy.pr, ciRuns: [], rebaseAttempts: 0 },
+      comments: { total: 0, resolved: 0, pending: 0, attempts: 0, list: [] },
+      usage: createEmptyUsage(),
+      pause: null,
+      approval: null,
+      escalation: null,
+      loops: createEmptyLoopHistory(),
+      verify: { attempts: 0, failures: [] },
+      changeSummary: null,
+    });
+
+    expect(data.settings).toBeNull();
+  });
+
+  test('points current plan past the end when all plans are complete', () => {
+    const data = migrateProgressData(createLegacyData());
+    expect(data.plans.currentIndex).toBe(2);
+  });
+
+  test('rejects data from a newer schema version', () => {
+    expect(() =>
+      migrateProgressData({ ...createLegacyData(), version: PROGRESS_SCHEMA_VERSION + 1 })
+    ).toThrow('newer than supported');
+  });
+
+  test('rejects non-object input', () => {
+    expect(() => migrateProgressData([])).toThrow('expected a JSON object');
+  });
+
+  test('reports the failing field path', () => {
+    expect(() =>
+      migrateProgressData(createLegacyData({ iteration: 'two' }))
+    ).toThrow('iteration');
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Schema, versioning and migrations for the JSON progress file
+ */
+
+import { z } from 'zod';
+import { createEmptyUsage } from '../workflows/main.workflow';
+import { createEmptyLoopHistory } from '../workflows/loop-detection';
+import type { ProgressFileData } from '../types';
+
+/**
+ * Current schema version of `.workflow-progress.json`.
+ * Version 0 is the legacy hand-formatted `.workflow-progress.txt`.
+ */
+export const PROGRESS_SCHEMA_VERSION = 11;
+
+const WorkflowPhaseSchema = z.enum([
+  'idle',
+  'setup',
+  'planning',
+  'implementing',
+  'verifying',
+  'verify_fixing',
+  'submitting',
+  'ci_resolution',
+  'ci_fixing',
+  'comment_resolution',
+  'comment_resolving',
+  'rebasing',
+  'merging',
+  'cleanup',
+  'budget_exceeded',
+  'awaiting_approval',
+  'needs_human',
+  'completed',
+  'failed',
+]);
+
+const WorkflowSignalSchema = z.enum([
+  'SETUP_COMPLETE',
+  'PLANNING_COMPLETE',
+  'PLAN_COMPLETE',
+  'IMPLEMENTATION_COMPLETE',
+  'VERIFY_PASSED',
+  'VERIFY_FAILED',
+  'VERIFY_FIXED',
+  'PR_CREATED',
+  'CI_PASSED',
+  'CI_FAILED',
+  'CI_FIX_PUSHED',
+  'COMMENTS_RESOLVED',
+  'COMMENTS_PENDING',
+  'COMMENT_FIX_PUSHED',
+  'REBASE_PUSHED',
+  'PR_MERGED',
+  'CLEANUP_COMPLETE',
+  'NEEDS_HUMAN',
+  'WORKFLOW_COMPLETE',
+  'FAILED',
+  'FAIL',
+]);
+
+const UsageTotalsSchema = z.object({
+  invocations: z.number().int().nonnegative(),
+  inputTokens: z.number().int().nonnegative(),
+  outputTokens: z.number().int().nonnegative(),
+  cacheCreationInputTokens: z.number().int().nonnegative(),
+  cacheReadInputTokens: z.number().int().nonnegative(),
+  costUsd: z.number().nonnegative(),
+  // Not recorded before the duration budget counted active time only
+  durationMs: z.number().nonnegative().default(0),
+});
+
+const VerifyCheckResultSchema = z.object({
+  name: z.enum(['typecheck', 'lint', 'test']),
+  command: z.string(),
+  exitCode: z.number().int().nullable(),
+  timedOut: z.boolean(),
+  output: z.string(),
+});
+
+const CommentRecordSchema = z.object({
+  id: z.number().int().positive(),
+  author: z.string(),
+  file: z.string().nullable(),
+  line: z.number().int().positive().nullable(),
+  category: z.enum(['actionable-clear', 'actionable-unclear', 'not-actionable']),
+  action: z.enum(['fixed', 'replied', 'acknowledged', 'asked', 'pending']),
+  fixCommit: z.string().nullable(),
+});
+
+const CiRunSchema = z.object({
+  status: z.enum(['passing', 'failing']),
+  failureReason: z.string().nullable(),
+  checks: z.array(
+    z.object({
+      name: z.string(),
+      conclusion: z.enum([
+        'success',
+        'failure',
+        'cancelled',
+        'timed_out',
+        'skipped',
+        'neutral',
+        'action_required',
+        'pending',
+      ]),
+      url: z.string().nullable(),
+      summary: z.string().nullable(),
+    })
+  ),
+  reportedAt: z.string(),
+});
+
+// Stacked mode only; files without it are read as they are
+const PlanPullRequestSchema = z.object({
+  branch: z.string().nullable(),
+  baseBranch: z.string().nullable(),
+  number: z.number().int().nullable(),
+  url: z.string().nullable(),
+  ciStatus: z.enum(['pending', 'passing', 'failing']).nullable(),
+  ciAttempts: z.number().int().nonnegative(),
+  ciRuns: z.array(CiRunSchema),
+  commentAttempts: z.number().int().nonnegative(),
+  rebaseAttempts: z.number().int().nonnegative(),
+  comments: z.array(CommentRecordSchema),
+});
+
+const PlanInfoSchema = z.object({
+  path: z.string(),
+  issueNumber: z.number().int().nullable(),
+  completed: z.boolean(),
+  title: z.string().optional(),
+  dependsOn: z.array(z.number().int().positive()).optional(),
+  pr: PlanPullRequestSchema.optional(),
+});
+
+const SignalRecordSchema = z.object({
+  signal: WorkflowSignalSchema,
+  timestamp: z.string(),
+  data: z.record(z.unknown()).optional(),
+});
+
+export const ProgressFileSchema: z.ZodType<
+  ProgressFileData,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  version: z.literal(PROGRESS_SCHEMA_VERSION),
+  timestamp: z.string(),
+  researchFile: z.string(),
+  worktreePath: z.string().nullable(),
+  branch: z.string().nullable(),
+  currentPhase: WorkflowPhaseSchema,
+  iteration: z.number().int().nonnegative(),
+  startedAt: z.string(),
+  lastUpdate: z.string(),
+  error: z.string().nullable(),
+  plans: z.object({
+    total: z.number().int().nonnegative(),
+    completed: z.number().int().nonnegative(),
+    currentIndex: z.number().int().nonnegative(),
+    list: z.array(PlanInfoSchema),
+  }),
+  pr: z.object({
+    number: z.number().int().nullable(),
+    url: z.string().nullable(),
+    ciStatus: z.enum(['pending', 'passing', 'failing']).nullable(),
+    ciAttempts: z.number().int().nonnegative(),
+    ciRuns: z.array(CiRunSchema),
+    rebaseAttempts: z.number().int().nonnegative(),
+  }),
+  comments: z.object({
+    total: z.number().int().nonnegative(),
+    resolved: z.number().int().nonnegative(),
+    pending: z.number().int().nonnegative(),
+    attempts: z.number().int().nonnegative(),
+    list: z.array(CommentRecordSchema),
+  }),
+  verify: z.object({
+    attempts: z.number().int().nonnegative(),
+    failures: z.array(VerifyCheckResultSchema),
+  }),
+  changeSummary: z
+    .object({
+      prTitle: z.string().nullable(),
+      diffSummary: z.string().nullable(),
+    })
+    .nullable(),
+  signals: z.array(SignalRecordSchema),
+  usage: z.object({
+    total: UsageTotalsSchema,
+    phases: z.record(WorkflowPhaseSchema, UsageTotalsSchema),
+  }),
+  pause: z
+    .object({
+      phase: WorkflowPhaseSchema,
+      reason: z.string(),
+    })
+    .nullable(),
+  approval: z
+    .object({
+      phase: z.enum(['implementing', 'submitting']),
+      requestedAt: z.string(),
+      prTitle: z.string().nullable(),
+      diffSummary: z.string().nullable(),
+    })
+    .nullable(),
+  escalation: z
+    .object({
+      phase: z.enum([
+        'ci_resolution',
+        'ci_fixing',
+        'comment_resolution',
+        'comment_resolving',
+        'rebasing',
+        'merging',
+      ]),
+      reason: z.string(),
+      commentIds: z.array(z.number().int()),
+      checks: z.array(z.string()),
+      requestedAt: z.string(),
+      // Not recorded before answers were kept until the phase signalled
+      answer: z.string().nullable().default(null),
+    })
+    .nullable(),
+  loops: z.object({
+    ciFailures: z.array(z.string()),
+    pendingComments: z.array(z.string()),
+    lastFixCommit: z.string().nullable(),
+  }),
+  settings: z
+    .object({
+      limits: z.object({
+        maxVerifyAttempts: z.number().int().nonnegative(),
+        maxCiAttempts: z.number().int().nonnegative(),
+        maxCommentAttempts: z.number().int().nonnegative(),
+        maxRebaseAttempts: z.number().int().nonnegative(),
+        stuckLoopAction: z.enum(['escalate', 'fail', 'off']),
+      }),
+      approvalGates: z.array(z.enum(['implementing', 'submitting'])),
+      verifyEnabled: z.boolean(),
+      mergeStrategy: z.enum(['merge', 'squash', 'rebase']).nullable(),
+      cleanupEnabled: z.boolean(),
+      stacked: z.boolean(),
+    })
+    .nullable(),
+});
+
+type RawProgress = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * Each step returns data at `version + 1`.
+ */
+const MIGRATIONS: Record<number, (data: RawProgress) => RawProgress> = {
+  // Legacy text format → first JSON version
+  0: (data) => {
+    const plans = (data.plans ?? {}) as RawProgress;
+    const list = (plans.list ?? []) as Array<{ completed?: boolean }>;
+    const firstIncomplete = list.findIndex((p) => !p.completed);
+    const comments = (data.comments ?? {}) as RawProgress;
+
+    return {
+      ...data,
+      version: 1,
+      error: data.error ?? null,
+      plans: {
+        ...plans,
+        currentIndex:
+          plans.currentIndex ??
+          (firstIncomplete === -1 ? list.length : firstIncomplete),
+      },
+      comments: { ...comments, attempts: comments.attempts ?? 0 },
+    };
+  },
+  // Token and cost accounting; runs before it have no recorded usage
+  1: (data) => ({
+    ...data,
+    version: 2,
+    usage: data.usage ?? createEmptyUsage(),
+  }),
+  // Budget pauses
+  2: (data) => ({ ...data, version: 3, pause: data.pause ?? null }),
+  // Approval gates
+  3: (data) => ({ ...data, version: 4, approval: data.approval ?? null }),
+  // Escalations to a human
+  4: (data) => ({ ...data, version: 5, escalation: data.escalation ?? null }),
+  // Stuck-loop detection; earlier fingerprints are unknown
+  5: (data) => ({
+    ...data,
+    version: 6,
+    loops: data.loops ?? createEmptyLoopHistory(),
+  }),
+  // Local verification before submitting
+  6: (data) => ({
+    ...data,
+    version: 7,
+    verify: data.verify ?? { attempts: 0, failures: [] },
+    changeSummary: data.changeSummary ?? null,
+  }),
+  // Per-comment tracking; earlier runs tracked no comments
+  7: (data) => {
+    const comments = (data.comments ?? {}) as RawProgress;
+    return {
+      ...data,
+      version: 8,
+      comments: { ...comments, list: comments.list ?? [] },
+    };
+  },
+  // Per-check CI history; earlier runs recorded no CI runs
+  8: (data) => {
+    const pr = (data.pr ?? {}) as RawProgress;
+    return { ...data, version: 9, pr: { ...pr, ciRuns: pr.ciRuns ?? [] } };
+  },
+  // Rebasing when the base branch moves
+  9: (data) => {
+    const pr = (data.pr ?? {}) as RawProgress;
+    return {
+      ...data,
+      version: 10,
+      pr: { ...pr, rebaseAttempts: pr.rebaseAttempts ?? 0 },
+    };
+  },
+  // Run settings kept across resumes; earlier runs did not save them
+  10: (data) => ({ ...data, version: 11, settings: data.settings ?? null }),
+};
+
+/**
+ * Upgrade raw progress data to the current schema version and validate it.
+ * Data without a `version` field is treated as version 0.
+ */
+export function migrateProgressData(raw: unknown): ProgressFileData {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Invalid progress file: expected a JSON object');
+  }
+
+  let data = raw as RawProgress;
+  let version = typeof data.version === 'number' ? data.version : 0;
+
+  if (version > PROGRESS_SCHEMA_VERSION) {
+    throw new Error(
+      `Progress file version ${version} is newer than supported version ${PROGRESS_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < PROGRESS_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from progress file version ${version}`);
+    }
+    data = migrate(data);
+    version++;
+  }
+
+  const result = ProgressFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid progress file: ${issues}`);
+  }
+
+  return result.data;
+}
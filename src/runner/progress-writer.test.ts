@@ -3,12 +3,30 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
-import { ProgressWriter } from './progress-writer';
-import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { ProgressWriter, toWorkflowContext } from './progress-writer';
+import { PROGRESS_SCHEMA_VERSION } from './progress-schema';
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
+import { createActor } from 'xstate';
+import {
+  DEFAULT_WORKFLOW_LIMITS,
+  createEmptyUsage,
+  workflowMachine,
+} from '../workflows/main.workflow';
+import { createEmptyLoopHistory } from '../workflows/loop-detection';
 import type { WorkflowContext, WorkflowPhase } from '../types';
 
+const USAGE = {
+  invocations: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheCreationInputTokens: 0,
+  cacheReadInputTokens: 0,
+  costUsd: 0,
+  durationMs: 0,
+};
+
 describe('ProgressWriter', () => {
   let testDir: string;
   let writer: ProgressWriter;
@@ -30,8 +48,32 @@ describe('ProgressWriter', () => {
     currentPlanIndex: 0,
     prNumber: null,
     prUrl: null,
+    ciStatus: null,
+    ciRuns: [],
+    verifyAttempts: 0,
     ciAttempts: 0,
     commentAttempts: 0,
+    rebaseAttempts: 0,
+    limits: {
+      maxVerifyAttempts: 3,
+      maxCiAttempts: 5,
+      maxCommentAttempts: 10,
+      maxRebaseAttempts: 3,
+      stuckLoopAction: 'escalate',
+    },
+    usage: createEmptyUsage(),
+    pause: null,
+    approvalGates: [],
+    approval: null,
+    escalation: null,
+    loops: createEmptyLoopHistory(),
+    comments: [],
+    verifyEnabled: false,
+    verifyFailures: [],
+    changeSummary: null,
+    mergeStrategy: null,
+    cleanupEnabled: false,
+    stacked: false,
     error: null,
     startedAt: '2024-01-01T00:00:00.000Z',
     lastUpdate: '2024-01-01T00:00:00.000Z',
@@ -96,7 +138,7 @@ describe('ProgressWriter', () => {
     const content = await readFile(join(testDir, '.workflow-progress.txt'), 'utf-8');
     expect(content).toContain('number: 123');
     expect(content).toContain('url: https://github.com/org/repo/pull/123');
-    expect(content).toContain('ci_attempts: 2');
+    expect(content).toContain('ci_attempts: 2\nrebase_attempts: 0');
   });
 
   test('exists returns false when file does not exist', async () => {
@@ -143,6 +185,34 @@ describe('ProgressWriter', () => {
     expect(data!.pr.url).toBe('https://github.com/org/repo/pull/123');
   });
 
+  test('round-trips comment attempts', async () => {
+    const context = createContext({ commentAttempts: 3 });
+
+    await writer.write(context, 'comment_resolving', 8);
+    const data = await writer.read();
+
+    expect(data).not.toBeNull();
+    expect(data!.currentPhase).toBe('comment_resolving');
+    expect(data!.comments.attempts).toBe(3);
+  });
+
+  test('round-trips a failed run', async () => {
+    const actor = createActor(workflowMachine);
+    actor.start();
+    actor.send({ type: 'START', researchFile: 'research/test.md' });
+    actor.send({ type: 'FAIL', error: 'push rejected' });
+    const snapshot = actor.getSnapshot();
+    actor.stop();
+
+    await writer.write(snapshot.context, 'failed', 1);
+    const data = await writer.read();
+
+    expect(data).not.toBeNull();
+    expect(data!.currentPhase).toBe('failed');
+    expect(data!.error).toBe('push rejected');
+    expect(data!.signals.map((s) => s.signal)).toEqual(['FAIL']);
+  });
+
   test('handles null worktree path', async () => {
     const context = createContext({
       worktreePath: null,
@@ -156,4 +226,303 @@ describe('ProgressWriter', () => {
     expect(data!.worktreePath).toBeNull();
     expect(data!.branch).toBeNull();
   });
+
+  test('writes versioned JSON progress file', async () => {
+    const context = createContext();
+    await writer.write(context, 'setup', 1);
+
+    const json = JSON.parse(
+      await readFile(join(testDir, '.workflow-progress.json'), 'utf-8')
+    );
+    expect(json.version).toBe(PROGRESS_SCHEMA_VERSION);
+    expect(json.currentPhase).toBe('setup');
+    expect(json.researchFile).toBe('research/test.md');
+  });
+
+  test('round-trips the full workflow context through JSON', async () => {
+    const context = createContext({
+      plans: [
+        { path: 'plans/plan-1-auth.md', issueNumber: 42, completed: true },
+        { path: 'plans/plan-2-login.md', issueNumber: null, completed: false },
+      ],
+      currentPlanIndex: 1,
+      prNumber: 123,
+      prUrl: 'https://github.com/org/repo/pull/123',
+      ciStatus: 'failing',
+      ciAttempts: 2,
+      rebaseAttempts: 1,
+      mergeStrategy: 'rebase',
+      cleanupEnabled: true,
+      limits: { ...DEFAULT_WORKFLOW_LIMITS, maxCiAttempts: 10 },
+      approvalGates: ['submitting'],
+      verifyEnabled: true,
+      ciRuns: [
+        {
+          status: 'failing',
+          failureReason: 'tests failed',
+          checks: [
+            {
+              name: 'test',
+              conclusion: 'failure',
+              url: 'https://github.com/org/repo/actions/runs/1',
+              summary: 'auth.test.ts: 2 failed',
+            },
+          ],
+          reportedAt: '2024-01-01T00:03:00.000Z',
+        },
+      ],
+      commentAttempts: 4,
+      signals: [
+        {
+          signal: 'CI_FAILED',
+          timestamp: '2024-01-01T00:03:00.000Z',
+          data: { failureReason: 'tests failed' },
+        },
+      ],
+      usage: {
+        total: { ...USAGE, invocations: 2, costUsd: 0.5 },
+        phases: {
+          setup: { ...USAGE, invocations: 1, costUsd: 0.1 },
+          ci_fixing: { ...USAGE, invocations: 1, costUsd: 0.4 },
+        },
+      },
+    });
+
+    await writer.write(context, 'ci_fixing', 7);
+    const data = await writer.read();
+
+    expect(data).not.toBeNull();
+    expect(data!.iteration).toBe(7);
+    expect(data!.pr.ciStatus).toBe('failing');
+    const { lastUpdate: _, ...restored } = toWorkflowContext(data!);
+    const { lastUpdate: __, ...expected } = context;
+    expect(restored).toEqual(expected);
+  });
+
+  test('writes usage totals and per-phase cost shares to the text file', async () => {
+    const context = createContext({
+      usage: {
+        total: { ...USAGE, invocations: 4, inputTokens: 1200, costUsd: 1 },
+        phases: {
+          implementing: { ...USAGE, invocations: 1, costUsd: 0.4 },
+          ci_fixing: { ...USAGE, invocations: 3, costUsd: 0.6 },
+        },
+      },
+    });
+    await writer.write(context, 'ci_fixing', 4);
+
+    const content = await readFile(join(testDir, '.workflow-progress.txt'), 'utf-8');
+    expect(content).toContain('## Usage\ninvocations: 4\ninput_tokens: 1200');
+    expect(content).toContain('cost_usd: 1.0000');
+    expect(content).toContain(
+      '- ci_fixing: $0.6000 (60%), 3 invocations\n- implementing: $0.4000 (40%), 1 invocations'
+    );
+  });
+
+  test('counts and lists tracked comments', async () => {
+    const context = createContext({
+      comments: [
+        {
+          id: 1201,
+          author: 'alice',
+          file: 'src/auth.ts',
+          line: 42,
+          category: 'actionable-clear',
+          action: 'fixed',
+          fixCommit: 'abc1234',
+        },
+        {
+          id: 1202,
+          author: 'bob',
+          file: null,
+          line: null,
+          category: 'actionable-unclear',
+          action: 'asked',
+          fixCommit: null,
+        },
+      ],
+    });
+    await writer.write(context, 'comment_resolution', 12);
+
+    const data = await writer.read();
+    expect(data!.comments).toMatchObject({ total: 2, resolved: 1, pending: 1 });
+    expect(toWorkflowContext(data!).comments).toEqual(context.comments);
+
+    const content = await readFile(join(testDir, '.workflow-progress.txt'), 'utf-8');
+    expect(content).toContain(
+      'pending: 1\ncomment_attempts: 0\n- [x] #1201 @alice src/auth.ts:42 actionable-clear: fixed (abc1234)\n- [ ] #1202 @bob actionable-unclear: asked'
+    );
+  });
+
+  test('writes CI runs and per-check trends to the text file', async () => {
+    const context = createContext({
+      prNumber: 123,
+      ciStatus: 'passing',
+      ciRuns: [
+        {
+          status: 'failing',
+          failureReason: 'tests failed',
+          checks: [
+            {
+              name: 'test',
+              conclusion: 'failure',
+              url: 'https://ci.example/1',
+              summary: 'auth.test.ts: 2 failed',
+            },
+            { name: 'lint', conclusion: 'success', url: null, summary: null },
+          ],
+          reportedAt: '2024-01-01T00:03:00.000Z',
+        },
+        {
+          status: 'passing',
+          failureReason: null,
+          checks: [{ name: 'test', conclusion: 'success', url: null, summary: null }],
+          reportedAt: '2024-01-01T00:09:00.000Z',
+        },
+      ],
+    });
+    await writer.write(context, 'comment_resolution', 10);
+
+    const content = await readFile(join(testDir, '.workflow-progress.txt'), 'utf-8');
+    expect(content).toContain('ci_status: passing');
+    expect(content).toContain(
+      [
+        '## CI History',
+        '- run 1: failing (tests failed)',
+        '  - test: failure - auth.test.ts: 2 failed (https://ci.example/1)',
+        '  - lint: success',
+        '- run 2: passing',
+        '  - test: success',
+        '',
+        'check_trends:',
+        '- test: failure → success',
+        '- lint: success',
+      ].join('\n')
+    );
+  });
+
+  test('writes failing local checks to the text file', async () => {
+    const context = createContext({
+      verifyAttempts: 2,
+      verifyFailures: [
+        { name: 'lint', command: 'eslint .', exitCode: 1, timedOut: false, output: '' },
+        { name: 'test', command: 'bun test', exitCode: null, timedOut: true, output: '' },
+      ],
+    });
+    await writer.write(context, 'verify_fixing', 9);
+
+    const content = await readFile(join(testDir, '.workflow-progress.txt'), 'utf-8');
+    expect(content).toContain(
+      '## Local Checks\nverify_attempts: 2\n- lint: eslint . (exit 1)\n- test: bun test (timed out)'
+    );
+  });
+
+  test('writes each plan PR with the live state of the current one', async () => {
+    const pr = {
+      branch: 'feat/test',
+      baseBranch: null,
+      number: 101,
+      url: 'https://github.com/org/repo/pull/101',
+      ciStatus: 'pending' as const,
+      ciAttempts: 0,
+      ciRuns: [],
+      commentAttempts: 0,
+      rebaseAttempts: 0,
+      comments: [],
+    };
+    const context = createContext({
+      stacked: true,
+      plans: [
+        { path: 'plans/plan-1.md', issueNumber: 42, completed: true, pr },
+        {
+          path: 'plans/plan-2.md',
+          issueNumber: 43,
+          completed: true,
+          pr: { ...pr, branch: 'feat/test-plan-2', baseBranch: 'feat/test', number: 102 },
+        },
+      ],
+      currentPlanIndex: 1,
+      prNumber: 102,
+      ciStatus: 'failing',
+      ciAttempts: 1,
+    });
+    await writer.write(context, 'ci_fixing', 12);
+
+    const content = await readFile(join(testDir, '.workflow-progress.txt'), 'utf-8');
+    expect(content).toContain(
+      '- [x] plans/plan-1.md (issue: #42)\n  - PR #101 (feat/test), ci: pending, comments: 0/0 resolved'
+    );
+    expect(content).toContain(
+      '- [x] plans/plan-2.md (issue: #43)\n  - PR #102 (feat/test-plan-2 → feat/test), ci: failing, comments: 0/0 resolved'
+    );
+
+    const data = await writer.read();
+    expect(data!.plans.list[1].pr).toMatchObject({ ciStatus: 'failing', ciAttempts: 1 });
+  });
+
+  test('migrates legacy text progress file', async () => {
+    const legacy = `# Workflow Progress
+# Generated: 2024-01-01T00:00:00.000Z
+# Research: research/legacy.md
+# Worktree: /path/to/worktree
+# Branch: feat/legacy
+
+## Status
+current_phase: IMPLEMENTING
+iteration: 4
+started_at: 2024-01-01T00:00:00.000Z
+last_update: 2024-01-01T00:10:00.000Z
+
+## Plans
+total: 2
+completed: 1
+- [x] plans/plan-1-auth.md (issue: #42)
+- [ ] plans/plan-2-login.md (issue: #43) <- CURRENT
+
+## PR
+number: null
+url: null
+ci_status: null
+ci_attempts: 0
+
+## Comments
+total: 0
+resolved: 0
+pending: 0
+
+## Signals
+- 2024-01-01T00:01:00.000Z: SETUP_COMPLETE
+`;
+    await writeFile(join(testDir, '.workflow-progress.txt'), legacy, 'utf-8');
+
+    const data = await writer.read();
+
+    expect(data).not.toBeNull();
+    expect(data!.version).toBe(PROGRESS_SCHEMA_VERSION);
+    expect(data!.currentPhase).toBe('implementing');
+    expect(data!.plans.total).toBe(2);
+    expect(data!.plans.completed).toBe(1);
+    expect(data!.plans.currentIndex).toBe(1);
+    expect(data!.plans.list).toEqual([
+      { path: 'plans/plan-1-auth.md', issueNumber: 42, completed: true },
+      { path: 'plans/plan-2-login.md', issueNumber: 43, completed: false },
+    ]);
+    expect(data!.comments.attempts).toBe(0);
+    expect(data!.error).toBeNull();
+    expect(data!.signals).toHaveLength(1);
+  });
+
+  test('read rejects malformed JSON progress file', async () => {
+    await writeFile(join(testDir, '.workflow-progress.json'), '{ nope', 'utf-8');
+    await expect(writer.read()).rejects.toThrow('Invalid progress file');
+  });
+
+  test('read rejects JSON progress file failing the schema', async () => {
+    await writeFile(
+      join(testDir, '.workflow-progress.json'),
+      JSON.stringify({ version: 1, currentPhase: 'bogus' }),
+      'utf-8'
+    );
+    await expect(writer.read()).rejects.toThrow('Invalid progress file');
+  });
 });
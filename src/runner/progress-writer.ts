@@ -1,18 +1,33 @@
 /**
  * Progress file reader/writer for workflow state persistence
+ *
+ * `.workflow-progress.json` is the source of truth. A human-readable
+ * `.workflow-progress.txt` is rendered from the same data on every write.
  */
 
 import { readFile, writeFile, access } from 'node:fs/promises';
 import { join } from 'node:path';
+import { PROGRESS_SCHEMA_VERSION, migrateProgressData } from './progress-schema';
+import { formatPhaseUsage } from './usage-report';
+import { formatCommentRecord } from './comment-report';
+import { countComments, isCommentResolved } from '../workflows/comment-tracking';
+import { getCheckTrends } from '../workflows/ci-history';
+import { savePlanPullRequest } from '../workflows/stacked-prs';
+import { DEFAULT_WORKFLOW_LIMITS } from '../workflows/main.workflow';
 import type {
   WorkflowContext,
   WorkflowPhase,
   ProgressFileData,
+  CiCheckResult,
+  CiStatus,
   SignalRecord,
   PlanInfo,
+  PlanPullRequest,
+  VerifyCheckResult,
 } from '../types';
 
 const PROGRESS_FILENAME = '.workflow-progress.txt';
+const PROGRESS_JSON_FILENAME = '.workflow-progress.json';
 
 export class ProgressWriter {
   private basePath: string;
@@ -25,96 +40,66 @@ export class ProgressWriter {
     return join(this.basePath, PROGRESS_FILENAME);
   }
 
+  private get jsonFilePath(): string {
+    return join(this.basePath, PROGRESS_JSON_FILENAME);
+  }
+
   /**
-   * Write current workflow state to progress file
+   * Write current workflow state to the JSON and text progress files
    */
   async write(
     context: WorkflowContext,
     phase: WorkflowPhase,
     iteration: number
   ): Promise<void> {
-    const now = new Date().toISOString();
-
-    const plansCompleted = context.plans.filter((p) => p.completed).length;
-    const plansList = context.plans
-      .map((p, i) => {
-        const marker = p.completed ? '[x]' : '[ ]';
-        const current =
-          !p.completed && i === context.currentPlanIndex ? ' <- CURRENT' : '';
-        const issue = p.issueNumber ? ` (issue: #${p.issueNumber})` : '';
-        return `- ${marker} ${p.path}${issue}${current}`;
-      })
-      .join('\n');
-
-    const signalsList = context.signals
-      .map((s) => `- ${s.timestamp}: ${s.signal}`)
-      .join('\n');
-
-    const content = `# Workflow Progress
-# Generated: ${now}
-# Research: ${context.researchFile}
-# Worktree: ${context.worktreePath ?? 'not created'}
-# Branch: ${context.branch ?? 'not created'}
-
-## Status
-current_phase: ${phase.toUpperCase()}
-iteration: ${iteration}
-started_at: ${context.startedAt}
-last_update: ${now}
-
-## Plans
-total: ${context.plans.length}
-completed: ${plansCompleted}
-${plansList || '(no plans yet)'}
-
-## PR
-number: ${context.prNumber ?? 'null'}
-url: ${context.prUrl ?? 'null'}
-ci_status: ${getCiStatus(context, phase)}
-ci_attempts: ${context.ciAttempts}
-
-## Comments
-total: 0
-resolved: 0
-pending: 0
-
-## Signals
-${signalsList || '(no signals yet)'}
-`;
+    const data = buildProgressData(context, phase, iteration);
 
-    await writeFile(this.filePath, content, 'utf-8');
+    await writeFile(
+      this.jsonFilePath,
+      `${JSON.stringify(data, null, 2)}\n`,
+      'utf-8'
+    );
+    await writeFile(this.filePath, formatProgressText(data), 'utf-8');
   }
 
   /**
-   * Read existing progress file and parse into context
+   * Read existing progress file, migrating older formats to the current schema.
+   * Falls back to the legacy text file when no JSON file exists.
    */
   async read(): Promise<ProgressFileData | null> {
-    try {
-      await access(this.filePath);
-    } catch {
-      return null;
+    if (await fileExists(this.jsonFilePath)) {
+      const content = await readFile(this.jsonFilePath, 'utf-8');
+      let raw: unknown;
+      try {
+        raw = JSON.parse(content);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        throw new Error(`Invalid progress file ${this.jsonFilePath}: ${message}`);
+      }
+      return migrateProgressData(raw);
+    }
+
+    if (await fileExists(this.filePath)) {
+      const content = await readFile(this.filePath, 'utf-8');
+      return migrateProgressData(this.parse(content));
     }
 
-    const content = await readFile(this.filePath, 'utf-8');
-    return this.parse(content);
+    return null;
   }
 
   /**
    * Check if progress file exists
    */
   async exists(): Promise<boolean> {
-    try {
-      await access(this.filePath);
-      return true;
-    } catch {
-      return false;
-    }
+    return (
+      (await fileExists(this.jsonFilePath)) || (await fileExists(this.filePath))
+    );
   }
 
   /**
-   * Parse progress file content into structured data
+   * Parse legacy text progress file content (schema version 0)
    */
-  private parse(content: string): ProgressFileData {
+  private parse(content: string): Record<string, unknown> {
     const lines = content.split('\n');
 
     // Parse header comments
@@ -131,23 +116,33 @@ ${signalsList || '(no signals yet)'}
     const lastUpdate = extractValue(content, 'last_update:') ?? '';
 
     // Parse plans section
-    const plansTotal = parseInt(extractValue(content, 'total:') ?? '0', 10);
+    const plansSection = extractSection(content, 'Plans');
+    const plansTotal = parseInt(
+      extractValue(plansSection, 'total:') ?? '0',
+      10
+    );
     const plansCompleted = parseInt(
-      extractValue(content, 'completed:') ?? '0',
+      extractValue(plansSection, 'completed:') ?? '0',
       10
     );
-    const plansList = parsePlansList(content);
+    const plansList = parsePlansList(plansSection);
 
     // Parse PR section
-    const prNumber = parseNullableInt(extractValue(content, 'number:'));
-    const prUrl = parseNullableString(extractValue(content, 'url:'));
-    const ciStatus = parseNullableString(extractValue(content, 'ci_status:')) as
-      | 'pending'
-      | 'passing'
-      | 'failing'
-      | null;
+    const prSection = extractSection(content, 'PR');
+    const prNumber = parseNullableInt(extractValue(prSection, 'number:'));
+    const prUrl = parseNullableString(extractValue(prSection, 'url:'));
+    const ciStatus = parseNullableString(
+      extractValue(prSection, 'ci_status:')
+    ) as CiStatus | null;
     const ciAttempts = parseInt(
-      extractValue(content, 'ci_attempts:') ?? '0',
+      extractValue(prSection, 'ci_attempts:') ?? '0',
+      10
+    );
+
+    // Parse comments section
+    const commentsSection = extractSection(content, 'Comments');
+    const commentAttempts = parseInt(
+      extractValue(commentsSection, 'comment_attempts:') ?? '0',
       10
     );
 
@@ -178,23 +173,264 @@ ${signalsList || '(no signals yet)'}
         total: 0,
         resolved: 0,
         pending: 0,
+        attempts: commentAttempts,
       },
       signals,
     };
   }
 }
 
+/**
+ * Reconstruct machine context from progress file data. Files written
+ * before the run settings were saved get the defaults; the runner applies
+ * its configured settings to those on resume.
+ */
+export function toWorkflowContext(data: ProgressFileData): WorkflowContext {
+  return {
+    researchFile: data.researchFile,
+    worktreePath: data.worktreePath,
+    branch: data.branch,
+    plans: data.plans.list,
+    currentPlanIndex: data.plans.currentIndex,
+    prNumber: data.pr.number,
+    prUrl: data.pr.url,
+    ciStatus: data.pr.ciStatus,
+    ciRuns: data.pr.ciRuns,
+    verifyAttempts: data.verify.attempts,
+    ciAttempts: data.pr.ciAttempts,
+    commentAttempts: data.comments.attempts,
+    rebaseAttempts: data.pr.rebaseAttempts,
+    limits: data.settings?.limits ?? DEFAULT_WORKFLOW_LIMITS,
+    usage: data.usage,
+    pause: data.pause,
+    approvalGates: data.settings?.approvalGates ?? [],
+    approval: data.approval,
+    escalation: data.escalation,
+    loops: data.loops,
+    comments: data.comments.list,
+    verifyEnabled: data.settings?.verifyEnabled ?? false,
+    verifyFailures: data.verify.failures,
+    changeSummary: data.changeSummary,
+    mergeStrategy: data.settings?.mergeStrategy ?? null,
+    cleanupEnabled: data.settings?.cleanupEnabled ?? false,
+    stacked: data.settings?.stacked ?? false,
+    error: data.error,
+    startedAt: data.startedAt,
+    lastUpdate: data.lastUpdate,
+    signals: data.signals,
+  };
+}
+
 // Helper functions
 
-function getCiStatus(
+function buildProgressData(
   context: WorkflowContext,
-  phase: WorkflowPhase
-): 'pending' | 'passing' | 'failing' | 'null' {
-  if (!context.prNumber) return 'null';
-  if (phase === 'completed') return 'passing';
-  if (phase === 'ci_fixing') return 'failing';
-  if (phase === 'ci_resolution') return 'pending';
-  return 'pending';
+  phase: WorkflowPhase,
+  iteration: number
+): ProgressFileData {
+  const now = new Date().toISOString();
+
+  return {
+    version: PROGRESS_SCHEMA_VERSION,
+    timestamp: now,
+    researchFile: context.researchFile,
+    worktreePath: context.worktreePath,
+    branch: context.branch,
+    currentPhase: phase,
+    iteration,
+    startedAt: context.startedAt,
+    lastUpdate: now,
+    error: context.error,
+    plans: {
+      total: context.plans.length,
+      completed: context.plans.filter((p) => p.completed).length,
+      currentIndex: context.currentPlanIndex,
+      // The current plan's PR is saved with its live state
+      list: savePlanPullRequest(context),
+    },
+    pr: {
+      number: context.prNumber,
+      url: context.prUrl,
+      ciStatus: context.ciStatus,
+      ciAttempts: context.ciAttempts,
+      ciRuns: context.ciRuns,
+      rebaseAttempts: context.rebaseAttempts,
+    },
+    comments: {
+      ...countComments(context.comments),
+      attempts: context.commentAttempts,
+      list: context.comments,
+    },
+    verify: {
+      attempts: context.verifyAttempts,
+      failures: context.verifyFailures,
+    },
+    changeSummary: context.changeSummary,
+    signals: context.signals,
+    usage: context.usage,
+    pause: context.pause,
+    approval: context.approval,
+    escalation: context.escalation,
+    loops: context.loops,
+    settings: {
+      limits: context.limits,
+      approvalGates: context.approvalGates,
+      verifyEnabled: context.verifyEnabled,
+      mergeStrategy: context.mergeStrategy,
+      cleanupEnabled: context.cleanupEnabled,
+      stacked: context.stacked,
+    },
+  };
+}
+
+function formatProgressText(data: ProgressFileData): string {
+  const plansList = data.plans.list
+    .map((p, i) => {
+      const marker = p.completed ? '[x]' : '[ ]';
+      const current =
+        !p.completed && i === data.plans.currentIndex ? ' <- CURRENT' : '';
+      const issue = p.issueNumber ? ` (issue: #${p.issueNumber})` : '';
+      const pr = p.pr ? `\n  - ${formatPlanPullRequest(p.pr)}` : '';
+      return `- ${marker} ${p.path}${issue}${current}${pr}`;
+    })
+    .join('\n');
+
+  const pauseLines = data.pause
+    ? `\npaused_phase: ${data.pause.phase.toUpperCase()}\npause_reason: ${data.pause.reason}`
+    : '';
+
+  const approvalLines = data.approval
+    ? `\nawaiting_approval: ${data.approval.phase.toUpperCase()}\napproval_requested_at: ${data.approval.requestedAt}`
+    : '';
+
+  // An answered escalation stays until its phase signals
+  const escalationLines = data.escalation
+    ? [
+        `\n${data.escalation.answer ? 'answered_phase' : 'needs_human_phase'}: ${data.escalation.phase.toUpperCase()}`,
+        `escalation_reason: ${data.escalation.reason}`,
+        data.escalation.commentIds.length > 0
+          ? `escalated_comments: ${data.escalation.commentIds.join(', ')}`
+          : null,
+        data.escalation.checks.length > 0
+          ? `escalated_checks: ${data.escalation.checks.join(', ')}`
+          : null,
+        data.escalation.answer ? `human_answer: ${data.escalation.answer}` : null,
+      ]
+        .filter((line): line is string => line !== null)
+        .join('\n')
+    : '';
+
+  const commentsList = data.comments.list
+    .map((comment) => {
+      const marker = isCommentResolved(comment) ? '[x]' : '[ ]';
+      return `- ${marker} ${formatCommentRecord(comment)}`;
+    })
+    .join('\n');
+
+  const ciRunsList = data.pr.ciRuns
+    .map((run, i) => {
+      const reason = run.failureReason ? ` (${run.failureReason})` : '';
+      return [
+        `- run ${i + 1}: ${run.status}${reason}`,
+        ...run.checks.map((check) => `  - ${formatCheckResult(check)}`),
+      ].join('\n');
+    })
+    .join('\n');
+
+  const checkTrends = getCheckTrends(data.pr.ciRuns)
+    .map(({ name, conclusions }) => `- ${name}: ${conclusions.join(' → ')}`)
+    .join('\n');
+
+  const failingChecks = data.verify.failures
+    .map((check) => `- ${check.name}: ${check.command} (${describeExit(check)})`)
+    .join('\n');
+
+  const { total } = data.usage;
+  const phaseUsage = formatPhaseUsage(data.usage)
+    .map((line) => `- ${line}`)
+    .join('\n');
+
+  const signalsList = data.signals
+    .map((s) => `- ${s.timestamp}: ${s.signal}`)
+    .join('\n');
+
+  return `# Workflow Progress
+# Generated: ${data.timestamp}
+# Research: ${data.researchFile}
+# Worktree: ${data.worktreePath ?? 'not created'}
+# Branch: ${data.branch ?? 'not created'}
+
+## Status
+current_phase: ${data.currentPhase.toUpperCase()}
+iteration: ${data.iteration}
+started_at: ${data.startedAt}
+last_update: ${data.lastUpdate}${pauseLines}${approvalLines}${escalationLines}
+
+## Plans
+total: ${data.plans.total}
+completed: ${data.plans.completed}
+${plansList || '(no plans yet)'}
+
+## PR
+number: ${data.pr.number ?? 'null'}
+url: ${data.pr.url ?? 'null'}
+ci_status: ${data.pr.ciStatus ?? 'null'}
+ci_attempts: ${data.pr.ciAttempts}
+rebase_attempts: ${data.pr.rebaseAttempts}
+
+## CI History
+${ciRunsList || '(no CI runs yet)'}${checkTrends ? `\n\ncheck_trends:\n${checkTrends}` : ''}
+
+## Comments
+total: ${data.comments.total}
+resolved: ${data.comments.resolved}
+pending: ${data.comments.pending}
+comment_attempts: ${data.comments.attempts}
+${commentsList || '(no comments tracked yet)'}
+
+## Local Checks
+verify_attempts: ${data.verify.attempts}
+${failingChecks || '(no failing checks)'}
+
+## Usage
+invocations: ${total.invocations}
+input_tokens: ${total.inputTokens}
+output_tokens: ${total.outputTokens}
+cache_creation_input_tokens: ${total.cacheCreationInputTokens}
+cache_read_input_tokens: ${total.cacheReadInputTokens}
+cost_usd: ${total.costUsd.toFixed(4)}
+${phaseUsage || '(no usage yet)'}
+
+## Signals
+${signalsList || '(no signals yet)'}
+`;
+}
+
+function formatPlanPullRequest(pr: PlanPullRequest): string {
+  const number = pr.number === null ? 'PR not created' : `PR #${pr.number}`;
+  const base = pr.baseBranch ? ` → ${pr.baseBranch}` : '';
+  const { total, resolved } = countComments(pr.comments);
+  return `${number} (${pr.branch ?? 'no branch'}${base}), ci: ${pr.ciStatus ?? 'null'}, comments: ${resolved}/${total} resolved`;
+}
+
+function formatCheckResult(check: CiCheckResult): string {
+  const summary = check.summary ? ` - ${check.summary}` : '';
+  const url = check.url ? ` (${check.url})` : '';
+  return `${check.name}: ${check.conclusion}${summary}${url}`;
+}
+
+function describeExit(check: VerifyCheckResult): string {
+  if (check.timedOut) return 'timed out';
+  return check.exitCode === null ? 'did not run' : `exit ${check.exitCode}`;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 function extractHeaderValue(lines: string[], prefix: string): string | null {
@@ -206,6 +442,17 @@ function extractHeaderValue(lines: string[], prefix: string): string | null {
   return null;
 }
 
+/**
+ * Return the body of a `## Name` section, up to the next section heading
+ */
+function extractSection(content: string, name: string): string {
+  const start = content.indexOf(`\n## ${name}\n`);
+  if (start === -1) return '';
+  const body = content.slice(start + name.length + 5);
+  const end = body.indexOf('\n## ');
+  return end === -1 ? body : body.slice(0, end);
+}
+
 function extractValue(content: string, key: string): string | null {
   const regex = new RegExp(`^${key}\\s*(.+)$`, 'm');
   const match = content.match(regex);
@@ -225,12 +472,12 @@ function parseNullableString(value: string | null): string | null {
 
 function parsePlansList(content: string): PlanInfo[] {
   const plans: PlanInfo[] = [];
-  const planRegex = /^- \[(x| )\] (.+?)(?:\s*\(issue: #(\d+)\))?/gm;
+  const planRegex = /^- \[(x| )\] (.+?)(?:\s*\(issue: #(\d+)\))?(?: <- CURRENT)?$/gm;
 
   let match;
   while ((match = planRegex.exec(content)) !== null) {
     plans.push({
-      path: match[2].replace(' <- CURRENT', '').trim(),
+      path: match[2].trim(),
       issueNumber: match[3] ? parseInt(match[3], 10) : null,
       completed: match[1] === 'x',
     });
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for retry-policy.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  DEFAULT_NO_SIGNAL_POLICY,
+  resolveNoSignalPolicy,
+  getRetryDelay,
+  formatNoSignalPrompt,
+} from './retry-policy';
+
+describe('resolveNoSignalPolicy', () => {
+  test('returns the default policy without overrides', () => {
+    expect(resolveNoSignalPolicy('planning')).toEqual(DEFAULT_NO_SIGNAL_POLICY);
+  });
+
+  test('applies per-phase overrides', () => {
+    const policy = resolveNoSignalPolicy('ci_resolution', {
+      ci_resolution: { maxRetries: 5 },
+      planning: { maxRetries: 0 },
+    });
+    expect(policy.maxRetries).toBe(5);
+    expect(policy.backoffMs).toBe(DEFAULT_NO_SIGNAL_POLICY.backoffMs);
+  });
+});
+
+describe('getRetryDelay', () => {
+  test('grows exponentially with each retry', () => {
+    const policy = { ...DEFAULT_NO_SIGNAL_POLICY, backoffMs: 1000, backoffMultiplier: 2 };
+    expect(getRetryDelay(policy, 1)).toBe(1000);
+    expect(getRetryDelay(policy, 2)).toBe(2000);
+    expect(getRetryDelay(policy, 3)).toBe(4000);
+  });
+
+  test('stays constant with a multiplier of 1', () => {
+    const policy = { ...DEFAULT_NO_SIGNAL_POLICY, backoffMs: 500, backoffMultiplier: 1 };
+    expect(getRetryDelay(policy, 4)).toBe(500);
+  });
+});
+
+describe('formatNoSignalPrompt', () => {
+  test('includes the retry count and previous output', () => {
+    const prompt = formatNoSignalPrompt('Ran tests, all green.', 1, DEFAULT_NO_SIGNAL_POLICY);
+    expect(prompt).toContain('without emitting the required signal');
+    expect(prompt).toContain('retry 1 of 2');
+    expect(prompt).toContain('Ran tests, all green.');
+  });
+
+  test('quotes only the tail of long output', () => {
+    const policy = { ...DEFAULT_NO_SIGNAL_POLICY, outputTailChars: 10 };
+    const prompt = formatNoSignalPrompt('0123456789abcdefghij', 1, policy);
+    expect(prompt).toContain('...abcdefghij');
+    expect(prompt).not.toContain('0123');
+  });
+
+  test('lists payload errors from the previous run', () => {
+    const prompt = formatNoSignalPrompt(
+      '<signal name="PR_CREATED">{"prNumber": "7"}</signal>',
+      1,
+      DEFAULT_NO_SIGNAL_POLICY,
+      ['Invalid PR_CREATED signal payload: prNumber: Expected number, received string']
+    );
+    expect(prompt).toContain('could not be accepted (retry 1 of 2)');
+    expect(prompt).toContain('- Invalid PR_CREATED signal payload: prNumber');
+    expect(prompt).not.toContain('without emitting the required signal');
+  });
+
+  test('notes empty output', () => {
+    const prompt = formatNoSignalPrompt('', 2, DEFAULT_NO_SIGNAL_POLICY);
+    expect(prompt).toContain('(no output)');
+  });
+});
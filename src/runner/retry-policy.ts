@@ -0,0 +1,79 @@
+/**
+ * Retry policy for phases that end without emitting a signal
+ */
+
+import type {
+  NoSignalRetryConfig,
+  NoSignalRetryPolicy,
+  WorkflowPhase,
+} from '../types';
+
+export const DEFAULT_NO_SIGNAL_POLICY: NoSignalRetryPolicy = {
+  maxRetries: 2,
+  backoffMs: 5000,
+  backoffMultiplier: 2,
+  outputTailChars: 2000,
+};
+
+/**
+ * Resolve the policy for a phase, layering per-phase overrides on the default
+ */
+export function resolveNoSignalPolicy(
+  phase: WorkflowPhase,
+  config: NoSignalRetryConfig = {}
+): NoSignalRetryPolicy {
+  return { ...DEFAULT_NO_SIGNAL_POLICY, ...config[phase] };
+}
+
+/**
+ * Delay before retry number `retry` (1-based)
+ */
+export function getRetryDelay(
+  policy: NoSignalRetryPolicy,
+  retry: number
+): number {
+  return Math.round(
+    policy.backoffMs * Math.pow(policy.backoffMultiplier, retry - 1)
+  );
+}
+
+/**
+ * Follow-up instructions telling the agent its previous run ended
+ * without the required signal, quoting the tail of that output. When
+ * the run emitted signals that failed validation, `invalid` describes
+ * them so the agent can correct the payload.
+ */
+export function formatNoSignalPrompt(
+  previousOutput: string,
+  retry: number,
+  policy: NoSignalRetryPolicy,
+  invalid: string[] = []
+): string {
+  const trimmed = previousOutput.trimEnd();
+  const tail =
+    trimmed.length > policy.outputTailChars
+      ? `...${trimmed.slice(-policy.outputTailChars)}`
+      : trimmed;
+
+  const problem =
+    invalid.length > 0
+      ? [
+          `Your previous run of this phase emitted signals that could not be accepted (retry ${retry} of ${policy.maxRetries}):`,
+          ...invalid.map((error) => `- ${error}`),
+          'Emit the signal again with a payload matching the schema documented in the command.',
+        ]
+      : [
+          `Your previous run of this phase ended without emitting the required signal (retry ${retry} of ${policy.maxRetries}).`,
+          'Finish the phase and end your response with exactly one of the signals documented in the command.',
+        ];
+
+  return [
+    ...problem,
+    'If the phase cannot be completed, emit <promise>FAILED</promise> with an <error> explaining why.',
+    '',
+    'Tail of the previous output:',
+    '```',
+    tail || '(no output)',
+    '```',
+  ].join('\n');
+}
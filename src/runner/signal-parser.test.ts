@@ -3,7 +3,25 @@
  */
 
 import { describe, test, expect } from 'bun:test';
-import { parseSignals, parseAllSignals, extractSignalData } from './signal-parser';
+import type { WorkflowEvent } from '../types';
+import {
+  parseAllPhaseSignals,
+  resolveSignalConflicts,
+  createSignalNonce,
+  formatNonceInstructions,
+  verifySignalNonce,
+  parseSignals,
+  parseAllSignals,
+  extractSignalData,
+  parsePlanList,
+} from './signal-parser';
+
+/**
+ * The first accepted signal, for outputs carrying a single one
+ */
+function firstSignal(output: string): WorkflowEvent | null {
+  return parseAllPhaseSignals(output).events[0] ?? null;
+}
 
 describe('parseSignals', () => {
   test('parses SETUP_COMPLETE signal', () => {
@@ -118,6 +136,33 @@ describe('extractSignalData', () => {
     expect(data).toEqual({ plansCount: 5 });
   });
 
+  test('extracts plan list from PLANNING_COMPLETE', () => {
+    const output = [
+      '<phase>PLANNING_COMPLETE</phase>',
+      'plans_count: 2',
+      'plan: plans/workflow-1-auth.md | issue: #42 | title: Setup auth | depends_on: none',
+      'plan: plans/workflow-2-login.md | issue: #43 | title: Login flow | depends_on: 1',
+    ].join('\n');
+    const data = extractSignalData(output, 'PLANNING_COMPLETE');
+    expect(data.plansCount).toBe(2);
+    expect(data.plans).toEqual([
+      {
+        path: 'plans/workflow-1-auth.md',
+        issueNumber: 42,
+        completed: false,
+        title: 'Setup auth',
+        dependsOn: [],
+      },
+      {
+        path: 'plans/workflow-2-login.md',
+        issueNumber: 43,
+        completed: false,
+        title: 'Login flow',
+        dependsOn: [1],
+      },
+    ]);
+  });
+
   test('extracts PR info from PR_CREATED', () => {
     const output = 'pr_url: https://github.com/org/repo/pull/123\npr_number: 123';
     const data = extractSignalData(output, 'PR_CREATED');
@@ -139,3 +184,398 @@ describe('extractSignalData', () => {
     expect(data).toEqual({});
   });
 });
+
+describe('parsePlanList', () => {
+  test('parses a bare plan path', () => {
+    const plans = parsePlanList('plan: plans/workflow-1-auth.md');
+    expect(plans).toEqual([
+      { path: 'plans/workflow-1-auth.md', issueNumber: null, completed: false },
+    ]);
+  });
+
+  test('treats a missing issue as null', () => {
+    const plans = parsePlanList('plan: plans/workflow-1-auth.md | issue: null');
+    expect(plans[0].issueNumber).toBeNull();
+  });
+
+  test('parses multiple dependencies', () => {
+    const plans = parsePlanList('plan: plans/workflow-3-tests.md | depends_on: 1, 2');
+    expect(plans[0].dependsOn).toEqual([1, 2]);
+  });
+
+  test('ignores plan mentions that are not at line start', () => {
+    const plans = parsePlanList('See the plan: plans/other.md');
+    expect(plans).toEqual([]);
+  });
+});
+
+describe('parseAllPhaseSignals payloads', () => {
+  test('parses structured signal with JSON payload', () => {
+    const output =
+      '<signal name="PR_CREATED">{"prNumber": 123, "prUrl": "https://github.com/org/repo/pull/123"}</signal>';
+    const event = firstSignal(output);
+    expect(event).toEqual({
+      type: 'PR_CREATED',
+      data: { prNumber: 123, prUrl: 'https://github.com/org/repo/pull/123' },
+    });
+  });
+
+  test('parses multi-line structured payload', () => {
+    const output = [
+      '<signal name="SETUP_COMPLETE">',
+      '{',
+      '  "worktreePath": "/path/to/worktree",',
+      '  "branch": "feat/test"',
+      '}',
+      '</signal>',
+    ].join('\n');
+    const event = firstSignal(output);
+    expect(event).toEqual({
+      type: 'SETUP_COMPLETE',
+      data: { worktreePath: '/path/to/worktree', branch: 'feat/test' },
+    });
+  });
+
+  test('accepts structured signal without payload', () => {
+    const event = firstSignal('<signal name="CI_PASSED"></signal>');
+    expect(event).toEqual({ type: 'CI_PASSED', data: {} });
+  });
+
+  test('reports a malformed JSON payload as invalid', () => {
+    const { events, invalid } = parseAllPhaseSignals('<signal name="PR_CREATED">{prNumber: 1}</signal>');
+    expect(events).toEqual([]);
+    expect(invalid[0]).toContain('Invalid PR_CREATED signal payload');
+  });
+
+  test('reports the invalid field', () => {
+    const { events, invalid } = parseAllPhaseSignals(
+      '<signal name="PR_CREATED">{"prNumber": "123", "prUrl": "https://github.com/org/repo/pull/123"}</signal>'
+    );
+    expect(events).toEqual([]);
+    expect(invalid[0]).toContain('prNumber');
+  });
+
+  test('accepts an optional PR summary with IMPLEMENTATION_COMPLETE', () => {
+    const event = firstSignal(
+      '<signal name="IMPLEMENTATION_COMPLETE">{"prTitle": "Add auth", "diffSummary": "2 files changed"}</signal>'
+    );
+    expect(event).toEqual({
+      type: 'IMPLEMENTATION_COMPLETE',
+      data: { prTitle: 'Add auth', diffSummary: '2 files changed' },
+    });
+  });
+
+  test('accepts per-comment results with comment signals', () => {
+    const event = firstSignal(
+      '<signal name="COMMENTS_RESOLVED">{"comments": [{"id": 1201, "author": "alice", "category": "not-actionable", "action": "acknowledged"}]}</signal>'
+    );
+    expect(event).toEqual({
+      type: 'COMMENTS_RESOLVED',
+      data: {
+        comments: [
+          {
+            id: 1201,
+            author: 'alice',
+            file: null,
+            line: null,
+            category: 'not-actionable',
+            action: 'acknowledged',
+            fixCommit: null,
+          },
+        ],
+      },
+    });
+  });
+
+  test('rejects unknown comment categories', () => {
+    const { events, invalid } = parseAllPhaseSignals(
+      '<signal name="COMMENTS_PENDING">{"comments": [{"id": 1, "author": "bob", "category": "nit", "action": "pending"}]}</signal>'
+    );
+    expect(events).toEqual([]);
+    expect(invalid[0]).toContain('comments.0.category');
+  });
+
+  test('accepts per-check CI results', () => {
+    const event = firstSignal(
+      '<signal name="CI_FAILED">{"failureReason": "tests failed", "checks": ["test"], "results": [{"name": "test", "conclusion": "failure", "url": "https://ci.example/1", "summary": "auth.test.ts: 2 failed"}, {"name": "lint", "conclusion": "success"}]}</signal>'
+    );
+    expect(event).toEqual({
+      type: 'CI_FAILED',
+      data: {
+        failureReason: 'tests failed',
+        checks: ['test'],
+        results: [
+          {
+            name: 'test',
+            conclusion: 'failure',
+            url: 'https://ci.example/1',
+            summary: 'auth.test.ts: 2 failed',
+          },
+          { name: 'lint', conclusion: 'success', url: null, summary: null },
+        ],
+      },
+    });
+    expect(firstSignal('<signal name="CI_PASSED"></signal>')?.type).toBe('CI_PASSED');
+  });
+
+  test('rejects unknown check conclusions', () => {
+    const { events, invalid } = parseAllPhaseSignals(
+      '<signal name="CI_PASSED">{"results": [{"name": "test", "conclusion": "green"}]}</signal>'
+    );
+    expect(events).toEqual([]);
+    expect(invalid[0]).toContain('results.0.conclusion');
+  });
+
+  test('accepts a base branch status and the rebase signal', () => {
+    expect(
+      firstSignal('<signal name="COMMENTS_PENDING">{"baseStatus": "behind"}</signal>')
+    ).toEqual({ type: 'COMMENTS_PENDING', data: { baseStatus: 'behind' } });
+    expect(
+      firstSignal('<signal name="REBASE_PUSHED">{"commitSha": "ccc333", "conflictedFiles": ["src/auth.ts"]}</signal>')
+    ).toEqual({
+      type: 'REBASE_PUSHED',
+      data: { commitSha: 'ccc333', conflictedFiles: ['src/auth.ts'] },
+    });
+
+    const { events, invalid } = parseAllPhaseSignals('<signal name="CI_PASSED">{"baseStatus": "diverged"}</signal>');
+    expect(events).toEqual([]);
+    expect(invalid[0]).toContain('baseStatus');
+  });
+
+  test('accepts merge and cleanup signals', () => {
+    expect(
+      firstSignal('<signal name="PR_MERGED">{"mergeCommit": "9f2c1e7", "strategy": "squash"}</signal>')
+    ).toEqual({ type: 'PR_MERGED', data: { mergeCommit: '9f2c1e7', strategy: 'squash' } });
+    expect(
+      firstSignal('<signal name="CLEANUP_COMPLETE">{"closedIssues": [42]}</signal>')
+    ).toEqual({ type: 'CLEANUP_COMPLETE', data: { closedIssues: [42] } });
+    expect(
+      parseAllPhaseSignals('<signal name="PR_MERGED">{"strategy": "ff"}</signal>').invalid
+    ).toHaveLength(1);
+  });
+
+  test('accepts the stacked PR fields', () => {
+    expect(
+      firstSignal(
+        '<signal name="PR_CREATED">{"prNumber": 102, "prUrl": "https://github.com/org/repo/pull/102", "branch": "feat/auth-plan-2", "baseBranch": "feat/auth"}</signal>'
+      )
+    ).toEqual({
+      type: 'PR_CREATED',
+      data: {
+        prNumber: 102,
+        prUrl: 'https://github.com/org/repo/pull/102',
+        branch: 'feat/auth-plan-2',
+        baseBranch: 'feat/auth',
+      },
+    });
+    expect(
+      firstSignal('<signal name="PLAN_COMPLETE">{"planNumber": 2, "prTitle": "Add login"}</signal>')
+    ).toEqual({ type: 'PLAN_COMPLETE', data: { planNumber: 2, prTitle: 'Add login' } });
+  });
+
+  test('requires a reason with NEEDS_HUMAN', () => {
+    const { events, invalid } = parseAllPhaseSignals('<signal name="NEEDS_HUMAN">{"checks": ["e2e"]}</signal>');
+    expect(events).toEqual([]);
+    expect(invalid[0]).toContain('reason');
+  });
+
+  test('accepts VERIFY_FIXED but not the runner-only verification results', () => {
+    expect(firstSignal('<phase>VERIFY_FIXED</phase>')?.type).toBe('VERIFY_FIXED');
+    expect(parseAllPhaseSignals('<signal name="VERIFY_PASSED"></signal>')).toEqual({
+      events: [],
+      invalid: ['Unknown signal: VERIFY_PASSED'],
+    });
+  });
+
+  test('reports an unknown structured signal as invalid', () => {
+    expect(parseAllPhaseSignals('<signal name="SHIP_IT"></signal>')).toEqual({
+      events: [],
+      invalid: ['Unknown signal: SHIP_IT'],
+    });
+  });
+
+  test('falls back to legacy tag and key-value data', () => {
+    const output = '<phase>PR_CREATED</phase>\npr_number: 7\npr_url: https://github.com/org/repo/pull/7';
+    const event = firstSignal(output);
+    expect(event).toEqual({
+      type: 'PR_CREATED',
+      data: { prNumber: 7, prUrl: 'https://github.com/org/repo/pull/7' },
+    });
+  });
+
+  test('ignores legacy key-value lines before the tag', () => {
+    const output = [
+      'Checked out branch: main',
+      '<phase>SETUP_COMPLETE</phase>',
+      'worktree_path: /path/to/worktree',
+      'branch: feat/test',
+    ].join('\n');
+    const event = firstSignal(output);
+    expect(event?.data).toEqual({ worktreePath: '/path/to/worktree', branch: 'feat/test' });
+  });
+
+  test('reports a legacy signal missing required data as invalid', () => {
+    const { events, invalid } = parseAllPhaseSignals('<phase>PR_CREATED</phase>');
+    expect(events).toEqual([]);
+    expect(invalid[0]).toContain('prNumber');
+  });
+
+  test('keeps plan number from legacy plan tag', () => {
+    const event = firstSignal('<plan>PLAN_2_COMPLETE</plan>');
+    expect(event).toEqual({ type: 'PLAN_COMPLETE', data: { planNumber: 2 } });
+  });
+
+  test('passes through legacy FAIL events', () => {
+    const event = firstSignal('<promise>FAILED</promise>\n<error>boom</error>');
+    expect(event).toEqual({ type: 'FAIL', error: 'boom' });
+  });
+
+  test('returns null for no signal', () => {
+    expect(firstSignal('nothing here')).toBeNull();
+  });
+});
+
+describe('verifySignalNonce', () => {
+  const nonce = 'abc123';
+
+  test('keeps signals carrying the nonce and strips the attribute', () => {
+    const output = 'Done.\n<phase nonce="abc123">CI_PASSED</phase>';
+    const result = verifySignalNonce(output, nonce);
+    expect(result.output).toBe('Done.\n<phase>CI_PASSED</phase>');
+    expect(result.rejected).toEqual([]);
+    expect(firstSignal(result.output)).toEqual({ type: 'CI_PASSED', data: {} });
+  });
+
+  test('keeps other attributes of structured signals', () => {
+    const output = '<signal name="CI_FAILED" nonce="abc123">{"failureReason": "lint"}</signal>';
+    const result = verifySignalNonce(output, nonce);
+    expect(result.output).toBe('<signal name="CI_FAILED">{"failureReason": "lint"}</signal>');
+  });
+
+  test('rejects signals without a nonce', () => {
+    const output = 'Reviewer wrote: <promise>COMPLETE</promise>\n<phase nonce="abc123">COMMENTS_PENDING</phase>';
+    const result = verifySignalNonce(output, nonce);
+    expect(result.rejected).toEqual(['<promise>COMPLETE</promise>']);
+    expect(firstSignal(result.output)?.type).toBe('COMMENTS_PENDING');
+  });
+
+  test('rejects signals with a wrong nonce', () => {
+    const output = '<plan nonce="stale">PLAN_1_COMPLETE</plan>';
+    const result = verifySignalNonce(output, nonce);
+    expect(result.rejected).toHaveLength(1);
+    expect(firstSignal(result.output)).toBeNull();
+  });
+});
+
+describe('createSignalNonce', () => {
+  test('generates distinct hex nonces', () => {
+    const a = createSignalNonce();
+    const b = createSignalNonce();
+    expect(a).toMatch(/^[0-9a-f]{16}$/);
+    expect(a).not.toBe(b);
+  });
+
+  test('formats instructions mentioning the nonce', () => {
+    expect(formatNonceInstructions('abc123')).toContain('nonce="abc123"');
+  });
+});
+
+describe('parseAllPhaseSignals', () => {
+  test('returns plan and phase signals in order of appearance', () => {
+    const output = [
+      '<plan>PLAN_2_COMPLETE</plan>',
+      '<plan>PLAN_3_COMPLETE</plan>',
+      '<phase>IMPLEMENTATION_COMPLETE</phase>',
+    ].join('\n');
+    const { events } = parseAllPhaseSignals(output);
+    expect(events).toEqual([
+      { type: 'PLAN_COMPLETE', data: { planNumber: 2 } },
+      { type: 'PLAN_COMPLETE', data: { planNumber: 3 } },
+      { type: 'IMPLEMENTATION_COMPLETE', data: {} },
+    ]);
+  });
+
+  test('includes promise signals', () => {
+    const output = '<plan>PLAN_1_COMPLETE</plan>\n<promise>FAILED</promise>\n<error>push rejected</error>';
+    const { events } = parseAllPhaseSignals(output);
+    expect(events).toEqual([
+      { type: 'PLAN_COMPLETE', data: { planNumber: 1 } },
+      { type: 'FAIL', error: 'push rejected' },
+    ]);
+  });
+
+  test('reads legacy data only up to the next signal', () => {
+    const output = [
+      '<phase>CI_FAILED</phase>',
+      'ci_failure_reason: lint',
+      '<phase>CI_FAILED</phase>',
+      'ci_failure_reason: tests',
+    ].join('\n');
+    const { events } = parseAllPhaseSignals(output);
+    expect(events.map((e) => e.data?.failureReason)).toEqual(['lint', 'tests']);
+  });
+
+  test('mixes structured and legacy signals in order', () => {
+    const output =
+      '<phase>CI_FIX_PUSHED</phase>\n<signal name="CI_FAILED">{"failureReason": "build"}</signal>';
+    const { events } = parseAllPhaseSignals(output);
+    expect(events.map((e) => e.type)).toEqual(['CI_FIX_PUSHED', 'CI_FAILED']);
+  });
+
+  test('includes the COMPLETE promise', () => {
+    expect(parseAllPhaseSignals('<promise>COMPLETE</promise>').events).toEqual([
+      { type: 'WORKFLOW_COMPLETE' },
+    ]);
+  });
+
+  test('keeps invalid signals apart from the valid ones', () => {
+    const output =
+      '<plan>PLAN_1_COMPLETE</plan>\n<signal name="PR_CREATED">{"prNumber": 7}</signal>';
+    const { events, invalid } = parseAllPhaseSignals(output);
+    expect(events).toEqual([{ type: 'PLAN_COMPLETE', data: { planNumber: 1 } }]);
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0]).toContain('Invalid PR_CREATED signal payload: prUrl');
+  });
+
+  test('returns no events for no signals', () => {
+    expect(parseAllPhaseSignals('nothing here')).toEqual({ events: [], invalid: [] });
+  });
+});
+
+describe('resolveSignalConflicts', () => {
+  test('prefers CI_FAILED over CI_PASSED', () => {
+    const result = resolveSignalConflicts([
+      { type: 'CI_PASSED' },
+      { type: 'CI_FAILED', data: { failureReason: 'lint' } },
+    ]);
+    expect(result.events).toEqual([{ type: 'CI_FAILED', data: { failureReason: 'lint' } }]);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toContain('CI_PASSED conflicts with CI_FAILED');
+  });
+
+  test('prefers COMMENTS_PENDING over COMMENTS_RESOLVED', () => {
+    const result = resolveSignalConflicts([
+      { type: 'COMMENTS_PENDING' },
+      { type: 'COMMENTS_RESOLVED' },
+    ]);
+    expect(result.events).toEqual([{ type: 'COMMENTS_PENDING' }]);
+  });
+
+  test('prefers NEEDS_HUMAN over a failure that would use up a retry', () => {
+    const needsHuman = { type: 'NEEDS_HUMAN' as const, data: { reason: 'Flaky runner' } };
+    const result = resolveSignalConflicts([
+      { type: 'CI_FAILED', data: { failureReason: 'e2e' } },
+      needsHuman,
+    ]);
+    expect(result.events).toEqual([needsHuman]);
+    expect(result.conflicts[0]).toContain('applying NEEDS_HUMAN');
+  });
+
+  test('leaves compatible signals untouched', () => {
+    const events = [
+      { type: 'PLAN_COMPLETE' as const, data: { planNumber: 1 } },
+      { type: 'IMPLEMENTATION_COMPLETE' as const },
+    ];
+    expect(resolveSignalConflicts(events)).toEqual({ events, conflicts: [] });
+  });
+});
@@ -2,12 +2,15 @@
  * Parse XML-style signals from Claude CLI output
  */
 
-import type { WorkflowEvent, WorkflowSignal } from '../types';
+import { randomBytes } from 'node:crypto';
+import { z } from 'zod';
+import type { PlanInfo, WorkflowEvent, WorkflowSignal } from '../types';
 
 const PHASE_SIGNALS: WorkflowSignal[] = [
   'SETUP_COMPLETE',
   'PLANNING_COMPLETE',
   'IMPLEMENTATION_COMPLETE',
+  'VERIFY_FIXED',
   'PR_CREATED',
   'CI_PASSED',
   'CI_FAILED',
@@ -15,52 +18,232 @@ const PHASE_SIGNALS: WorkflowSignal[] = [
   'COMMENTS_RESOLVED',
   'COMMENTS_PENDING',
   'COMMENT_FIX_PUSHED',
+  'REBASE_PUSHED',
+  'PR_MERGED',
+  'CLEANUP_COMPLETE',
+  'NEEDS_HUMAN',
   'WORKFLOW_COMPLETE',
 ];
 
+const PlanPayloadSchema = z.object({
+  path: z.string().min(1),
+  issueNumber: z.number().int().positive().nullable().default(null),
+  title: z.string().optional(),
+  dependsOn: z.array(z.number().int().positive()).optional(),
+});
+
+// Fix pushes may report what they pushed, for stuck-loop detection
+const FixPushedPayloadSchema = z.object({
+  commitSha: z.string().min(1).optional(),
+  filesChanged: z.number().int().nonnegative().optional(),
+});
+
+// Per-comment results reported by the comment phases
+const CommentReportSchema = z.object({
+  id: z.number().int().positive(),
+  author: z.string().min(1),
+  file: z.string().min(1).nullable().default(null),
+  line: z.number().int().positive().nullable().default(null),
+  category: z.enum(['actionable-clear', 'actionable-unclear', 'not-actionable']),
+  action: z.enum(['fixed', 'replied', 'acknowledged', 'asked', 'pending']),
+  fixCommit: z.string().min(1).nullable().default(null),
+});
+
+// Per-check results reported by the CI phase
+const CiCheckResultSchema = z.object({
+  name: z.string().min(1),
+  conclusion: z.enum([
+    'success',
+    'failure',
+    'cancelled',
+    'timed_out',
+    'skipped',
+    'neutral',
+    'action_required',
+    'pending',
+  ]),
+  url: z.string().min(1).nullable().default(null),
+  summary: z.string().min(1).nullable().default(null),
+});
+
+// Where the PR stands against its base branch, reported by the CI and
+// comment phases; `behind` and `conflicting` trigger a rebase
+const BaseStatusSchema = z.enum(['up_to_date', 'behind', 'conflicting']);
+
 /**
- * Parse signals from Claude CLI output.
- * Looks for patterns like:
- * - <phase>SETUP_COMPLETE</phase>
- * - <plan>PLAN_1_COMPLETE</plan>
- * - <promise>FAILED</promise>
- * - <error>message</error>
+ * Payload schemas for signals that carry data.
+ * Signals without an entry accept any JSON object.
  */
-export function parseSignals(output: string): WorkflowEvent | null {
-  // Check for phase signals: <phase>SIGNAL_NAME</phase>
-  const phaseMatch = output.match(/<phase>(\w+)<\/phase>/);
-  if (phaseMatch) {
-    const signalName = phaseMatch[1] as WorkflowSignal;
-    if (PHASE_SIGNALS.includes(signalName)) {
-      return { type: signalName };
+const SIGNAL_PAYLOAD_SCHEMAS: Partial<Record<WorkflowSignal, z.ZodTypeAny>> = {
+  SETUP_COMPLETE: z.object({
+    worktreePath: z.string().min(1),
+    branch: z.string().min(1),
+  }),
+  PLANNING_COMPLETE: z.object({
+    plansCount: z.number().int().nonnegative().optional(),
+    plans: z.array(PlanPayloadSchema).min(1),
+  }),
+  PLAN_COMPLETE: z.object({
+    planNumber: z.number().int().positive(),
+    // Stacked mode submits the plan as its own PR
+    prTitle: z.string().min(1).optional(),
+    diffSummary: z.string().optional(),
+  }),
+  IMPLEMENTATION_COMPLETE: z.object({
+    prTitle: z.string().min(1).optional(),
+    diffSummary: z.string().optional(),
+  }),
+  PR_CREATED: z.object({
+    prNumber: z.number().int().positive(),
+    prUrl: z.string().url(),
+    // Stacked mode: the plan's branch and the branch its PR targets
+    branch: z.string().min(1).optional(),
+    baseBranch: z.string().min(1).optional(),
+  }),
+  CI_PASSED: z.object({
+    results: z.array(CiCheckResultSchema).optional(),
+    baseStatus: BaseStatusSchema.optional(),
+  }),
+  CI_FAILED: z.object({
+    failureReason: z.string().min(1),
+    // Checks were still running when the phase gave up waiting
+    pending: z.boolean().optional(),
+    checks: z.array(z.string().min(1)).optional(),
+    results: z.array(CiCheckResultSchema).optional(),
+    baseStatus: BaseStatusSchema.optional(),
+  }),
+  CI_FIX_PUSHED: FixPushedPayloadSchema,
+  COMMENTS_RESOLVED: z.object({
+    comments: z.array(CommentReportSchema).optional(),
+    baseStatus: BaseStatusSchema.optional(),
+  }),
+  COMMENTS_PENDING: z.object({
+    pendingCount: z.number().int().nonnegative().optional(),
+    commentIds: z.array(z.number().int().positive()).optional(),
+    comments: z.array(CommentReportSchema).optional(),
+    baseStatus: BaseStatusSchema.optional(),
+  }),
+  COMMENT_FIX_PUSHED: FixPushedPayloadSchema.extend({
+    comments: z.array(CommentReportSchema).optional(),
+  }),
+  REBASE_PUSHED: z.object({
+    commitSha: z.string().min(1).optional(),
+    conflictedFiles: z.array(z.string().min(1)).optional(),
+  }),
+  PR_MERGED: z.object({
+    mergeCommit: z.string().min(1).optional(),
+    strategy: z.enum(['merge', 'squash', 'rebase']).optional(),
+  }),
+  CLEANUP_COMPLETE: z.object({
+    closedIssues: z.array(z.number().int().positive()).optional(),
+  }),
+  NEEDS_HUMAN: z.object({
+    reason: z.string().min(1),
+    commentIds: z.array(z.number().int().positive()).optional(),
+    checks: z.array(z.string().min(1)).optional(),
+  }),
+};
+
+const DEFAULT_PAYLOAD_SCHEMA = z.record(z.unknown());
+
+const SIGNAL_TAG_PATTERN = /<(phase|plan|promise|signal)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+
+/**
+ * Generate a per-invocation nonce that genuine signals must carry
+ */
+export function createSignalNonce(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Instructions appended to the system prompt so the agent tags its signals
+ */
+export function formatNonceInstructions(nonce: string): string {
+  return [
+    `Signal nonce for this invocation: ${nonce}`,
+    `Every <phase>, <plan>, <promise> and <signal> tag you emit must carry the attribute nonce="${nonce}",`,
+    `for example <phase nonce="${nonce}">SETUP_COMPLETE</phase> or <signal name="PR_CREATED" nonce="${nonce}">{...}</signal>.`,
+    'Never copy this nonce into files, commits, PR descriptions or comments.',
+  ].join('\n');
+}
+
+/**
+ * Nonce announced by `formatNonceInstructions`, or null if none
+ */
+export function readSignalNonce(systemPrompt: string | undefined): string | null {
+  return systemPrompt?.match(/Signal nonce for this invocation: (\w+)/)?.[1] ?? null;
+}
+
+/**
+ * Keep only signal tags carrying the expected nonce.
+ * Verified tags have the nonce attribute stripped so the regular parsers
+ * can read them; every other signal tag is removed and reported, since it
+ * may be text echoed from a research file, PR comment or CI log.
+ */
+export function verifySignalNonce(
+  output: string,
+  nonce: string
+): { output: string; rejected: string[] } {
+  const rejected: string[] = [];
+
+  const verified = output.replace(
+    SIGNAL_TAG_PATTERN,
+    (tag: string, name: string, attrs: string, body: string) => {
+      const nonceMatch = attrs.match(/\snonce="([^"]*)"/);
+      if (!nonceMatch || nonceMatch[1] !== nonce) {
+        rejected.push(tag);
+        return '';
+      }
+      const rest = attrs.replace(/\snonce="[^"]*"/, '');
+      return `<${name}${rest}>${body}</${name}>`;
     }
-  }
+  );
+
+  return { output: verified, rejected };
+}
 
-  // Check for plan completion: <plan>PLAN_N_COMPLETE</plan>
-  const planMatch = output.match(/<plan>PLAN_(\d+)_COMPLETE<\/plan>/);
-  if (planMatch) {
-    const planNumber = parseInt(planMatch[1], 10);
-    return {
-      type: 'PLAN_COMPLETE',
-      data: { planNumber },
-    };
+/**
+ * The signal's event, or a description of why it cannot be accepted
+ */
+type ParsedSignal = WorkflowEvent | string;
+
+function parseStructuredSignal(
+  name: string,
+  body: string,
+  validate: boolean
+): ParsedSignal {
+  const signal = name as WorkflowSignal;
+  if (!PHASE_SIGNALS.includes(signal) && signal !== 'PLAN_COMPLETE') {
+    return `Unknown signal: ${name}`;
   }
 
-  // Check for promise failure: <promise>FAILED</promise>
-  if (output.includes('<promise>FAILED</promise>')) {
-    const errorMatch = output.match(/<error>([^<]+)<\/error>/);
-    return {
-      type: 'FAIL',
-      error: errorMatch ? errorMatch[1] : 'Unknown error',
-    };
+  let payload: unknown = {};
+  if (body.trim() !== '') {
+    try {
+      payload = JSON.parse(body);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      return `Invalid ${signal} signal payload: ${message}`;
+    }
   }
 
-  // Check for workflow complete promise
-  if (output.includes('<promise>COMPLETE</promise>')) {
-    return { type: 'WORKFLOW_COMPLETE' };
+  return validate
+    ? validatePayload(signal, payload)
+    : { type: signal, data: payload as Record<string, unknown> };
+}
+
+function validatePayload(signal: WorkflowSignal, payload: unknown): ParsedSignal {
+  const schema = SIGNAL_PAYLOAD_SCHEMAS[signal] ?? DEFAULT_PAYLOAD_SCHEMA;
+  const result = schema.safeParse(payload);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    return `Invalid ${signal} signal payload: ${issues}`;
   }
 
-  return null;
+  return { type: signal, data: result.data as Record<string, unknown> };
 }
 
 /**
@@ -84,6 +267,8 @@ export function extractSignalData(
     case 'PLANNING_COMPLETE': {
       const countMatch = output.match(/plans_count:\s*(\d+)/);
       if (countMatch) data.plansCount = parseInt(countMatch[1], 10);
+      const plans = parsePlanList(output);
+      if (plans.length > 0) data.plans = plans;
       break;
     }
 
@@ -100,37 +285,182 @@ export function extractSignalData(
       if (reasonMatch) data.failureReason = reasonMatch[1].trim();
       break;
     }
+
+    case 'COMMENTS_PENDING': {
+      const pendingMatch = output.match(/pending_count:\s*(\d+)/);
+      if (pendingMatch) data.pendingCount = parseInt(pendingMatch[1], 10);
+      break;
+    }
   }
 
   return data;
 }
 
 /**
- * Find all signals in output (there may be multiple)
+ * Parse the plan list reported by the planning phase.
+ * One line per plan:
+ *   plan: plans/workflow-1-auth.md | issue: #42 | title: Setup auth | depends_on: none
+ */
+export function parsePlanList(output: string): PlanInfo[] {
+  const plans: PlanInfo[] = [];
+
+  for (const match of output.matchAll(/^plan:\s*(.+)$/gm)) {
+    const [path, ...fields] = match[1].split('|').map((f) => f.trim());
+    if (!path) continue;
+
+    const plan: PlanInfo = { path, issueNumber: null, completed: false };
+
+    for (const field of fields) {
+      const separator = field.indexOf(':');
+      if (separator === -1) continue;
+      const key = field.slice(0, separator).trim();
+      const value = field.slice(separator + 1).trim();
+
+      switch (key) {
+        case 'issue': {
+          const issueMatch = value.match(/^#?(\d+)$/);
+          plan.issueNumber = issueMatch ? parseInt(issueMatch[1], 10) : null;
+          break;
+        }
+        case 'title':
+          if (value) plan.title = value;
+          break;
+        case 'depends_on':
+          plan.dependsOn = value
+            .split(',')
+            .map((n) => parseInt(n.trim(), 10))
+            .filter((n) => !isNaN(n));
+          break;
+      }
+    }
+
+    plans.push(plan);
+  }
+
+  return plans;
+}
+
+const ORDERED_SIGNAL_PATTERN =
+  /<signal\s+name="(\w+)"\s*>([\s\S]*?)<\/signal>|<phase>(\w+)<\/phase>|<plan>PLAN_(\d+)_COMPLETE<\/plan>|<promise>(FAILED|COMPLETE)<\/promise>/g;
+
+/**
+ * Signals that contradict each other. When both appear in one output the
+ * pessimistic signal (second element) wins and the conflict is reported.
+ */
+const CONFLICTING_SIGNALS: Array<[WorkflowSignal, WorkflowSignal]> = [
+  ['CI_PASSED', 'CI_FAILED'],
+  ['COMMENTS_RESOLVED', 'COMMENTS_PENDING'],
+  // Escalating keeps the retry counters that CI_FAILED and COMMENTS_PENDING use
+  ['CI_PASSED', 'NEEDS_HUMAN'],
+  ['CI_FAILED', 'NEEDS_HUMAN'],
+  ['COMMENTS_RESOLVED', 'NEEDS_HUMAN'],
+  ['COMMENTS_PENDING', 'NEEDS_HUMAN'],
+  ['REBASE_PUSHED', 'NEEDS_HUMAN'],
+  ['PR_MERGED', 'NEEDS_HUMAN'],
+];
+
+/**
+ * Parse every signal in output, in the order it appears, with validated
+ * payloads. Legacy `key: value` data is read from the text between a
+ * tag and the next signal tag. Signals that are unknown or whose payload
+ * fails validation are left out of `events` and described in `invalid`.
+ */
+export function parseAllPhaseSignals(output: string): {
+  events: WorkflowEvent[];
+  invalid: string[];
+} {
+  const parsed = scanSignals(output, true);
+  return {
+    events: parsed.filter(isEvent),
+    invalid: parsed.filter((p): p is string => typeof p === 'string'),
+  };
+}
+
+/**
+ * Parse the first signal in output, without its payload.
+ * @deprecated Use `parseAllPhaseSignals`, which validates payloads.
+ */
+export function parseSignals(output: string): WorkflowEvent | null {
+  const first = scanSignals(output, false).find(isEvent);
+  if (!first) return null;
+  if (first.type === 'PLAN_COMPLETE' || first.type === 'FAIL') return first;
+  return { type: first.type };
+}
+
+/**
+ * Parse every signal in output, in order, without validating payloads.
+ * @deprecated Use `parseAllPhaseSignals`, which validates payloads.
  */
 export function parseAllSignals(output: string): WorkflowEvent[] {
-  const events: WorkflowEvent[] = [];
-
-  // Find all phase signals
-  const phaseMatches = output.matchAll(/<phase>(\w+)<\/phase>/g);
-  for (const match of phaseMatches) {
-    const signalName = match[1] as WorkflowSignal;
-    if (PHASE_SIGNALS.includes(signalName)) {
-      events.push({
-        type: signalName,
-        data: extractSignalData(output, signalName),
+  return scanSignals(output, false).filter(isEvent);
+}
+
+function isEvent(parsed: ParsedSignal): parsed is WorkflowEvent {
+  return typeof parsed !== 'string';
+}
+
+function scanSignals(output: string, validate: boolean): ParsedSignal[] {
+  const parsed: ParsedSignal[] = [];
+  const matches = [...output.matchAll(ORDERED_SIGNAL_PATTERN)];
+
+  matches.forEach((match, i) => {
+    const end = matches[i + 1]?.index ?? output.length;
+    const scope = output.slice(match.index, end);
+    const [, structuredName, structuredBody, phaseName, planNumber, promise] =
+      match;
+
+    if (structuredName) {
+      parsed.push(parseStructuredSignal(structuredName, structuredBody, validate));
+    } else if (phaseName) {
+      const signal = phaseName as WorkflowSignal;
+      if (PHASE_SIGNALS.includes(signal)) {
+        const data = extractSignalData(scope, signal);
+        parsed.push(validate ? validatePayload(signal, data) : { type: signal, data });
+      }
+    } else if (planNumber) {
+      parsed.push({
+        type: 'PLAN_COMPLETE',
+        data: { planNumber: parseInt(planNumber, 10) },
+      });
+    } else if (promise === 'FAILED') {
+      const errorMatch =
+        scope.match(/<error>([^<]+)<\/error>/) ??
+        output.match(/<error>([^<]+)<\/error>/);
+      parsed.push({
+        type: 'FAIL',
+        error: errorMatch ? errorMatch[1] : 'Unknown error',
       });
+    } else if (promise === 'COMPLETE') {
+      parsed.push({ type: 'WORKFLOW_COMPLETE' });
     }
-  }
+  });
+
+  return parsed;
+}
 
-  // Find all plan completions
-  const planMatches = output.matchAll(/<plan>PLAN_(\d+)_COMPLETE<\/plan>/g);
-  for (const match of planMatches) {
-    events.push({
-      type: 'PLAN_COMPLETE',
-      data: { planNumber: parseInt(match[1], 10) },
-    });
+/**
+ * Drop optimistic signals that conflict with a pessimistic one in the
+ * same output, returning a description of each conflict found
+ */
+export function resolveSignalConflicts(events: WorkflowEvent[]): {
+  events: WorkflowEvent[];
+  conflicts: string[];
+} {
+  const conflicts: string[] = [];
+  const dropped = new Set<string>();
+  const types = new Set(events.map((e) => e.type));
+
+  for (const [optimistic, pessimistic] of CONFLICTING_SIGNALS) {
+    if (types.has(optimistic) && types.has(pessimistic)) {
+      conflicts.push(
+        `${optimistic} conflicts with ${pessimistic}; applying ${pessimistic}`
+      );
+      dropped.add(optimistic);
+    }
   }
 
-  return events;
+  return {
+    events: events.filter((e) => !dropped.has(e.type)),
+    conflicts,
+  };
 }
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for usage-report.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  getPhaseUsageShares,
+  formatCost,
+  formatShare,
+  formatUsageSummary,
+} from './usage-report';
+import type { UsageTotals, WorkflowUsage } from '../types';
+
+const totals = (overrides: Partial<UsageTotals> = {}): UsageTotals => ({
+  invocations: 1,
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheCreationInputTokens: 0,
+  cacheReadInputTokens: 0,
+  costUsd: 0,
+  durationMs: 0,
+  ...overrides,
+});
+
+const USAGE: WorkflowUsage = {
+  total: totals({
+    invocations: 5,
+    inputTokens: 5000,
+    outputTokens: 800,
+    cacheReadInputTokens: 20000,
+    cacheCreationInputTokens: 300,
+    costUsd: 2,
+  }),
+  phases: {
+    implementing: totals({ invocations: 2, costUsd: 0.6 }),
+    ci_fixing: totals({ invocations: 3, costUsd: 1.2 }),
+    setup: totals({ costUsd: 0.2 }),
+  },
+};
+
+describe('getPhaseUsageShares', () => {
+  test('orders phases by cost with their share of the total', () => {
+    const shares = getPhaseUsageShares(USAGE);
+    expect(shares.map((s) => s.phase)).toEqual(['ci_fixing', 'implementing', 'setup']);
+    expect(shares[0].costShare).toBeCloseTo(0.6);
+  });
+
+  test('reports zero shares when nothing was spent', () => {
+    const shares = getPhaseUsageShares({
+      total: totals(),
+      phases: { setup: totals() },
+    });
+    expect(shares[0].costShare).toBe(0);
+  });
+});
+
+describe('formatting', () => {
+  test('formats cost and share', () => {
+    expect(formatCost(0.123456)).toBe('$0.1235');
+    expect(formatShare(0.6)).toBe('60%');
+  });
+
+  test('summarizes totals and the per-phase breakdown', () => {
+    expect(formatUsageSummary(USAGE)).toEqual([
+      'Total: $2.0000 over 5 invocations',
+      'Tokens: 5000 input, 800 output, 20000 cache read, 300 cache write',
+      'ci_fixing: $1.2000 (60%), 3 invocations',
+      'implementing: $0.6000 (30%), 2 invocations',
+      'setup: $0.2000 (10%), 1 invocations',
+    ]);
+  });
+});
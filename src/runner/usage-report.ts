@@ -0,0 +1,57 @@
+/**
+ * Formatting of token and cost usage for the progress file and CLI summary
+ */
+
+import type { UsageTotals, WorkflowPhase, WorkflowUsage } from '../types';
+
+export interface PhaseUsageShare {
+  phase: WorkflowPhase;
+  totals: UsageTotals;
+  /** Fraction of the workflow's total cost, 0 to 1 */
+  costShare: number;
+}
+
+/**
+ * Phases ordered by cost, most expensive first
+ */
+export function getPhaseUsageShares(usage: WorkflowUsage): PhaseUsageShare[] {
+  return (Object.entries(usage.phases) as Array<[WorkflowPhase, UsageTotals]>)
+    .map(([phase, totals]) => ({
+      phase,
+      totals,
+      costShare:
+        usage.total.costUsd > 0 ? totals.costUsd / usage.total.costUsd : 0,
+    }))
+    .sort((a, b) => b.totals.costUsd - a.totals.costUsd);
+}
+
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(4)}`;
+}
+
+export function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+/**
+ * One line per phase: `ci_fixing: $0.7400 (60%), 3 invocations`
+ */
+export function formatPhaseUsage(usage: WorkflowUsage): string[] {
+  return getPhaseUsageShares(usage).map(
+    ({ phase, totals, costShare }) =>
+      `${phase}: ${formatCost(totals.costUsd)} (${formatShare(costShare)}), ${totals.invocations} invocations`
+  );
+}
+
+/**
+ * Summary lines for the end of a run
+ */
+export function formatUsageSummary(usage: WorkflowUsage): string[] {
+  const { total } = usage;
+  return [
+    `Total: ${formatCost(total.costUsd)} over ${total.invocations} invocations`,
+    `Tokens: ${total.inputTokens} input, ${total.outputTokens} output, ` +
+      `${total.cacheReadInputTokens} cache read, ${total.cacheCreationInputTokens} cache write`,
+    ...formatPhaseUsage(usage),
+  ];
+}
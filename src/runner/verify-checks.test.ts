@@ -0,0 +1,140 @@
+/**
+ * Unit tests for verify-checks.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  hasVerifyCommands,
+  runVerifyChecks,
+  formatVerifyFailures,
+  formatRebaseChecks,
+} from './verify-checks';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('hasVerifyCommands', () => {
+  test('is true once any check is configured', () => {
+    expect(hasVerifyCommands({})).toBe(false);
+    expect(hasVerifyCommands({ lint: 'eslint .' })).toBe(true);
+  });
+});
+
+describe('runVerifyChecks', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'verify-checks-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test('runs every configured check in order in the given directory', async () => {
+    await writeFile(join(testDir, 'marker.txt'), 'here\n');
+
+    const results = await runVerifyChecks(
+      {
+        test: 'echo "1 fail" >&2; exit 3',
+        typecheck: 'cat marker.txt',
+      },
+      { cwd: testDir, timeout: 10_000 }
+    );
+
+    expect(results).toEqual([
+      {
+        name: 'typecheck',
+        command: 'cat marker.txt',
+        exitCode: 0,
+        timedOut: false,
+        output: 'here\n',
+      },
+      {
+        name: 'test',
+        command: 'echo "1 fail" >&2; exit 3',
+        exitCode: 3,
+        timedOut: false,
+        output: '1 fail\n',
+      },
+    ]);
+  });
+
+  test('keeps only the tail of long output', async () => {
+    const [result] = await runVerifyChecks(
+      { lint: 'seq 1 5000' },
+      { cwd: testDir, timeout: 10_000 }
+    );
+
+    expect(result.output.length).toBe(4000);
+    expect(result.output.endsWith('4999\n5000\n')).toBe(true);
+  });
+
+  test('stops a check that runs past the timeout', async () => {
+    const [result] = await runVerifyChecks(
+      { test: 'sleep 5' },
+      { cwd: testDir, timeout: 50, killGracePeriod: 50 }
+    );
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBeNull();
+  });
+
+  test('reports a check that cannot start', async () => {
+    const [result] = await runVerifyChecks(
+      { typecheck: 'true' },
+      { cwd: join(testDir, 'missing'), timeout: 10_000 }
+    );
+
+    expect(result.exitCode).toBeNull();
+    expect(result.timedOut).toBe(false);
+    expect(result.output).not.toBe('');
+  });
+
+  test('starts no further checks once aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const results = await runVerifyChecks(
+      { typecheck: 'true', test: 'true' },
+      { cwd: testDir, timeout: 10_000, signal: controller.signal }
+    );
+
+    expect(results).toEqual([]);
+  });
+});
+
+describe('formatVerifyFailures', () => {
+  test('lists each failed check with its output', () => {
+    const prompt = formatVerifyFailures([
+      {
+        name: 'typecheck',
+        command: 'tsc --noEmit',
+        exitCode: 2,
+        timedOut: false,
+        output: 'src/a.ts(1,7): error TS2322\n',
+      },
+      { name: 'test', command: 'bun test', exitCode: null, timedOut: true, output: '' },
+    ]);
+
+    expect(prompt).toContain('### typecheck: `tsc --noEmit` exited with code 2');
+    expect(prompt).toContain('src/a.ts(1,7): error TS2322');
+    expect(prompt).toContain('### test: `bun test` timed out\n```\n(no output)\n```');
+  });
+});
+
+describe('formatRebaseChecks', () => {
+  test('lists the configured checks in run order', () => {
+    expect(formatRebaseChecks({ test: 'bun test', typecheck: 'tsc --noEmit' })).toBe(
+      [
+        'After rebasing, run these checks in the worktree and fix any failures before force-pushing:',
+        '- typecheck: `tsc --noEmit`',
+        '- test: `bun test`',
+      ].join('\n')
+    );
+  });
+
+  test('returns null when no checks are configured', () => {
+    expect(formatRebaseChecks({})).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Local checks run by the runner in the `verifying` phase
+ *
+ * The configured typecheck, lint and test commands run in the worktree
+ * through the shell. Every configured check runs, so the verify_fixing
+ * phase sees all failures at once.
+ */
+
+import { spawn } from 'node:child_process';
+import {
+  DEFAULT_KILL_GRACE_PERIOD,
+  trackProcessGroup,
+} from '../adapters/process-group';
+import type {
+  VerifyCheckName,
+  VerifyCheckResult,
+  VerifyCommands,
+  VerifyRunOptions,
+} from '../types';
+
+/** Order in which configured checks run */
+export const VERIFY_CHECKS: VerifyCheckName[] = ['typecheck', 'lint', 'test'];
+
+const OUTPUT_TAIL_CHARS = 4000;
+
+/**
+ * Whether any check command is configured
+ */
+export function hasVerifyCommands(commands: VerifyCommands): boolean {
+  return VERIFY_CHECKS.some((name) => Boolean(commands[name]));
+}
+
+/**
+ * Run the configured checks in order. Returns the results of the checks
+ * that ran; stops early only when aborted.
+ */
+export async function runVerifyChecks(
+  commands: VerifyCommands,
+  options: VerifyRunOptions
+): Promise<VerifyCheckResult[]> {
+  const results: VerifyCheckResult[] = [];
+
+  for (const name of VERIFY_CHECKS) {
+    const command = commands[name];
+    if (!command) continue;
+    if (options.signal?.aborted) break;
+    results.push(await runCheck(name, command, options));
+  }
+
+  return results;
+}
+
+/**
+ * Run one check command through the shell, capturing the tail of its output
+ */
+export function runCheck(
+  name: VerifyCheckName,
+  command: string,
+  options: VerifyRunOptions
+): Promise<VerifyCheckResult> {
+  const { cwd, timeout, signal } = options;
+  const killGracePeriod = options.killGracePeriod ?? DEFAULT_KILL_GRACE_PERIOD;
+
+  return new Promise((resolve) => {
+    const child = spawn(command, {
+      cwd,
+      shell: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Own process group so test runners and their workers are killed with it
+      detached: true,
+      env: { ...process.env, CI: 'true' },
+    });
+
+    let output = '';
+    let timedOut = false;
+    const group = trackProcessGroup(child, killGracePeriod);
+
+    const append = (data: Buffer): void => {
+      output = (output + data.toString()).slice(-OUTPUT_TAIL_CHARS);
+    };
+
+    const onAbort = (): void => group.stop();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      group.stop();
+    }, timeout);
+
+    const finish = (exitCode: number | null, extra: string = ''): void => {
+      clearTimeout(timeoutId);
+      group.release();
+      signal?.removeEventListener('abort', onAbort);
+      resolve({
+        name,
+        command,
+        exitCode: group.stopped ? null : exitCode,
+        timedOut,
+        output: (output + extra).slice(-OUTPUT_TAIL_CHARS),
+      });
+    };
+
+    child.stdout.on('data', append);
+    child.stderr.on('data', append);
+    child.on('close', (code) => finish(code));
+    child.on('error', (err) => finish(null, `\n${err.message}`));
+  });
+}
+
+/**
+ * System prompt for verify_fixing: the failed checks and their output
+ */
+export function formatVerifyFailures(failures: VerifyCheckResult[]): string {
+  const sections = failures.map((check) => {
+    const status = check.timedOut
+      ? 'timed out'
+      : check.exitCode === null
+        ? 'could not be run'
+        : `exited with code ${check.exitCode}`;
+    return [
+      `### ${check.name}: \`${check.command}\` ${status}`,
+      '```',
+      check.output.trim() || '(no output)',
+      '```',
+    ].join('\n');
+  });
+
+  return [
+    'These local checks failed before submitting. Fix the code so they pass;',
+    'do not change the check commands or skip tests.',
+    '',
+    ...sections,
+  ].join('\n');
+}
+
+/**
+ * System prompt for rebasing: the configured checks to re-run on the
+ * rebased branch before force-pushing. Null when none are configured.
+ */
+export function formatRebaseChecks(commands: VerifyCommands): string | null {
+  const checks = VERIFY_CHECKS.filter((name) => commands[name]);
+  if (checks.length === 0) return null;
+
+  return [
+    'After rebasing, run these checks in the worktree and fix any failures before force-pushing:',
+    ...checks.map((name) => `- ${name}: \`${commands[name]}\``),
+  ].join('\n');
+}
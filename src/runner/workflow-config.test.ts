@@ -0,0 +1,213 @@
+/**
+ * Unit tests for workflow-config.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  loadWorkflowConfig,
+  mergeWorkflowConfig,
+  parseWorkflowConfig,
+} from './workflow-config';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('parseWorkflowConfig', () => {
+  test('accepts limits and per-phase settings', () => {
+    const config = parseWorkflowConfig({
+      maxCiAttempts: 12,
+      maxCommentAttempts: 20,
+      maxIterations: 120,
+      phaseTimeout: 1_800_000,
+      phaseTimeouts: { ci_resolution: 3_600_000 },
+      noSignalRetry: { implementing: { maxRetries: 4 } },
+    });
+
+    expect(config.maxCiAttempts).toBe(12);
+    expect(config.phaseTimeouts?.ci_resolution).toBe(3_600_000);
+    expect(config.noSignalRetry?.implementing?.maxRetries).toBe(4);
+  });
+
+  test('accepts shared and per-phase agent settings', () => {
+    const config = parseWorkflowConfig({
+      agent: { model: 'sonnet', permissionMode: 'acceptEdits' },
+      phaseAgents: {
+        ci_resolution: { allowedTools: ['Read', 'Bash(gh:*)'], maxTurns: 20 },
+      },
+    });
+
+    expect(config.agent?.permissionMode).toBe('acceptEdits');
+    expect(config.phaseAgents?.ci_resolution?.allowedTools).toEqual(['Read', 'Bash(gh:*)']);
+  });
+
+  test('accepts budgets', () => {
+    const config = parseWorkflowConfig({
+      budget: { maxCostUsd: 25, maxDurationMs: 8 * 3_600_000, maxInvocations: { ci_fixing: 6 } },
+    });
+
+    expect(config.budget?.maxCostUsd).toBe(25);
+    expect(config.budget?.maxInvocations?.ci_fixing).toBe(6);
+  });
+
+  test('accepts approval gates', () => {
+    const config = parseWorkflowConfig({ approvalGates: ['implementing', 'submitting'] });
+    expect(config.approvalGates).toEqual(['implementing', 'submitting']);
+  });
+
+  test('accepts a stuck-loop action', () => {
+    expect(parseWorkflowConfig({ stuckLoopAction: 'fail' }).stuckLoopAction).toBe('fail');
+    expect(() => parseWorkflowConfig({ stuckLoopAction: 'retry' })).toThrow(
+      'stuckLoopAction: Invalid enum value'
+    );
+  });
+
+  test('accepts local check commands', () => {
+    const config = parseWorkflowConfig({
+      maxVerifyAttempts: 2,
+      maxRebaseAttempts: 1,
+      verify: { typecheck: 'bun run typecheck', test: 'bun test' },
+    });
+
+    expect(config.maxVerifyAttempts).toBe(2);
+    expect(config.maxRebaseAttempts).toBe(1);
+    expect(config.verify).toEqual({ typecheck: 'bun run typecheck', test: 'bun test' });
+    expect(() => parseWorkflowConfig({ verify: { build: 'make' } })).toThrow(
+      "verify: Unrecognized key(s) in object: 'build'"
+    );
+  });
+
+  test('accepts merge and cleanup settings', () => {
+    const config = parseWorkflowConfig({ merge: true, mergeStrategy: 'rebase', cleanup: true });
+    expect(config).toEqual({ merge: true, mergeStrategy: 'rebase', cleanup: true });
+    expect(() => parseWorkflowConfig({ mergeStrategy: 'fast-forward' })).toThrow(
+      'mergeStrategy: Invalid enum value'
+    );
+  });
+
+  test('accepts stacked PRs', () => {
+    expect(parseWorkflowConfig({ stacked: true })).toEqual({ stacked: true });
+    expect(() => parseWorkflowConfig({ stacked: 'yes' })).toThrow('stacked');
+  });
+
+  test('rejects approval gates on other phases', () => {
+    expect(() => parseWorkflowConfig({ approvalGates: ['ci_fixing'] })).toThrow(
+      'approvalGates.0: Invalid enum value'
+    );
+  });
+
+  test('rejects unknown permission modes', () => {
+    expect(() =>
+      parseWorkflowConfig({ phaseAgents: { implementing: { permissionMode: 'yolo' } } })
+    ).toThrow('phaseAgents.implementing.permissionMode: Invalid enum value');
+  });
+
+  test('rejects unknown keys', () => {
+    expect(() => parseWorkflowConfig({ maxCIAttempts: 3 })).toThrow(
+      "Invalid workflow config: (root): Unrecognized key(s) in object: 'maxCIAttempts'"
+    );
+  });
+
+  test('rejects unknown phases', () => {
+    expect(() => parseWorkflowConfig({ phaseTimeouts: { deploy: 1000 } })).toThrow(
+      "phaseTimeouts: Unrecognized key(s) in object: 'deploy'"
+    );
+  });
+
+  test('rejects invalid values', () => {
+    expect(() => parseWorkflowConfig({ phaseTimeout: -1 }, 'config.json')).toThrow(
+      'Invalid config.json: phaseTimeout: Number must be greater than 0'
+    );
+  });
+});
+
+describe('loadWorkflowConfig', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'workflow-config-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test('returns an empty config when no file exists', async () => {
+    expect(await loadWorkflowConfig(testDir)).toEqual({});
+  });
+
+  test('loads workflow.config.json', async () => {
+    await writeFile(
+      join(testDir, 'workflow.config.json'),
+      JSON.stringify({ maxCiAttempts: 8 })
+    );
+
+    expect(await loadWorkflowConfig(testDir)).toEqual({ maxCiAttempts: 8 });
+  });
+
+  test('loads the default export of workflow.config.ts', async () => {
+    await writeFile(
+      join(testDir, 'workflow.config.ts'),
+      'export default { maxCommentAttempts: 3, phaseTimeouts: { setup: 60_000 } };\n'
+    );
+
+    expect(await loadWorkflowConfig(testDir)).toEqual({
+      maxCommentAttempts: 3,
+      phaseTimeouts: { setup: 60_000 },
+    });
+  });
+
+  test('prefers workflow.config.json over workflow.config.ts', async () => {
+    await writeFile(join(testDir, 'workflow.config.json'), '{"maxIterations": 10}');
+    await writeFile(join(testDir, 'workflow.config.ts'), 'export default { maxIterations: 20 };\n');
+
+    expect((await loadWorkflowConfig(testDir)).maxIterations).toBe(10);
+  });
+
+  test('requires an explicitly named file to exist', async () => {
+    await expect(loadWorkflowConfig(testDir, 'missing.json')).rejects.toThrow(
+      'Failed to load workflow config'
+    );
+  });
+
+  test('reports the file in validation errors', async () => {
+    const path = join(testDir, 'workflow.config.json');
+    await writeFile(path, JSON.stringify({ maxCiAttempts: 'many' }));
+
+    await expect(loadWorkflowConfig(testDir)).rejects.toThrow(
+      `Invalid workflow config ${path}: maxCiAttempts: Expected number, received string`
+    );
+  });
+});
+
+describe('mergeWorkflowConfig', () => {
+  test('overrides take precedence and undefined values are ignored', () => {
+    const merged = mergeWorkflowConfig(
+      { maxCiAttempts: 8, maxIterations: 100 },
+      { maxCiAttempts: 3, maxIterations: undefined }
+    );
+
+    expect(merged.maxCiAttempts).toBe(3);
+    expect(merged.maxIterations).toBe(100);
+  });
+
+  test('merges per-phase timeouts phase by phase', () => {
+    const merged = mergeWorkflowConfig(
+      { phaseTimeouts: { setup: 1000, ci_resolution: 2000 } },
+      { phaseTimeouts: { ci_resolution: 3000 } }
+    );
+
+    expect(merged.phaseTimeouts).toEqual({ setup: 1000, ci_resolution: 3000 });
+  });
+  test('merges budgets without clearing unset values', () => {
+    const merged = mergeWorkflowConfig(
+      { budget: { maxCostUsd: 20, maxInvocations: { ci_fixing: 5 } } },
+      { budget: { maxCostUsd: undefined, maxDurationMs: 3_600_000 } }
+    );
+
+    expect(merged.budget).toEqual({
+      maxCostUsd: 20,
+      maxDurationMs: 3_600_000,
+      maxInvocations: { ci_fixing: 5 },
+    });
+  });
+});
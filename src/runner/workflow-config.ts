@@ -0,0 +1,221 @@
+/**
+ * Loading and validation of `workflow.config.json` / `workflow.config.ts`
+ *
+ * The config sets retry limits, timeouts, budgets, approval gates, local
+ * check commands, merging, cleanup, stacked PRs and per-phase agent
+ * settings for a repository. Keys mirror the WorkflowRunner options so a loaded config
+ * can be passed straight in; CLI flags are merged on top with
+ * `mergeWorkflowConfig`.
+ */
+
+import { access, readFile } from 'node:fs/promises';
+import { isAbsolute, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { z } from 'zod';
+import type { WorkflowConfig } from '../types';
+
+export const CONFIG_FILENAMES = ['workflow.config.json', 'workflow.config.ts'];
+
+const PHASES = [
+  'setup',
+  'planning',
+  'implementing',
+  'verifying',
+  'verify_fixing',
+  'submitting',
+  'ci_resolution',
+  'ci_fixing',
+  'comment_resolution',
+  'comment_resolving',
+  'rebasing',
+  'merging',
+  'cleanup',
+] as const;
+
+const milliseconds = z.number().int().positive();
+const count = z.number().int().nonnegative();
+
+/**
+ * Per-phase record with every key optional; unknown phases are rejected
+ */
+function perPhase<T extends z.ZodTypeAny>(schema: T) {
+  return z
+    .object(Object.fromEntries(PHASES.map((phase) => [phase, schema.optional()])) as {
+      [K in (typeof PHASES)[number]]: z.ZodOptional<T>;
+    })
+    .strict();
+}
+
+const AgentSettingsSchema = z
+  .object({
+    model: z.string().min(1).optional(),
+    allowedTools: z.array(z.string().min(1)).optional(),
+    disallowedTools: z.array(z.string().min(1)).optional(),
+    permissionMode: z
+      .enum(['default', 'acceptEdits', 'bypassPermissions', 'plan'])
+      .optional(),
+    mcpConfig: z.string().min(1).optional(),
+    appendSystemPrompt: z.string().optional(),
+    maxTurns: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const BudgetSchema = z
+  .object({
+    maxCostUsd: z.number().positive().optional(),
+    maxDurationMs: milliseconds.optional(),
+    maxInvocations: perPhase(z.number().int().positive()).optional(),
+  })
+  .strict();
+
+const VerifyCommandsSchema = z
+  .object({
+    typecheck: z.string().min(1).optional(),
+    lint: z.string().min(1).optional(),
+    test: z.string().min(1).optional(),
+  })
+  .strict();
+
+export const WorkflowConfigSchema: z.ZodType<
+  WorkflowConfig,
+  z.ZodTypeDef,
+  unknown
+> = z
+  .object({
+    claudePath: z.string().min(1).optional(),
+    outputFormat: z.enum(['text', 'stream-json']).optional(),
+    maxIterations: z.number().int().positive().optional(),
+    maxVerifyAttempts: count.optional(),
+    maxCiAttempts: count.optional(),
+    maxCommentAttempts: count.optional(),
+    maxRebaseAttempts: count.optional(),
+    phaseTimeout: milliseconds.optional(),
+    phaseTimeouts: perPhase(milliseconds).optional(),
+    killGracePeriod: count.optional(),
+    noSignalRetry: perPhase(
+      z
+        .object({
+          maxRetries: count.optional(),
+          backoffMs: count.optional(),
+          backoffMultiplier: z.number().positive().optional(),
+          outputTailChars: count.optional(),
+        })
+        .strict()
+    ).optional(),
+    agent: AgentSettingsSchema.optional(),
+    phaseAgents: perPhase(AgentSettingsSchema).optional(),
+    budget: BudgetSchema.optional(),
+    approvalGates: z.array(z.enum(['implementing', 'submitting'])).optional(),
+    stuckLoopAction: z.enum(['escalate', 'fail', 'off']).optional(),
+    verify: VerifyCommandsSchema.optional(),
+    merge: z.boolean().optional(),
+    mergeStrategy: z.enum(['merge', 'squash', 'rebase']).optional(),
+    cleanup: z.boolean().optional(),
+    stacked: z.boolean().optional(),
+  })
+  .strict();
+
+/**
+ * Identity helper giving `workflow.config.ts` files type checking
+ */
+export function defineWorkflowConfig(config: WorkflowConfig): WorkflowConfig {
+  return config;
+}
+
+/**
+ * Validate raw config data, naming the source in error messages
+ */
+export function parseWorkflowConfig(
+  raw: unknown,
+  source: string = 'workflow config'
+): WorkflowConfig {
+  const result = WorkflowConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid ${source}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load the config file. With `configPath` that file must exist; otherwise
+ * the first of CONFIG_FILENAMES found in `basePath` is used, and an empty
+ * config is returned when there is none.
+ */
+export async function loadWorkflowConfig(
+  basePath: string = process.cwd(),
+  configPath?: string
+): Promise<WorkflowConfig> {
+  const path = configPath
+    ? isAbsolute(configPath)
+      ? configPath
+      : join(basePath, configPath)
+    : await findConfigFile(basePath);
+
+  if (!path) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = path.endsWith('.ts')
+      ? (await import(pathToFileURL(path).href)).default
+      : JSON.parse(await readFile(path, 'utf-8'));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    throw new Error(`Failed to load workflow config ${path}: ${message}`);
+  }
+
+  return parseWorkflowConfig(raw, `workflow config ${path}`);
+}
+
+/**
+ * Layer overrides (e.g. CLI flags) on a loaded config. Undefined values
+ * are ignored; nested objects and per-phase maps are merged key by key.
+ */
+export function mergeWorkflowConfig(
+  base: WorkflowConfig,
+  overrides: WorkflowConfig
+): WorkflowConfig {
+  return {
+    ...base,
+    ...withoutUndefined(overrides),
+    phaseTimeouts: merge(base.phaseTimeouts, overrides.phaseTimeouts),
+    noSignalRetry: merge(base.noSignalRetry, overrides.noSignalRetry),
+    agent: merge(base.agent, overrides.agent),
+    phaseAgents: merge(base.phaseAgents, overrides.phaseAgents),
+    verify: merge(base.verify, overrides.verify),
+    budget: {
+      ...merge(base.budget, overrides.budget),
+      maxInvocations: merge(
+        base.budget?.maxInvocations,
+        overrides.budget?.maxInvocations
+      ),
+    },
+  };
+}
+
+function merge<T extends object>(base: T | undefined, overrides: T | undefined): T {
+  return { ...base, ...withoutUndefined(overrides ?? {}) } as T;
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
+
+async function findConfigFile(basePath: string): Promise<string | null> {
+  for (const filename of CONFIG_FILENAMES) {
+    const path = join(basePath, filename);
+    try {
+      await access(path);
+      return path;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
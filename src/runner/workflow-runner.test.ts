@@ -0,0 +1,923 @@
+/**
+ * End-to-end tests for workflow-runner.ts using the scripted adapter
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { WorkflowRunner } from './workflow-runner';
+import { ProgressWriter } from './progress-writer';
+import { EventJournal } from './event-journal';
+import { ScriptedAdapter, type AgentScript } from '../adapters/scripted-adapter';
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+/**
+ * Structured signal tagged with the invocation nonce
+ */
+const signal = (name: string, payload?: Record<string, unknown>): string =>
+  `<signal name="${name}" nonce="{{nonce}}">${payload ? JSON.stringify(payload) : ''}</signal>`;
+
+const PLANS = [
+  { path: 'plans/workflow-1-auth.md', issueNumber: 42, title: 'Auth' },
+  { path: 'plans/workflow-2-login.md', issueNumber: 43, title: 'Login' },
+];
+
+const PR = { prNumber: 7, prUrl: 'https://github.com/org/repo/pull/7' };
+
+const createScript = (overrides: AgentScript = {}): AgentScript => ({
+  '/workflows:phase-setup': `Setup done.\n${signal('SETUP_COMPLETE', {
+    worktreePath: '/tmp/worktree',
+    branch: 'feat/test',
+  })}`,
+  '/workflows:phase-plan': signal('PLANNING_COMPLETE', { plans: PLANS }),
+  '/workflows:phase-impl plans/workflow-1-auth.md': signal('PLAN_COMPLETE', { planNumber: 1 }),
+  '/workflows:phase-impl plans/workflow-2-login.md': `${signal('PLAN_COMPLETE', {
+    planNumber: 2,
+  })}\n${signal('IMPLEMENTATION_COMPLETE')}`,
+  '/workflows:phase-submit': signal('PR_CREATED', PR),
+  '/workflows:phase-verify-ci': signal('CI_PASSED'),
+  '/workflows:phase-fix-ci': signal('CI_FIX_PUSHED'),
+  '/workflows:phase-resolve-comments': signal('COMMENTS_RESOLVED'),
+  ...overrides,
+});
+
+describe('WorkflowRunner', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'workflow-runner-test-'));
+    spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  const createRunner = (adapter: ScriptedAdapter, options = {}) =>
+    new WorkflowRunner({
+      adapter,
+      basePath: testDir,
+      noSignalRetry: { setup: { backoffMs: 0 } },
+      ...options,
+    });
+
+  test('runs the happy path from research file to completion', async () => {
+    const adapter = new ScriptedAdapter(createScript());
+    const result = await createRunner(adapter).run('research/test.md');
+
+    expect(result.success).toBe(true);
+    expect(result.finalPhase).toBe('completed');
+    expect(result.cancelled).toBe(false);
+    expect(result.context.prNumber).toBe(7);
+    expect(result.context.prUrl).toBe(PR.prUrl);
+    expect(result.context.plans.every((p) => p.completed)).toBe(true);
+    expect(adapter.commands).toEqual([
+      '/workflows:phase-setup',
+      '/workflows:phase-plan',
+      '/workflows:phase-impl',
+      '/workflows:phase-impl',
+      '/workflows:phase-submit',
+      '/workflows:phase-verify-ci',
+      '/workflows:phase-resolve-comments',
+    ]);
+    expect(adapter.calls[2].workingDirectory).toBe('/tmp/worktree');
+  });
+
+  test('persists progress and a replayable journal', async () => {
+    const adapter = new ScriptedAdapter(createScript());
+    const result = await createRunner(adapter).run('research/test.md');
+
+    const progress = await new ProgressWriter(testDir).read();
+    expect(progress?.currentPhase).toBe('completed');
+    expect(progress?.pr.number).toBe(7);
+
+    const rebuilt = await new EventJournal(testDir).rebuild();
+    expect(rebuilt.value).toBe('completed');
+    expect(rebuilt.context).toEqual(result.context);
+  });
+
+  test('fails once CI retries are exhausted', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-verify-ci': signal('CI_FAILED', { failureReason: 'test: flaky' }),
+      })
+    );
+    const result = await createRunner(adapter, { stuckLoopAction: 'off' }).run(
+      'research/test.md'
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.finalPhase).toBe('failed');
+    expect(result.context.error).toBe('CI failed after 5 attempts');
+    expect(result.context.ciAttempts).toBe(5);
+    expect(adapter.commands.filter((c) => c === '/workflows:phase-verify-ci')).toHaveLength(6);
+    expect(adapter.commands.filter((c) => c === '/workflows:phase-fix-ci')).toHaveLength(5);
+  });
+
+  test('loops through comment resolution until resolved', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-resolve-comments': [
+          signal('COMMENTS_PENDING', { pendingCount: 2 }),
+          signal('COMMENT_FIX_PUSHED'),
+          signal('COMMENTS_PENDING', { pendingCount: 1 }),
+          signal('COMMENT_FIX_PUSHED'),
+          signal('COMMENTS_RESOLVED'),
+        ],
+      })
+    );
+    const result = await createRunner(adapter).run('research/test.md');
+
+    expect(result.success).toBe(true);
+    expect(result.context.commentAttempts).toBe(2);
+    expect(
+      adapter.commands.filter((c) => c === '/workflows:phase-resolve-comments')
+    ).toHaveLength(5);
+  });
+
+  test('tracks each review comment and tells later iterations which are handled', async () => {
+    const comment = (id: number, action: string, fixCommit?: string) => ({
+      id,
+      author: 'alice',
+      file: 'src/auth.ts',
+      line: id,
+      category: 'actionable-clear',
+      action,
+      ...(fixCommit ? { fixCommit } : {}),
+    });
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-resolve-comments': [
+          signal('COMMENTS_PENDING', {
+            comments: [comment(11, 'fixed', 'abc1234'), comment(12, 'pending')],
+          }),
+          signal('COMMENT_FIX_PUSHED', { comments: [comment(12, 'fixed', 'def5678')] }),
+          signal('COMMENTS_RESOLVED'),
+        ],
+      })
+    );
+    const result = await createRunner(adapter).run('research/test.md');
+
+    expect(result.success).toBe(true);
+    expect(result.context.comments.map((c) => [c.id, c.fixCommit])).toEqual([
+      [11, 'abc1234'],
+      [12, 'def5678'],
+    ]);
+    const prompts = adapter.calls
+      .filter((call) => call.prompt.startsWith('/workflows:phase-resolve-comments'))
+      .map((call) => call.appendSystemPrompt ?? '');
+    expect(prompts[0]).not.toContain('handled in earlier iterations');
+    expect(prompts[1]).toContain('#11 @alice src/auth.ts:11 actionable-clear: fixed (abc1234)');
+    expect(prompts[2]).toContain('#12 @alice');
+
+    const progress = await new ProgressWriter(testDir).read();
+    expect(progress?.comments).toMatchObject({ total: 2, resolved: 2, pending: 0 });
+  });
+
+  test('rejects signals without the invocation nonce', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-setup':
+          '<phase>SETUP_COMPLETE</phase>\nworktree_path: /tmp/worktree\nbranch: feat/test',
+      })
+    );
+    const result = await createRunner(adapter, {
+      noSignalRetry: { setup: { maxRetries: 1, backoffMs: 0 } },
+    }).run('research/test.md');
+
+    expect(result.finalPhase).toBe('failed');
+    expect(result.context.error).toBe('No signal received from Setup after 2 attempts');
+  });
+
+  test('re-prompts with the previous output after a missing signal', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-setup': [
+          'Created the worktree but forgot the signal.',
+          signal('SETUP_COMPLETE', { worktreePath: '/tmp/worktree', branch: 'feat/test' }),
+        ],
+      })
+    );
+    const result = await createRunner(adapter).run('research/test.md');
+
+    expect(result.success).toBe(true);
+    expect(adapter.calls[0].appendSystemPrompt).not.toContain('previous run');
+    expect(adapter.calls[1].appendSystemPrompt).toContain(
+      'Created the worktree but forgot the signal.'
+    );
+  });
+
+  test('retries an invalid signal payload with the validation error', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-setup': [
+          signal('SETUP_COMPLETE', { worktreePath: '/tmp/worktree' }),
+          signal('SETUP_COMPLETE', { worktreePath: '/tmp/worktree', branch: 'feat/test' }),
+        ],
+      })
+    );
+    const result = await createRunner(adapter).run('research/test.md');
+
+    expect(result.success).toBe(true);
+    expect(adapter.calls[1].appendSystemPrompt).toContain(
+      '- Invalid SETUP_COMPLETE signal payload: branch: Required'
+    );
+  });
+
+  test('fails with the validation error once invalid signal retries run out', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-setup': signal('SETUP_COMPLETE', { worktreePath: '/tmp/worktree' }),
+      })
+    );
+    const result = await createRunner(adapter).run('research/test.md');
+
+    expect(result.finalPhase).toBe('failed');
+    expect(result.context.error).toBe('Invalid SETUP_COMPLETE signal payload: branch: Required');
+    expect(adapter.commands).toHaveLength(3);
+  });
+
+  test('fails the phase when the agent errors', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({ '/workflows:phase-plan': { error: 'spawn claude ENOENT' } })
+    );
+    const result = await createRunner(adapter).run('research/test.md');
+
+    expect(result.finalPhase).toBe('failed');
+    expect(result.context.error).toBe('spawn claude ENOENT');
+  });
+
+  test('fails the phase when the CLI reports an error without a signal', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-plan': { output: 'Reached max turns', isError: true, exitCode: 1 },
+      })
+    );
+    const result = await createRunner(adapter).run('research/test.md');
+
+    expect(result.finalPhase).toBe('failed');
+    expect(result.context.error).toBe('Claude CLI reported an error (exit code 1)');
+    expect(adapter.commands.filter((c) => c === '/workflows:phase-plan')).toHaveLength(1);
+  });
+
+  test('applies signals from a run that exited non-zero', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-submit': { output: signal('PR_CREATED', PR), exitCode: 2 },
+      })
+    );
+    const result = await createRunner(adapter).run('research/test.md');
+
+    expect(result.success).toBe(true);
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringContaining('Claude CLI exited with code 2')
+    );
+  });
+
+  test('fails the phase on timeout', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({ '/workflows:phase-submit': { output: 'pushing...', timeout: true } })
+    );
+    const result = await createRunner(adapter, { phaseTimeout: 1000 }).run('research/test.md');
+
+    expect(result.finalPhase).toBe('failed');
+    expect(result.context.error).toBe('Claude CLI timed out after 1000ms');
+  });
+
+  test('resumes in the saved phase without repeating setup', async () => {
+    const failing = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-verify-ci': signal('CI_FAILED', { failureReason: 'lint' }),
+        '/workflows:phase-fix-ci': { output: 'working...', delayMs: 5000 },
+      })
+    );
+    const runner = createRunner(failing);
+    const pending = runner.run('research/test.md');
+    // Cancel once the runner is waiting on the first CI fix
+    while (!failing.commands.includes('/workflows:phase-fix-ci')) {
+      await Bun.sleep(5);
+    }
+    runner.cancel();
+    const cancelled = await pending;
+    expect(cancelled.cancelled).toBe(true);
+    expect(cancelled.finalPhase).toBe('ci_fixing');
+
+    const adapter = new ScriptedAdapter(createScript());
+    const result = await createRunner(adapter).resume();
+
+    expect(result.success).toBe(true);
+    expect(result.context.ciAttempts).toBe(1);
+    expect(adapter.commands[0]).toBe('/workflows:phase-fix-ci');
+    expect(adapter.commands).not.toContain('/workflows:phase-setup');
+  });
+
+  test('applies configured limits and per-phase timeouts', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-verify-ci': signal('CI_FAILED', { failureReason: 'test: slow' }),
+      })
+    );
+    const result = await createRunner(adapter, {
+      maxCiAttempts: 2,
+      stuckLoopAction: 'off',
+      phaseTimeout: 60_000,
+      phaseTimeouts: { ci_resolution: 120_000 },
+    }).run('research/test.md');
+
+    expect(result.context.error).toBe('CI failed after 2 attempts');
+    expect(result.context.limits.maxCiAttempts).toBe(2);
+    expect(adapter.calls[0].timeout).toBe(60_000);
+    expect(
+      adapter.calls.find((c) => c.prompt.startsWith('/workflows:phase-verify-ci'))?.timeout
+    ).toBe(120_000);
+  });
+
+  test('passes shared and per-phase agent settings to the adapter', async () => {
+    const adapter = new ScriptedAdapter(createScript());
+    await createRunner(adapter, {
+      agent: { model: 'sonnet', permissionMode: 'acceptEdits' },
+      phaseAgents: {
+        ci_resolution: {
+          allowedTools: ['Read', 'Bash(gh:*)'],
+          appendSystemPrompt: 'Only inspect CI; do not edit files.',
+        },
+      },
+    }).run('research/test.md');
+
+    const setup = adapter.calls[0];
+    expect(setup.model).toBe('sonnet');
+    expect(setup.allowedTools).toBeUndefined();
+
+    const verify = adapter.calls.find((c) => c.prompt.startsWith('/workflows:phase-verify-ci'));
+    expect(verify?.model).toBe('sonnet');
+    expect(verify?.permissionMode).toBe('acceptEdits');
+    expect(verify?.allowedTools).toEqual(['Read', 'Bash(gh:*)']);
+    // Phase instructions come first, then the runner's nonce instructions
+    expect(verify?.appendSystemPrompt).toStartWith('Only inspect CI; do not edit files.\n\n');
+    expect(verify?.appendSystemPrompt).toContain('Signal nonce for this invocation');
+  });
+
+  test('accounts tokens and cost per phase', async () => {
+    const usage = {
+      inputTokens: 1000,
+      outputTokens: 200,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 5000,
+    };
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-verify-ci': [
+          { output: signal('CI_FAILED', { failureReason: 'lint' }), usage, costUsd: 0.1 },
+          { output: signal('CI_PASSED'), usage, costUsd: 0.1 },
+        ],
+        '/workflows:phase-fix-ci': { output: signal('CI_FIX_PUSHED'), usage, costUsd: 0.6 },
+        '/workflows:phase-submit': { output: 'pushing...', timeout: true },
+      })
+    );
+    const failed = await createRunner(adapter).run('research/test.md');
+
+    // The timed-out submit counts as an invocation without usage
+    expect(failed.usage.phases.submitting).toMatchObject({ invocations: 1, costUsd: 0 });
+    expect(failed.usage.total.invocations).toBe(5);
+
+    const passing = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-verify-ci': [
+          { output: signal('CI_FAILED', { failureReason: 'lint' }), usage, costUsd: 0.1 },
+          { output: signal('CI_PASSED'), usage, costUsd: 0.1 },
+        ],
+        '/workflows:phase-fix-ci': { output: signal('CI_FIX_PUSHED'), usage, costUsd: 0.6 },
+      })
+    );
+    const result = await createRunner(passing).run('research/test.md');
+
+    expect(result.usage).toEqual(result.context.usage);
+    expect(result.usage.total.invocations).toBe(9);
+    expect(result.usage.total.costUsd).toBeCloseTo(0.8);
+    expect(result.usage.total.inputTokens).toBe(3000);
+    expect(result.usage.phases.ci_resolution).toMatchObject({ invocations: 2, outputTokens: 400 });
+    expect(result.usage.phases.ci_fixing?.costUsd).toBeCloseTo(0.6);
+
+    const progress = await new ProgressWriter(testDir).read();
+    expect(progress?.usage).toEqual(result.usage);
+  });
+
+  test('pauses when a budget runs out and resumes once it is raised', async () => {
+    const script = createScript({
+      '/workflows:phase-verify-ci': [
+        signal('CI_FAILED', { failureReason: 'lint' }),
+        signal('CI_PASSED'),
+      ],
+    });
+    const adapter = new ScriptedAdapter(script);
+    const paused = await createRunner(adapter, {
+      budget: { maxInvocations: { ci_resolution: 1 } },
+    }).run('research/test.md');
+
+    expect(paused.success).toBe(false);
+    expect(paused.finalPhase).toBe('budget_exceeded');
+    expect(paused.context.error).toBeNull();
+    expect(paused.context.pause).toEqual({
+      phase: 'ci_resolution',
+      reason: 'Invocation budget exceeded for ci_resolution: 1 of 1',
+    });
+
+    const progress = await new ProgressWriter(testDir).read();
+    expect(progress?.currentPhase).toBe('budget_exceeded');
+    expect(progress?.pause?.phase).toBe('ci_resolution');
+
+    // Same budget: still exceeded, nothing runs
+    const blocked = new ScriptedAdapter(script);
+    await expect(
+      createRunner(blocked, { budget: { maxInvocations: { ci_resolution: 1 } } }).resume()
+    ).rejects.toThrow('Invocation budget exceeded for ci_resolution: 1 of 1. Raise the budget');
+    expect(blocked.calls).toHaveLength(0);
+
+    const resumed = new ScriptedAdapter({
+      ...script,
+      '/workflows:phase-verify-ci': signal('CI_PASSED'),
+    });
+    const result = await createRunner(resumed, {
+      budget: { maxInvocations: { ci_resolution: 3 } },
+    }).resume();
+
+    expect(result.success).toBe(true);
+    expect(result.context.pause).toBeNull();
+    expect(resumed.commands[0]).toBe('/workflows:phase-verify-ci');
+    expect(result.usage.phases.ci_resolution?.invocations).toBe(2);
+
+    const rebuilt = await new EventJournal(testDir).rebuild();
+    expect(rebuilt.value).toBe('completed');
+  });
+
+  test('pauses once the cost budget is spent', async () => {
+    const usage = {
+      inputTokens: 100,
+      outputTokens: 10,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    };
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-plan': {
+          output: signal('PLANNING_COMPLETE', { plans: PLANS }),
+          usage,
+          costUsd: 3,
+        },
+      })
+    );
+    const result = await createRunner(adapter, { budget: { maxCostUsd: 2 } }).run(
+      'research/test.md'
+    );
+
+    expect(result.finalPhase).toBe('budget_exceeded');
+    expect(result.context.pause?.phase).toBe('implementing');
+    expect(adapter.commands).toEqual(['/workflows:phase-setup', '/workflows:phase-plan']);
+  });
+
+  test('runs local checks in the worktree and fixes failures before submitting', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-setup': signal('SETUP_COMPLETE', {
+          worktreePath: testDir,
+          branch: 'feat/test',
+        }),
+        '/workflows:phase-fix-checks': signal('VERIFY_FIXED'),
+      })
+    );
+    const result = await createRunner(adapter, {
+      verify: {
+        typecheck: 'true',
+        // Fails on the first run only
+        test: 'test -f .fixed || { touch .fixed; echo "auth.test.ts: 1 fail"; exit 1; }',
+      },
+    }).run('research/test.md');
+
+    expect(result.success).toBe(true);
+    expect(result.context.verifyAttempts).toBe(1);
+    expect(adapter.commands).toEqual([
+      '/workflows:phase-setup',
+      '/workflows:phase-plan',
+      '/workflows:phase-impl',
+      '/workflows:phase-impl',
+      '/workflows:phase-fix-checks',
+      '/workflows:phase-submit',
+      '/workflows:phase-verify-ci',
+      '/workflows:phase-resolve-comments',
+    ]);
+    expect(adapter.calls[4].appendSystemPrompt).toContain('auth.test.ts: 1 fail');
+    expect(result.context.signals.map((s) => s.signal)).toContain('VERIFY_FAILED');
+    // Local checks add running time but are not agent invocations
+    expect(result.context.usage.total.invocations).toBe(adapter.calls.length);
+    expect(result.context.usage.phases.verifying?.invocations).toBe(0);
+
+    const rebuilt = await new EventJournal(testDir).rebuild();
+    expect(rebuilt.context).toEqual(result.context);
+  });
+
+  test('rebases a conflicting PR with the configured checks in the prompt', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-setup': signal('SETUP_COMPLETE', {
+          worktreePath: testDir,
+          branch: 'feat/test',
+        }),
+        '/workflows:phase-verify-ci': [
+          signal('CI_PASSED', { baseStatus: 'conflicting' }),
+          signal('CI_PASSED', { baseStatus: 'up_to_date' }),
+        ],
+        '/workflows:phase-rebase': signal('REBASE_PUSHED', { commitSha: 'ccc333' }),
+      })
+    );
+    const result = await createRunner(adapter, { verify: { test: 'true' } }).run(
+      'research/test.md'
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.context.rebaseAttempts).toBe(1);
+    expect(adapter.commands.slice(-4)).toEqual([
+      '/workflows:phase-verify-ci',
+      '/workflows:phase-rebase',
+      '/workflows:phase-verify-ci',
+      '/workflows:phase-resolve-comments',
+    ]);
+    const rebase = adapter.calls.find((call) => call.prompt.startsWith('/workflows:phase-rebase'));
+    expect(rebase?.prompt).toBe('/workflows:phase-rebase 7');
+    expect(rebase?.appendSystemPrompt).toContain('- test: `true`');
+  });
+
+  test('merges the PR and cleans up from the main checkout when enabled', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-merge': signal('PR_MERGED', { mergeCommit: '9f2c1e7' }),
+        '/workflows:phase-cleanup': signal('CLEANUP_COMPLETE', { closedIssues: [42, 43] }),
+      })
+    );
+    const result = await createRunner(adapter, {
+      merge: true,
+      mergeStrategy: 'rebase',
+      cleanup: true,
+    }).run('research/test.md');
+
+    expect(result.success).toBe(true);
+    expect(adapter.commands.slice(-3)).toEqual([
+      '/workflows:phase-resolve-comments',
+      '/workflows:phase-merge',
+      '/workflows:phase-cleanup',
+    ]);
+    const [merge, cleanup] = adapter.calls.slice(-2);
+    expect(merge.prompt).toBe('/workflows:phase-merge 7 rebase');
+    expect(merge.workingDirectory).toBe('/tmp/worktree');
+    expect(cleanup.prompt).toBe('/workflows:phase-cleanup /tmp/worktree feat/test #42 #43');
+    expect(cleanup.workingDirectory).toBeUndefined();
+  });
+
+  test('only removes the worktree when cleaning up without a merge', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({ '/workflows:phase-cleanup': signal('CLEANUP_COMPLETE') })
+    );
+    const result = await createRunner(adapter, { cleanup: true }).run('research/test.md');
+
+    expect(result.success).toBe(true);
+    expect(adapter.commands.slice(-2)).toEqual([
+      '/workflows:phase-resolve-comments',
+      '/workflows:phase-cleanup',
+    ]);
+    // No branch to delete and no issues to close while the PR is open
+    expect(adapter.calls.at(-1)?.prompt).toBe('/workflows:phase-cleanup /tmp/worktree');
+  });
+
+  test('opens one stacked PR per plan and reviews each before the next plan', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-submit': [
+          signal('PR_CREATED', { prNumber: 101, prUrl: 'https://github.com/org/repo/pull/101' }),
+          signal('PR_CREATED', { prNumber: 102, prUrl: 'https://github.com/org/repo/pull/102' }),
+        ],
+      })
+    );
+    const result = await createRunner(adapter, { stacked: true }).run('research/test.md');
+
+    expect(result.success).toBe(true);
+    expect(adapter.commands.slice(2)).toEqual([
+      '/workflows:phase-impl',
+      '/workflows:phase-submit',
+      '/workflows:phase-verify-ci',
+      '/workflows:phase-resolve-comments',
+      '/workflows:phase-impl',
+      '/workflows:phase-submit',
+      '/workflows:phase-verify-ci',
+      '/workflows:phase-resolve-comments',
+    ]);
+    const submits = adapter.calls.filter((call) => call.prompt.startsWith('/workflows:phase-submit'));
+    expect(submits.map((call) => call.prompt)).toEqual([
+      '/workflows:phase-submit plans/workflow-1-auth.md feat/test #42',
+      '/workflows:phase-submit plans/workflow-2-login.md feat/test-plan-2 feat/test #43',
+    ]);
+    expect(adapter.calls[8].prompt).toBe('/workflows:phase-verify-ci 102');
+    expect(result.context.plans.map((p) => [p.pr?.number, p.pr?.ciStatus])).toEqual([
+      [101, 'passing'],
+      [102, 'passing'],
+    ]);
+
+    const progress = await new ProgressWriter(testDir).read();
+    expect(progress?.plans.list[1].pr?.ciStatus).toBe('passing');
+  });
+
+  // Runs until the comment phase escalates, leaving a workflow to resume
+  const escalateAtComments = (options = {}) =>
+    createRunner(
+      new ScriptedAdapter(
+        createScript({
+          '/workflows:phase-resolve-comments': signal('NEEDS_HUMAN', { reason: 'Unclear' }),
+        })
+      ),
+      options
+    ).run('research/test.md');
+
+  test('resumes with the limits and approval gates the run started with', async () => {
+    await escalateAtComments({ maxCiAttempts: 10, stuckLoopAction: 'fail' });
+
+    await expect(
+      createRunner(new ScriptedAdapter(createScript()), { verify: { test: 'true' } }).resume()
+    ).rejects.toThrow('Workflow was started with different settings: verify (started off)');
+
+    // Limits given on resume still take precedence over the saved ones
+    const result = await createRunner(new ScriptedAdapter(createScript()), {
+      maxCommentAttempts: 4,
+    }).resume('Go ahead');
+
+    expect(result.success).toBe(true);
+    expect(result.context.limits).toEqual({
+      maxVerifyAttempts: 3,
+      maxCiAttempts: 10,
+      maxCommentAttempts: 4,
+      maxRebaseAttempts: 3,
+      stuckLoopAction: 'fail',
+    });
+  });
+
+  test('resumes with the merge strategy the run started with', async () => {
+    await escalateAtComments({ merge: true, mergeStrategy: 'rebase' });
+
+    await expect(
+      createRunner(new ScriptedAdapter(createScript()), {
+        merge: true,
+        mergeStrategy: 'squash',
+      }).resume()
+    ).rejects.toThrow('Workflow was started with different settings: mergeStrategy (started with rebase)');
+
+    const adapter = new ScriptedAdapter(
+      createScript({ '/workflows:phase-merge': signal('PR_MERGED', { mergeCommit: '9f2c1e7' }) })
+    );
+    const result = await createRunner(adapter).resume('Go ahead');
+
+    expect(result.success).toBe(true);
+    expect(adapter.calls.at(-1)?.prompt).toBe('/workflows:phase-merge 7 rebase');
+  });
+
+  test('resumes with cleanup when the run started with it', async () => {
+    await escalateAtComments({ cleanup: true });
+
+    await expect(
+      createRunner(new ScriptedAdapter(createScript()), { cleanup: false }).resume()
+    ).rejects.toThrow('Workflow was started with different settings: cleanup (started on)');
+
+    const adapter = new ScriptedAdapter(
+      createScript({ '/workflows:phase-cleanup': signal('CLEANUP_COMPLETE') })
+    );
+    const result = await createRunner(adapter).resume('Go ahead');
+
+    expect(result.success).toBe(true);
+    expect(adapter.commands.at(-1)).toBe('/workflows:phase-cleanup');
+  });
+
+  test('resumes a stacked run as stacked', async () => {
+    await escalateAtComments({ stacked: true });
+
+    await expect(
+      createRunner(new ScriptedAdapter(createScript()), { stacked: false }).resume()
+    ).rejects.toThrow('Workflow was started with different settings: stacked (started on)');
+
+    const adapter = new ScriptedAdapter(createScript());
+    const result = await createRunner(adapter).resume('Go ahead');
+
+    expect(result.success).toBe(true);
+    // The second plan still gets its own PR
+    expect(adapter.commands).toEqual([
+      '/workflows:phase-resolve-comments',
+      '/workflows:phase-impl',
+      '/workflows:phase-submit',
+      '/workflows:phase-verify-ci',
+      '/workflows:phase-resolve-comments',
+    ]);
+    expect(result.context.plans[1].pr?.branch).toBe('feat/test-plan-2');
+  });
+
+  test('repairs a torn journal entry before resuming', async () => {
+    await escalateAtComments();
+    const path = join(testDir, '.workflow-events.jsonl');
+    await appendFile(path, '{"event":{"type":"CI_PA', 'utf-8');
+
+    const log = spyOn(console, 'log').mockImplementation(() => {});
+    const result = await createRunner(new ScriptedAdapter(createScript())).resume('Go ahead');
+
+    expect(result.success).toBe(true);
+    expect(log.mock.calls.flat().join('\n')).toContain(
+      'Dropped incomplete last journal entry: {"event":{"type":"CI_PA'
+    );
+    expect((await new EventJournal(testDir).rebuild()).value).toBe('completed');
+  });
+
+  test('refuses to merge stacked PRs', () => {
+    const adapter = new ScriptedAdapter(createScript());
+    expect(() => createRunner(adapter, { stacked: true, merge: true })).toThrow(
+      'merge cannot be combined with stacked PRs'
+    );
+  });
+
+  test('waits for approval of the plans and continues once approved', async () => {
+    const adapter = new ScriptedAdapter(createScript());
+    const waiting = await createRunner(adapter, { approvalGates: ['implementing'] }).run(
+      'research/test.md'
+    );
+
+    expect(waiting.success).toBe(false);
+    expect(waiting.finalPhase).toBe('awaiting_approval');
+    expect(waiting.context.approval?.phase).toBe('implementing');
+    expect(adapter.commands).toEqual(['/workflows:phase-setup', '/workflows:phase-plan']);
+
+    const progress = await new ProgressWriter(testDir).read();
+    expect(progress?.currentPhase).toBe('awaiting_approval');
+    expect(progress?.approval?.phase).toBe('implementing');
+
+    const gated = createRunner(new ScriptedAdapter(createScript()), {
+      approvalGates: ['implementing'],
+    });
+    await expect(gated.resume()).rejects.toThrow('Workflow is awaiting approval before implementing');
+
+    const approved = new ScriptedAdapter(createScript());
+    const result = await createRunner(approved, { approvalGates: ['implementing'] }).approve();
+
+    expect(result.success).toBe(true);
+    expect(approved.commands[0]).toBe('/workflows:phase-impl');
+
+    const rebuilt = await new EventJournal(testDir).rebuild();
+    expect(rebuilt.value).toBe('completed');
+  });
+
+  test('fails with the reason when the PR is rejected', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-impl plans/workflow-2-login.md': `${signal('PLAN_COMPLETE', {
+          planNumber: 2,
+        })}\n${signal('IMPLEMENTATION_COMPLETE', {
+          prTitle: 'Add auth and login',
+          diffSummary: '4 files changed, 120 insertions(+)',
+        })}`,
+      })
+    );
+    const waiting = await createRunner(adapter, { approvalGates: ['submitting'] }).run(
+      'research/test.md'
+    );
+
+    expect(waiting.finalPhase).toBe('awaiting_approval');
+    expect(waiting.context.approval?.prTitle).toBe('Add auth and login');
+
+    const rejectedAdapter = new ScriptedAdapter(createScript());
+    const result = await createRunner(rejectedAdapter).reject('Missing tests');
+
+    expect(result.finalPhase).toBe('failed');
+    expect(result.context.error).toBe('Rejected before submitting: Missing tests');
+    expect(rejectedAdapter.calls).toHaveLength(0);
+    await expect(createRunner(rejectedAdapter).approve()).rejects.toThrow(
+      'Workflow cannot be resumed from phase: failed'
+    );
+  });
+
+  test('waits for a human and resumes the escalated phase with the answer', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-resolve-comments': [
+          signal('COMMENTS_PENDING', { pendingCount: 2 }),
+          signal('COMMENT_FIX_PUSHED'),
+          signal('NEEDS_HUMAN', {
+            reason: 'Reviewer asks for a different storage backend',
+            commentIds: [1201],
+          }),
+        ],
+      })
+    );
+    const waiting = await createRunner(adapter, { maxCommentAttempts: 2 }).run(
+      'research/test.md'
+    );
+
+    expect(waiting.success).toBe(false);
+    expect(waiting.finalPhase).toBe('needs_human');
+    expect(waiting.context.error).toBeNull();
+    expect(waiting.context.commentAttempts).toBe(1);
+    expect(waiting.context.escalation).toMatchObject({
+      phase: 'comment_resolution',
+      reason: 'Reviewer asks for a different storage backend',
+      commentIds: [1201],
+      checks: [],
+    });
+
+    const progress = await new ProgressWriter(testDir).read();
+    expect(progress?.escalation?.commentIds).toEqual([1201]);
+
+    const resumed = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-resolve-comments': [
+          signal('COMMENTS_PENDING', { pendingCount: 1 }),
+          signal('COMMENT_FIX_PUSHED'),
+          signal('COMMENTS_RESOLVED'),
+        ],
+      })
+    );
+    const result = await createRunner(resumed, { maxCommentAttempts: 2 }).resume(
+      'Keep the current backend and reply with the benchmark'
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.context.escalation).toBeNull();
+    expect(result.context.commentAttempts).toBe(2);
+    expect(resumed.commands[0]).toBe('/workflows:phase-resolve-comments');
+    expect(resumed.calls[0].appendSystemPrompt).toContain(
+      'The human answered:\nKeep the current backend and reply with the benchmark'
+    );
+    expect(resumed.calls[1].appendSystemPrompt).not.toContain('The human answered');
+
+    const rebuilt = await new EventJournal(testDir).rebuild();
+    expect(rebuilt.value).toBe('completed');
+  });
+
+  test('keeps the answer for retries of the escalated phase', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-resolve-comments': signal('NEEDS_HUMAN', {
+          reason: 'Reviewer asks for a different storage backend',
+          commentIds: [1201],
+        }),
+      })
+    );
+    await createRunner(adapter).run('research/test.md');
+
+    const resumed = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-resolve-comments': [
+          'Read the thread, but ran out of turns.',
+          signal('COMMENTS_RESOLVED'),
+        ],
+      })
+    );
+    const result = await createRunner(resumed, {
+      noSignalRetry: { comment_resolution: { backoffMs: 0 } },
+    }).resume('Keep the current backend');
+
+    expect(result.success).toBe(true);
+    expect(resumed.commands).toEqual([
+      '/workflows:phase-resolve-comments',
+      '/workflows:phase-resolve-comments',
+    ]);
+    expect(resumed.calls[1].appendSystemPrompt).toContain(
+      'The human answered:\nKeep the current backend'
+    );
+    expect(resumed.calls[1].appendSystemPrompt).toContain('retry 1 of 2');
+    expect(result.context.escalation).toBeNull();
+  });
+
+  test('escalates a CI failure that survives a fix instead of retrying', async () => {
+    const adapter = new ScriptedAdapter(
+      createScript({
+        '/workflows:phase-verify-ci': signal('CI_FAILED', {
+          failureReason: 'e2e: login times out after 30.1s',
+          checks: ['e2e'],
+        }),
+      })
+    );
+    const result = await createRunner(adapter).run('research/test.md');
+
+    expect(result.finalPhase).toBe('needs_human');
+    expect(result.context.ciAttempts).toBe(1);
+    expect(result.context.escalation).toMatchObject({
+      phase: 'ci_fixing',
+      reason:
+        'Stuck CI loop: the same failure came back after a fix (e2e: login times out after 30.1s)',
+      checks: ['e2e'],
+    });
+    expect(adapter.commands.filter((c) => c === '/workflows:phase-fix-ci')).toHaveLength(1);
+
+    const progress = await new ProgressWriter(testDir).read();
+    expect(progress?.loops.ciFailures).toHaveLength(1);
+  });
+
+  test('refuses to approve when nothing is pending', async () => {
+    const adapter = new ScriptedAdapter(createScript());
+    await createRunner(adapter, { budget: { maxCostUsd: 0 } }).run('research/test.md');
+
+    await expect(createRunner(adapter).approve()).rejects.toThrow(
+      'No approval pending; workflow is in phase: budget_exceeded'
+    );
+  });
+});
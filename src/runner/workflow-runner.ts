@@ -5,10 +5,44 @@
  * spawning fresh Claude CLI subprocesses for each phase.
  */
 
-import { createActor } from 'xstate';
-import { ClaudeCLIAdapter } from '../adapters/claude-cli-adapter';
-import { ProgressWriter } from './progress-writer';
-import { parseSignals, extractSignalData } from './signal-parser';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { createActor, type Actor } from 'xstate';
+import {
+  ClaudeCLIAdapter,
+  ClaudeRunError,
+} from '../adapters/claude-cli-adapter';
+import {
+  RecordingAdapter,
+  ReplayMismatchError,
+} from '../adapters/recording-adapter';
+import { ProgressWriter, toWorkflowContext } from './progress-writer';
+import { EventJournal, hashOutput } from './event-journal';
+import {
+  parseAllPhaseSignals,
+  resolveSignalConflicts,
+  createSignalNonce,
+  formatNonceInstructions,
+  verifySignalNonce,
+} from './signal-parser';
+import {
+  resolveNoSignalPolicy,
+  getRetryDelay,
+  formatNoSignalPrompt,
+} from './retry-policy';
+import { resolveAgentSettings } from './agent-settings';
+import { checkBudget } from './budget';
+import { formatApprovalSummary } from './approval-summary';
+import { formatHandledComments } from './comment-report';
+import {
+  hasVerifyCommands,
+  runVerifyChecks,
+  formatVerifyFailures,
+  formatRebaseChecks,
+} from './verify-checks';
+import {
+  formatEscalationSummary,
+  formatHumanAnswerPrompt,
+} from './escalation';
 import {
   mapPhaseToCommand,
   formatCommand,
@@ -21,37 +55,141 @@ import {
   getCurrentPhase,
   isTerminal,
   isSuccess,
+  isPaused,
+  isAwaitingApproval,
+  isEscalated,
+  DEFAULT_WORKFLOW_LIMITS,
 } from '../workflows/main.workflow';
 import type {
-  WorkflowResult,
+  AgentAdapter,
+  ApprovalGate,
+  AgentSettings,
+  ClaudeOutputFormat,
+  ClaudeRunResult,
+  ClaudeUsage,
+  MergeStrategy,
+  NoSignalRetryConfig,
+  ProgressFileData,
+  VerifyCommands,
+  WorkflowApproval,
+  WorkflowBudget,
+  WorkflowConfig,
   WorkflowContext,
+  WorkflowLimits,
+  WorkflowResult,
   WorkflowPhase,
   WorkflowEvent,
 } from '../types';
 
 const MAX_ITERATIONS = 50;
 const PHASE_TIMEOUT = 15 * 60 * 1000; // 15 minutes per phase
-
-interface RunnerOptions {
-  claudePath?: string;
-  maxIterations?: number;
-  phaseTimeout?: number;
+const MERGE_STRATEGY: MergeStrategy = 'squash';
+
+interface RunnerOptions extends WorkflowConfig {
+  /** Agent backend; defaults to the Claude CLI at `claudePath` */
+  adapter?: AgentAdapter;
+  /** Directory for the progress file and event journal; defaults to cwd */
+  basePath?: string;
+  /** Save every agent invocation as a replayable fixture in this directory */
+  recordDir?: string;
   verbose?: boolean;
+  requireSignalNonce?: boolean;
 }
 
 export class WorkflowRunner {
-  private claude: ClaudeCLIAdapter;
+  private adapter: AgentAdapter;
   private progressWriter: ProgressWriter;
+  private journal: EventJournal;
   private maxIterations: number;
   private phaseTimeout: number;
+  private phaseTimeouts: Partial<Record<WorkflowPhase, number>>;
+  private killGracePeriod: number | undefined;
+  private limits: WorkflowLimits;
+  private agent: AgentSettings;
+  private phaseAgents: Partial<Record<WorkflowPhase, AgentSettings>>;
+  private budget: WorkflowBudget;
+  private approvalGates: ApprovalGate[];
+  private verify: VerifyCommands;
+  private mergeStrategy: MergeStrategy | null;
+  private cleanup: boolean;
+  private stacked: boolean;
+  // Run settings as given, to apply or check them against the saved ones
+  // on resume
+  private settingOptions: Pick<
+    RunnerOptions,
+    | 'maxVerifyAttempts'
+    | 'maxCiAttempts'
+    | 'maxCommentAttempts'
+    | 'maxRebaseAttempts'
+    | 'stuckLoopAction'
+    | 'approvalGates'
+    | 'merge'
+    | 'mergeStrategy'
+    | 'cleanup'
+    | 'stacked'
+  >;
   private verbose: boolean;
+  private requireSignalNonce: boolean;
+  private noSignalRetry: NoSignalRetryConfig;
+  private outputFormat: ClaudeOutputFormat;
+  private abortController: AbortController | null = null;
 
   constructor(options: RunnerOptions = {}) {
-    this.claude = new ClaudeCLIAdapter(options.claudePath);
-    this.progressWriter = new ProgressWriter();
+    const adapter = options.adapter ?? new ClaudeCLIAdapter(options.claudePath);
+    this.adapter = options.recordDir
+      ? new RecordingAdapter(adapter, options.recordDir)
+      : adapter;
+    this.progressWriter = new ProgressWriter(options.basePath);
+    this.journal = new EventJournal(options.basePath);
     this.maxIterations = options.maxIterations ?? MAX_ITERATIONS;
     this.phaseTimeout = options.phaseTimeout ?? PHASE_TIMEOUT;
+    this.phaseTimeouts = options.phaseTimeouts ?? {};
+    this.killGracePeriod = options.killGracePeriod;
+    this.agent = options.agent ?? {};
+    this.phaseAgents = options.phaseAgents ?? {};
+    this.budget = options.budget ?? {};
+    this.approvalGates = options.approvalGates ?? [];
+    this.verify = options.verify ?? {};
+    this.mergeStrategy = options.merge
+      ? (options.mergeStrategy ?? MERGE_STRATEGY)
+      : null;
+    this.cleanup = options.cleanup ?? false;
+    this.stacked = options.stacked ?? false;
+    this.settingOptions = {
+      maxVerifyAttempts: options.maxVerifyAttempts,
+      maxCiAttempts: options.maxCiAttempts,
+      maxCommentAttempts: options.maxCommentAttempts,
+      maxRebaseAttempts: options.maxRebaseAttempts,
+      stuckLoopAction: options.stuckLoopAction,
+      approvalGates: options.approvalGates,
+      merge: options.merge,
+      mergeStrategy: options.mergeStrategy,
+      cleanup: options.cleanup,
+      stacked: options.stacked,
+    };
+    // Each PR of a stack targets the previous plan's branch, so merging
+    // one would not land it on the default branch
+    if (this.stacked && this.mergeStrategy !== null) {
+      throw new Error(
+        'merge cannot be combined with stacked PRs; merge the stack from the bottom up once every PR is reviewed'
+      );
+    }
+    this.limits = {
+      maxVerifyAttempts:
+        options.maxVerifyAttempts ?? DEFAULT_WORKFLOW_LIMITS.maxVerifyAttempts,
+      maxCiAttempts:
+        options.maxCiAttempts ?? DEFAULT_WORKFLOW_LIMITS.maxCiAttempts,
+      maxCommentAttempts:
+        options.maxCommentAttempts ?? DEFAULT_WORKFLOW_LIMITS.maxCommentAttempts,
+      maxRebaseAttempts:
+        options.maxRebaseAttempts ?? DEFAULT_WORKFLOW_LIMITS.maxRebaseAttempts,
+      stuckLoopAction:
+        options.stuckLoopAction ?? DEFAULT_WORKFLOW_LIMITS.stuckLoopAction,
+    };
     this.verbose = options.verbose ?? false;
+    this.requireSignalNonce = options.requireSignalNonce ?? true;
+    this.noSignalRetry = options.noSignalRetry ?? {};
+    this.outputFormat = options.outputFormat ?? 'stream-json';
   }
 
   /**
@@ -60,17 +198,62 @@ export class WorkflowRunner {
   async run(researchFile: string): Promise<WorkflowResult> {
     this.log(`Starting workflow for: ${researchFile}`);
 
+    if (this.adapter instanceof RecordingAdapter) {
+      await this.adapter.start();
+    }
+
     // Create and start the XState actor
     const actor = createActor(workflowMachine);
     actor.start();
 
-    // Send the start event
-    actor.send({ type: 'START', researchFile });
+    // Start a fresh journal and send the start event
+    await this.journal.clear();
+    await this.dispatch(
+      actor,
+      {
+        type: 'START',
+        researchFile,
+        limits: this.limits,
+        approvalGates: this.approvalGates,
+        verifyEnabled: hasVerifyCommands(this.verify),
+        mergeStrategy: this.mergeStrategy,
+        cleanupEnabled: this.cleanup,
+        stacked: this.stacked,
+      },
+      0,
+      null
+    );
+
+    return this.execute(actor, 0);
+  }
 
+  /**
+   * Drive the actor through phases until it reaches a terminal state
+   * or the iteration limit. `startIteration` offsets the iteration
+   * number written to the progress file when resuming.
+   */
+  private async execute(
+    actor: Actor<typeof workflowMachine>,
+    startIteration: number
+  ): Promise<WorkflowResult> {
     let iteration = 0;
 
+    // Aborted by cancel(); stops the running phase and ends the loop
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    // Consecutive invocations of the same phase that produced no signal
+    let retryPhase: WorkflowPhase | null = null;
+    let noSignalRetries = 0;
+    let previousOutput = '';
+    let previousInvalid: string[] = [];
+
     // Main orchestration loop
     while (iteration < this.maxIterations) {
+      if (abortController.signal.aborted) {
+        break;
+      }
+
       const snapshot = actor.getSnapshot();
       const stateValue = snapshot.value as string;
       const context = snapshot.context;
@@ -81,8 +264,44 @@ export class WorkflowRunner {
         break;
       }
 
+      if (isPaused(stateValue)) {
+        break;
+      }
+
       const phase = getCurrentPhase(stateValue);
-      this.log(`[${iteration + 1}] Phase: ${getPhaseName(phase)}`);
+
+      // Pause before the phase once any budget is used up
+      const budgetExceeded = checkBudget(this.budget, context, phase);
+      if (budgetExceeded) {
+        this.log(budgetExceeded);
+        await this.dispatch(
+          actor,
+          { type: 'BUDGET_EXCEEDED', data: { phase, reason: budgetExceeded } },
+          startIteration + iteration,
+          null
+        );
+        break;
+      }
+
+      this.log(
+        `[${startIteration + iteration + 1}] Phase: ${getPhaseName(phase)}`
+      );
+
+      // Local checks are run by the runner itself, not by the agent
+      if (phase === 'verifying') {
+        const finished = await this.runChecks(
+          actor,
+          context,
+          startIteration + iteration + 1,
+          abortController.signal
+        );
+        if (!finished) {
+          this.log(`Phase cancelled: ${getPhaseName(phase)}`);
+          break;
+        }
+        iteration++;
+        continue;
+      }
 
       // Get the command for this phase
       const phaseCommand = mapPhaseToCommand(phase, context);
@@ -92,34 +311,141 @@ export class WorkflowRunner {
         continue;
       }
 
+      if (phase !== retryPhase) {
+        retryPhase = phase;
+        noSignalRetries = 0;
+      }
+      const retryPolicy = resolveNoSignalPolicy(phase, this.noSignalRetry);
+
+      if (noSignalRetries > 0) {
+        const delay = getRetryDelay(retryPolicy, noSignalRetries);
+        this.log(
+          `Retrying ${getPhaseName(phase)} (${noSignalRetries}/${retryPolicy.maxRetries}) in ${delay}ms`
+        );
+        try {
+          await sleep(delay, undefined, { signal: abortController.signal });
+        } catch {
+          break;
+        }
+      }
+
       const command = formatCommand(phaseCommand);
       this.log(`Executing: ${command}`);
 
+      const agentSettings = resolveAgentSettings(
+        phase,
+        this.agent,
+        this.phaseAgents
+      );
+
+      // Only signals tagged with this invocation's nonce are trusted
+      const nonce = this.requireSignalNonce ? createSignalNonce() : null;
+      const systemPrompt = [
+        agentSettings.appendSystemPrompt ?? null,
+        // Until the phase signals, every invocation is told the human's answer
+        context.escalation?.answer && context.escalation.phase === phase
+          ? formatHumanAnswerPrompt(context.escalation, context.escalation.answer)
+          : null,
+        phase === 'verify_fixing'
+          ? formatVerifyFailures(context.verifyFailures)
+          : null,
+        phase === 'comment_resolution' || phase === 'comment_resolving'
+          ? formatHandledComments(context.comments)
+          : null,
+        phase === 'rebasing' ? formatRebaseChecks(this.verify) : null,
+        nonce ? formatNonceInstructions(nonce) : null,
+        noSignalRetries > 0
+          ? formatNoSignalPrompt(
+              previousOutput,
+              noSignalRetries,
+              retryPolicy,
+              previousInvalid
+            )
+          : null,
+      ]
+        .filter((part): part is string => part !== null)
+        .join('\n\n');
+
       // Execute the phase command in a fresh Claude CLI subprocess
+      const phaseStartedAt = Date.now();
       try {
-        const result = await this.claude.runPrompt({
+        const result = await this.adapter.runPrompt({
+          ...agentSettings,
           prompt: command,
-          workingDirectory: context.worktreePath ?? undefined,
-          timeout: this.phaseTimeout,
+          // Cleanup removes the worktree, so like setup it runs outside it
+          workingDirectory:
+            phase === 'cleanup' ? undefined : (context.worktreePath ?? undefined),
+          timeout: this.phaseTimeouts[phase] ?? this.phaseTimeout,
+          killGracePeriod: this.killGracePeriod,
+          appendSystemPrompt: systemPrompt || undefined,
+          outputFormat: this.outputFormat,
+          onText: this.createStreamWatcher(nonce),
+          signal: abortController.signal,
         });
 
         this.logVerbose(`Output: ${result.content.slice(0, 500)}...`);
+        await this.recordUsage(
+          actor,
+          phase,
+          startIteration + iteration + 1,
+          result.usage ?? null,
+          result.costUsd ?? null,
+          Date.now() - phaseStartedAt
+        );
 
-        // Parse signals from the output
-        const event = parseSignals(result.content);
-        if (event) {
-          // Extract additional data for certain signals
-          if (event.type !== 'FAIL') {
-            const data = extractSignalData(result.content, event.type);
-            event.data = { ...event.data, ...data };
-          }
+        const failure = this.describeRunFailure(result);
+        if (failure) {
+          this.log(failure);
+        }
 
-          this.log(`Signal received: ${event.type}`);
-          actor.send(event as WorkflowEvent);
+        const output = nonce
+          ? this.filterSignals(result.content, nonce)
+          : result.content;
+
+        // Apply every signal in the output, in order. Signals with an
+        // invalid payload are retried like a missing signal.
+        const { applied, invalid } = await this.applySignals(
+          actor,
+          output,
+          startIteration + iteration + 1,
+          result.content
+        );
+        if (applied > 0) {
+          noSignalRetries = 0;
+        } else if (failure) {
+          // A failed run that signalled nothing fails the phase without retrying
+          await this.dispatch(
+            actor,
+            { type: 'FAIL', error: failure },
+            startIteration + iteration + 1,
+            result.content
+          );
+        } else if (noSignalRetries < retryPolicy.maxRetries) {
+          noSignalRetries++;
+          previousOutput = result.content;
+          previousInvalid = invalid;
+          this.log(
+            invalid.length > 0
+              ? 'Invalid signal received from phase, retrying...'
+              : 'No signal received from phase, retrying...'
+          );
         } else {
-          this.log('No signal received from phase, retrying...');
-          // If no signal, we might need to retry or handle error
-          // For now, continue to next iteration
+          const attempts = noSignalRetries + 1;
+          const error =
+            invalid.length > 0
+              ? invalid.join('; ')
+              : `No signal received from ${getPhaseName(phase)} after ${attempts} attempts`;
+          this.log(
+            invalid.length > 0
+              ? `Invalid signal received after ${attempts} attempts, giving up`
+              : `No signal received after ${attempts} attempts, giving up`
+          );
+          await this.dispatch(
+            actor,
+            { type: 'FAIL', error },
+            startIteration + iteration + 1,
+            result.content
+          );
         }
 
         // Update progress file
@@ -127,22 +453,51 @@ export class WorkflowRunner {
         await this.progressWriter.write(
           newSnapshot.context,
           getCurrentPhase(newSnapshot.value as string),
-          iteration + 1
+          startIteration + iteration + 1
         );
       } catch (err) {
+        if (abortController.signal.aborted) {
+          this.log(`Phase cancelled: ${getPhaseName(phase)}`);
+          break;
+        }
+
+        // A replay that diverged from its recording is not a workflow failure
+        if (err instanceof ReplayMismatchError) {
+          this.abortController = null;
+          throw err;
+        }
+
+        // Failed invocations count, but report no usage
+        await this.recordUsage(
+          actor,
+          phase,
+          startIteration + iteration + 1,
+          null,
+          null,
+          Date.now() - phaseStartedAt
+        );
+
         const errorMessage =
           err instanceof Error ? err.message : 'Unknown error';
         this.log(`Phase execution failed: ${errorMessage}`);
+        if (err instanceof ClaudeRunError && err.stdout) {
+          this.logVerbose(`Partial output: ${err.stdout.slice(-500)}`);
+        }
 
-        actor.send({
-          type: 'FAIL',
-          error: errorMessage,
-        } as WorkflowEvent);
+        await this.dispatch(
+          actor,
+          { type: 'FAIL', error: errorMessage },
+          startIteration + iteration + 1,
+          null
+        );
       }
 
       iteration++;
     }
 
+    this.abortController = null;
+    const cancelled = abortController.signal.aborted;
+
     // Get final state
     const finalSnapshot = actor.getSnapshot();
     const finalState = finalSnapshot.value as string;
@@ -152,13 +507,30 @@ export class WorkflowRunner {
     await this.progressWriter.write(
       finalContext,
       getCurrentPhase(finalState),
-      iteration
+      startIteration + iteration
     );
 
     const success = isSuccess(finalState);
 
     if (success) {
       this.log('Workflow completed successfully!');
+    } else if (isEscalated(finalState) && finalContext.escalation) {
+      for (const line of formatEscalationSummary(finalContext.escalation)) {
+        this.log(line);
+      }
+      this.log('Continue once answered with: bun run src/cli.ts resume --answer <text>');
+    } else if (isAwaitingApproval(finalState)) {
+      for (const line of formatApprovalSummary(finalContext)) {
+        this.log(line);
+      }
+      this.log('Approve with: bun run src/cli.ts approve');
+      this.log('Reject with: bun run src/cli.ts reject --reason <text>');
+    } else if (isPaused(finalState)) {
+      this.log(`Workflow paused: ${finalContext.pause?.reason}`);
+      this.log('Raise the budget and continue with: bun run src/cli.ts resume');
+    } else if (cancelled) {
+      this.log(`Workflow cancelled in state: ${finalState}`);
+      this.log('Progress saved. Resume with: bun run src/cli.ts resume');
     } else {
       this.log(`Workflow ended in state: ${finalState}`);
       if (finalContext.error) {
@@ -170,13 +542,209 @@ export class WorkflowRunner {
       success,
       context: finalContext,
       finalPhase: finalState as WorkflowPhase,
+      usage: finalContext.usage,
+      cancelled,
     };
   }
 
   /**
-   * Resume a workflow from existing progress file
+   * Run the configured checks in the worktree and report the outcome to the
+   * machine. Returns false when cancelled before the checks finished.
    */
-  async resume(): Promise<WorkflowResult> {
+  private async runChecks(
+    actor: Actor<typeof workflowMachine>,
+    context: WorkflowContext,
+    iteration: number,
+    signal: AbortSignal
+  ): Promise<boolean> {
+    // Recording and replay adapters capture the check results too
+    const options = {
+      cwd: context.worktreePath ?? process.cwd(),
+      timeout: this.phaseTimeouts.verifying ?? this.phaseTimeout,
+      killGracePeriod: this.killGracePeriod,
+      signal,
+    };
+    const startedAt = Date.now();
+    const checks = this.adapter.runChecks
+      ? await this.adapter.runChecks(this.verify, options)
+      : await runVerifyChecks(this.verify, options);
+    if (signal.aborted) {
+      return false;
+    }
+
+    // The check run counts toward the duration budget, not the invocations
+    await this.recordDuration(actor, 'verifying', iteration, Date.now() - startedAt);
+
+    const failed = checks.filter((check) => check.exitCode !== 0);
+    for (const check of checks) {
+      this.log(
+        `${check.exitCode === 0 ? 'Passed' : 'Failed'}: ${check.name} (${check.command})`
+      );
+    }
+
+    await this.dispatch(
+      actor,
+      {
+        type: failed.length === 0 ? 'VERIFY_PASSED' : 'VERIFY_FAILED',
+        data: { checks },
+      },
+      iteration,
+      null
+    );
+
+    const snapshot = actor.getSnapshot();
+    await this.progressWriter.write(
+      snapshot.context,
+      getCurrentPhase(snapshot.value as string),
+      iteration
+    );
+    return true;
+  }
+
+  /**
+   * Add an invocation's tokens, cost and running time to the workflow and
+   * phase totals
+   */
+  private async recordUsage(
+    actor: Actor<typeof workflowMachine>,
+    phase: WorkflowPhase,
+    iteration: number,
+    usage: ClaudeUsage | null,
+    costUsd: number | null,
+    durationMs: number
+  ): Promise<void> {
+    await this.dispatch(
+      actor,
+      { type: 'USAGE_RECORDED', data: { phase, usage, costUsd, durationMs } },
+      iteration,
+      null
+    );
+  }
+
+  /**
+   * Add running time outside the agent, such as the local checks, to the
+   * workflow and phase totals without counting an invocation
+   */
+  private async recordDuration(
+    actor: Actor<typeof workflowMachine>,
+    phase: WorkflowPhase,
+    iteration: number,
+    durationMs: number
+  ): Promise<void> {
+    await this.dispatch(
+      actor,
+      {
+        type: 'USAGE_RECORDED',
+        data: { phase, usage: null, costUsd: null, durationMs, invocation: false },
+      },
+      iteration,
+      null
+    );
+  }
+
+  /**
+   * Stop the current phase and end the run. The phase's subprocess is
+   * terminated, no FAIL event is sent, and progress is saved in the
+   * current phase so the workflow can be resumed.
+   */
+  cancel(): void {
+    if (this.abortController && !this.abortController.signal.aborted) {
+      this.log('Cancelling workflow...');
+      this.abortController.abort();
+    }
+  }
+
+  /**
+   * Resume a workflow from existing progress file. A workflow waiting in
+   * `needs_human` continues with the escalated phase; `answer` is passed to
+   * that phase's agent.
+   */
+  async resume(answer?: string): Promise<WorkflowResult> {
+    const { progressData, actor } = await this.restore();
+    const phase = progressData.currentPhase;
+    const context = actor.getSnapshot().context;
+
+    if (isAwaitingApproval(phase)) {
+      throw new Error(
+        `Workflow is awaiting approval before ${context.approval?.phase}. Continue with: bun run src/cli.ts approve, or stop with: bun run src/cli.ts reject --reason <text>`
+      );
+    }
+
+    this.log(`Resuming workflow from phase: ${phase}`);
+
+    // A paused workflow continues only once its budget has been raised
+    if (isPaused(phase) && context.pause) {
+      const stillExceeded = checkBudget(
+        this.budget,
+        context,
+        context.pause.phase
+      );
+      if (stillExceeded) {
+        throw new Error(`${stillExceeded}. Raise the budget to resume.`);
+      }
+
+      this.log(`Budget raised, continuing with: ${context.pause.phase}`);
+      await this.dispatch(
+        actor,
+        { type: 'RESUME' },
+        progressData.iteration,
+        null
+      );
+    }
+
+    // Retry counters are untouched, so the escalated phase keeps its attempts
+    const { escalation } = context;
+    if (isEscalated(phase) && escalation) {
+      this.log(`Human answered, continuing with: ${getPhaseName(escalation.phase)}`);
+      await this.dispatch(
+        actor,
+        { type: 'HUMAN_ANSWERED', data: { answer: answer ?? null } },
+        progressData.iteration,
+        null
+      );
+    }
+
+    return this.execute(actor, progressData.iteration);
+  }
+
+  /**
+   * Approve the pending gate and continue with the gated phase
+   */
+  async approve(): Promise<WorkflowResult> {
+    const { progressData, actor } = await this.restore();
+    const approval = this.requirePendingApproval(progressData.currentPhase, actor);
+
+    this.log(`Approved, continuing with: ${getPhaseName(approval.phase)}`);
+    await this.dispatch(actor, { type: 'APPROVE' }, progressData.iteration, null);
+
+    return this.execute(actor, progressData.iteration);
+  }
+
+  /**
+   * Reject the pending gate, failing the workflow with `reason`
+   */
+  async reject(reason: string): Promise<WorkflowResult> {
+    const { progressData, actor } = await this.restore();
+    const approval = this.requirePendingApproval(progressData.currentPhase, actor);
+
+    this.log(`Rejected before ${getPhaseName(approval.phase)}: ${reason}`);
+    await this.dispatch(
+      actor,
+      { type: 'REJECT', data: { reason } },
+      progressData.iteration,
+      null
+    );
+
+    return this.execute(actor, progressData.iteration);
+  }
+
+  /**
+   * Start an actor in the phase and context saved in the progress file
+   */
+  private async restore(): Promise<{
+    progressData: ProgressFileData;
+    actor: Actor<typeof workflowMachine>;
+  }> {
     const progressData = await this.progressWriter.read();
 
     if (!progressData) {
@@ -185,27 +753,249 @@ export class WorkflowRunner {
       );
     }
 
-    this.log(`Resuming workflow from phase: ${progressData.currentPhase}`);
-
-    // Reconstruct context from progress data
-    const context: WorkflowContext = {
-      researchFile: progressData.researchFile,
-      worktreePath: progressData.worktreePath,
-      branch: progressData.branch,
-      plans: progressData.plans.list,
-      currentPlanIndex: progressData.plans.list.findIndex((p) => !p.completed),
-      prNumber: progressData.pr.number,
-      prUrl: progressData.pr.url,
-      ciAttempts: progressData.pr.ciAttempts,
-      commentAttempts: 0,
-      error: null,
-      startedAt: progressData.startedAt,
-      lastUpdate: progressData.lastUpdate,
-      signals: progressData.signals,
+    const phase = progressData.currentPhase;
+    if (isTerminalPhase(phase) || phase === 'idle') {
+      throw new Error(
+        `Workflow cannot be resumed from phase: ${phase}. Start a new run with: /workflows:build <research-file>`
+      );
+    }
+
+    // A crash while appending can leave a partial last entry, which the
+    // next append would run into
+    const dropped = await this.journal.repair();
+    if (dropped !== null) {
+      this.log(`Dropped incomplete last journal entry: ${dropped.slice(0, 80)}`);
+    }
+
+    // Reconstruct context from progress data. The saved settings apply,
+    // with limits and approval gates given to this runner taking
+    // precedence; files written before settings were saved take the
+    // current configuration.
+    const { settings } = progressData;
+    if (settings) {
+      this.checkSavedSettings(settings);
+    }
+    const context = {
+      ...toWorkflowContext(progressData),
+      ...(settings
+        ? {
+            limits: { ...settings.limits, ...this.givenLimits() },
+            approvalGates:
+              this.settingOptions.approvalGates ?? settings.approvalGates,
+          }
+        : {
+            limits: this.limits,
+            approvalGates: this.approvalGates,
+            verifyEnabled: hasVerifyCommands(this.verify),
+            mergeStrategy: this.mergeStrategy,
+            cleanupEnabled: this.cleanup,
+            stacked: this.stacked,
+          }),
+    };
+
+    // Start the actor directly in the saved phase with the saved context,
+    // so setup and planning are not repeated
+    const snapshot = workflowMachine.resolveState({ value: phase, context });
+    const actor = createActor(workflowMachine, { snapshot });
+    actor.start();
+
+    return { progressData, actor };
+  }
+
+  /**
+   * The limits given to this runner, leaving out the ones not set
+   */
+  private givenLimits(): Partial<WorkflowLimits> {
+    const {
+      maxVerifyAttempts,
+      maxCiAttempts,
+      maxCommentAttempts,
+      maxRebaseAttempts,
+      stuckLoopAction,
+    } = this.settingOptions;
+    return Object.fromEntries(
+      Object.entries({
+        maxVerifyAttempts,
+        maxCiAttempts,
+        maxCommentAttempts,
+        maxRebaseAttempts,
+        stuckLoopAction,
+      }).filter(([, value]) => value !== undefined)
+    );
+  }
+
+  /**
+   * Throw if the local checks, merge, cleanup or stacked options given to
+   * this runner differ from the settings the saved workflow was started with
+   */
+  private checkSavedSettings(
+    settings: NonNullable<ProgressFileData['settings']>
+  ): void {
+    const { merge, mergeStrategy, cleanup, stacked } = this.settingOptions;
+    const verifyEnabled = hasVerifyCommands(this.verify);
+    const conflicts = [
+      // Checks cannot run without their commands, nor be added halfway
+      verifyEnabled !== settings.verifyEnabled
+        ? `verify (started ${settings.verifyEnabled ? 'on' : 'off'})`
+        : null,
+      merge !== undefined && merge !== (settings.mergeStrategy !== null)
+        ? `merge (started ${settings.mergeStrategy !== null ? 'on' : 'off'})`
+        : null,
+      merge !== false &&
+      mergeStrategy !== undefined &&
+      settings.mergeStrategy !== null &&
+      mergeStrategy !== settings.mergeStrategy
+        ? `mergeStrategy (started with ${settings.mergeStrategy})`
+        : null,
+      cleanup !== undefined && cleanup !== settings.cleanupEnabled
+        ? `cleanup (started ${settings.cleanupEnabled ? 'on' : 'off'})`
+        : null,
+      stacked !== undefined && stacked !== settings.stacked
+        ? `stacked (started ${settings.stacked ? 'on' : 'off'})`
+        : null,
+    ].filter((conflict): conflict is string => conflict !== null);
+
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Workflow was started with different settings: ${conflicts.join(', ')}. Resume with the settings it started with, or start a new run with: /workflows:build <research-file>`
+      );
+    }
+  }
+
+  /**
+   * The approval the restored workflow is waiting on; throws if none
+   */
+  private requirePendingApproval(
+    phase: WorkflowPhase,
+    actor: Actor<typeof workflowMachine>
+  ): WorkflowApproval {
+    const { approval } = actor.getSnapshot().context;
+    if (!isAwaitingApproval(phase) || !approval) {
+      throw new Error(`No approval pending; workflow is in phase: ${phase}`);
+    }
+    return approval;
+  }
+
+  /**
+   * Apply the signals found in a phase output in order of appearance.
+   * Conflicting signals are reported and resolved pessimistically; signals
+   * the current state cannot accept are skipped with a warning.
+   * Returns the number of signals applied and the invalid ones found.
+   */
+  private async applySignals(
+    actor: Actor<typeof workflowMachine>,
+    output: string,
+    iteration: number,
+    rawOutput: string
+  ): Promise<{ applied: number; invalid: string[] }> {
+    const parsed = parseAllPhaseSignals(output);
+    const { events, conflicts } = resolveSignalConflicts(parsed.events);
+
+    for (const conflict of conflicts) {
+      this.log(`Warning: conflicting signals: ${conflict}`);
+    }
+    for (const error of parsed.invalid) {
+      this.log(`Warning: ${error}`);
+    }
+
+    let applied = 0;
+    for (const event of events) {
+      const snapshot = actor.getSnapshot();
+      if (snapshot.status !== 'active' || !snapshot.can(event)) {
+        this.log(
+          `Warning: ignoring ${event.type}, not accepted in phase ${snapshot.value as string}`
+        );
+        continue;
+      }
+
+      this.log(`Signal received: ${event.type}`);
+      if (event.type === 'FAIL') {
+        this.log(`Error: ${event.error}`);
+      }
+      await this.dispatch(actor, event, iteration, rawOutput);
+      applied++;
+    }
+
+    return { applied, invalid: parsed.invalid };
+  }
+
+  /**
+   * Build the stream-json text callback: echoes assistant text in verbose
+   * mode and logs signals as soon as they appear, before the phase exits
+   */
+  private createStreamWatcher(nonce: string | null): (text: string) => void {
+    let buffer = '';
+    let seen = 0;
+
+    return (text) => {
+      if (this.verbose) {
+        process.stdout.write(text);
+      }
+
+      buffer += text;
+      const output = nonce ? verifySignalNonce(buffer, nonce).output : buffer;
+      const { events } = parseAllPhaseSignals(output);
+      for (const event of events.slice(seen)) {
+        this.log(`Signal detected in stream: ${event.type}`);
+      }
+      seen = Math.max(seen, events.length);
     };
+  }
+
+  /**
+   * Why a run that returned normally still failed, or null if it succeeded
+   */
+  private describeRunFailure(result: ClaudeRunResult): string | null {
+    if (result.isError) {
+      return result.exitCode !== 0
+        ? `Claude CLI reported an error (exit code ${result.exitCode})`
+        : 'Claude CLI reported an error';
+    }
+    if (result.exitCode !== 0) {
+      return `Claude CLI exited with code ${result.exitCode}`;
+    }
+    return null;
+  }
+
+  /**
+   * Drop signal tags without this invocation's nonce, logging the lookalikes
+   */
+  private filterSignals(content: string, nonce: string): string {
+    const { output, rejected } = verifySignalNonce(content, nonce);
+
+    if (rejected.length > 0) {
+      this.log(`Rejected ${rejected.length} signal(s) without a valid nonce`);
+      for (const tag of rejected) {
+        this.logVerbose(`  Rejected: ${tag.slice(0, 200)}`);
+      }
+    }
+
+    return output;
+  }
 
-    // For resume, we continue from where we left off
-    return this.run(context.researchFile);
+  /**
+   * Send an event to the actor and record the transition in the journal
+   */
+  private async dispatch(
+    actor: Actor<typeof workflowMachine>,
+    event: WorkflowEvent,
+    iteration: number,
+    output: string | null
+  ): Promise<void> {
+    const timestamp = new Date().toISOString();
+    const stamped: WorkflowEvent = { ...event, timestamp };
+    const phaseBefore = getCurrentPhase(actor.getSnapshot().value as string);
+
+    actor.send(stamped);
+
+    await this.journal.append({
+      event: stamped,
+      timestamp,
+      iteration,
+      phaseBefore,
+      phaseAfter: getCurrentPhase(actor.getSnapshot().value as string),
+      outputHash: output === null ? null : hashOutput(output),
+    });
   }
 
   private log(message: string): void {
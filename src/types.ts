@@ -7,11 +7,19 @@ export type WorkflowPhase =
   | 'setup'
   | 'planning'
   | 'implementing'
+  | 'verifying'
+  | 'verify_fixing'
   | 'submitting'
   | 'ci_resolution'
   | 'ci_fixing'
   | 'comment_resolution'
   | 'comment_resolving'
+  | 'rebasing'
+  | 'merging'
+  | 'cleanup'
+  | 'budget_exceeded'
+  | 'awaiting_approval'
+  | 'needs_human'
   | 'completed'
   | 'failed';
 
@@ -20,6 +28,9 @@ export type WorkflowSignal =
   | 'PLANNING_COMPLETE'
   | 'PLAN_COMPLETE'
   | 'IMPLEMENTATION_COMPLETE'
+  | 'VERIFY_PASSED'
+  | 'VERIFY_FAILED'
+  | 'VERIFY_FIXED'
   | 'PR_CREATED'
   | 'CI_PASSED'
   | 'CI_FAILED'
@@ -27,8 +38,14 @@ export type WorkflowSignal =
   | 'COMMENTS_RESOLVED'
   | 'COMMENTS_PENDING'
   | 'COMMENT_FIX_PUSHED'
+  | 'REBASE_PUSHED'
+  | 'PR_MERGED'
+  | 'CLEANUP_COMPLETE'
+  | 'NEEDS_HUMAN'
   | 'WORKFLOW_COMPLETE'
-  | 'FAILED';
+  | 'FAILED'
+  // Recorded when a phase fails: the agent's FAILED promise arrives as FAIL
+  | 'FAIL';
 
 export interface WorkflowContext {
   researchFile: string;
@@ -38,18 +55,318 @@ export interface WorkflowContext {
   currentPlanIndex: number;
   prNumber: number | null;
   prUrl: string | null;
+  /** Status of the PR's CI as last reported; null before the PR exists */
+  ciStatus: CiStatus | null;
+  /** Every CI report for the PR, oldest first */
+  ciRuns: CiRun[];
+  verifyAttempts: number;
   ciAttempts: number;
   commentAttempts: number;
+  rebaseAttempts: number;
+  limits: WorkflowLimits;
+  usage: WorkflowUsage;
+  /** Set while the workflow is paused in `budget_exceeded` */
+  pause: WorkflowPause | null;
+  /** Phases that wait for human approval before they start */
+  approvalGates: ApprovalGate[];
+  /** Set while the workflow waits in `awaiting_approval` */
+  approval: WorkflowApproval | null;
+  /** Set while the workflow waits in `needs_human` */
+  escalation: WorkflowEscalation | null;
+  /** Fingerprints for stuck-loop detection in the CI and comment cycles */
+  loops: LoopHistory;
+  /** Review comments reported by the comment phases, one entry per comment */
+  comments: CommentRecord[];
+  /** Whether `verifying` runs between implementing and submitting */
+  verifyEnabled: boolean;
+  /** Failed checks of the last local verification, for verify_fixing */
+  verifyFailures: VerifyCheckResult[];
+  /** Reported with IMPLEMENTATION_COMPLETE, kept for the submitting gate while local checks run */
+  changeSummary: ChangeSummary | null;
+  /** How `merging` merges the PR; null when the PR is left open */
+  mergeStrategy: MergeStrategy | null;
+  /** Whether `cleanup` runs once the workflow is otherwise done */
+  cleanupEnabled: boolean;
+  /** Whether each plan is submitted as its own PR, stacked on the previous one */
+  stacked: boolean;
   error: string | null;
   startedAt: string;
   lastUpdate: string;
   signals: SignalRecord[];
 }
 
+/**
+ * Token and cost totals over one or more agent invocations
+ */
+export interface UsageTotals {
+  invocations: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+  /** Time the invocations ran, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Usage for the whole workflow and broken down by phase
+ */
+export interface WorkflowUsage {
+  total: UsageTotals;
+  phases: Partial<Record<WorkflowPhase, UsageTotals>>;
+}
+
+/**
+ * Where a paused workflow stopped and why
+ */
+export interface WorkflowPause {
+  /** Phase to continue with on RESUME */
+  phase: WorkflowPhase;
+  reason: string;
+}
+
+/**
+ * Phases that can be gated on human approval
+ */
+export type ApprovalGate = 'implementing' | 'submitting';
+
+/**
+ * PR title and diff summary reported with IMPLEMENTATION_COMPLETE
+ */
+export interface ChangeSummary {
+  prTitle: string | null;
+  diffSummary: string | null;
+}
+
+/**
+ * What a workflow in `awaiting_approval` is waiting on. The change summary
+ * is only reported for the submitting gate.
+ */
+export interface WorkflowApproval extends ChangeSummary {
+  /** Phase to continue with on APPROVE */
+  phase: ApprovalGate;
+  requestedAt: string;
+}
+
+/**
+ * Repository checks run by the runner in the `verifying` phase
+ */
+export interface VerifyCommands {
+  typecheck?: string;
+  lint?: string;
+  test?: string;
+}
+
+export type VerifyCheckName = keyof VerifyCommands;
+
+/**
+ * Outcome of one local check command
+ */
+export interface VerifyCheckResult {
+  name: VerifyCheckName;
+  command: string;
+  /** Null when the command could not be started or was stopped */
+  exitCode: number | null;
+  timedOut: boolean;
+  /** Tail of the combined stdout and stderr */
+  output: string;
+}
+
+export interface VerifyRunOptions {
+  /** Directory the commands run in, normally the worktree */
+  cwd: string;
+  /** Timeout for each command */
+  timeout: number;
+  /** Milliseconds between SIGTERM and SIGKILL on timeout or abort */
+  killGracePeriod?: number;
+  /** Stops the running command; later checks are not started */
+  signal?: AbortSignal;
+}
+
+/**
+ * `gh pr merge` strategy used by the merging phase
+ */
+export type MergeStrategy = 'merge' | 'squash' | 'rebase';
+
+/**
+ * Phases that can escalate to a human with NEEDS_HUMAN
+ */
+export type EscalationPhase =
+  | 'ci_resolution'
+  | 'ci_fixing'
+  | 'comment_resolution'
+  | 'comment_resolving'
+  | 'rebasing'
+  | 'merging';
+
+/**
+ * What the agent could not resolve on its own
+ */
+export interface WorkflowEscalation {
+  /** Phase to continue with once a human has answered */
+  phase: EscalationPhase;
+  reason: string;
+  /** PR comment ids that need a person */
+  commentIds: number[];
+  /** CI check names that need a person */
+  checks: string[];
+  requestedAt: string;
+  /**
+   * The human's answer. An answered escalation is kept while its phase
+   * runs, so every retry sees the answer, and dropped once the phase
+   * emits a signal.
+   */
+  answer: string | null;
+}
+
+export type CiStatus = 'pending' | 'passing' | 'failing';
+
+/**
+ * How the PR's branch stands against its base branch, as reported by the
+ * CI and comment phases. `behind` and `conflicting` send the workflow to
+ * `rebasing`.
+ */
+export type BaseStatus = 'up_to_date' | 'behind' | 'conflicting';
+
+/**
+ * Conclusion of a CI check as reported by GitHub; `pending` while it runs
+ */
+export type CheckConclusion =
+  | 'success'
+  | 'failure'
+  | 'cancelled'
+  | 'timed_out'
+  | 'skipped'
+  | 'neutral'
+  | 'action_required'
+  | 'pending';
+
+/**
+ * One CI check in a CI report
+ */
+export interface CiCheckResult {
+  name: string;
+  conclusion: CheckConclusion;
+  url: string | null;
+  /** Failing tests or errors, for checks that did not succeed */
+  summary: string | null;
+}
+
+/**
+ * One CI report from the CI verification phase
+ */
+export interface CiRun {
+  status: Exclude<CiStatus, 'pending'>;
+  failureReason: string | null;
+  checks: CiCheckResult[];
+  reportedAt: string;
+}
+
+/**
+ * How the comment phase classified a review comment
+ */
+export type CommentCategory =
+  | 'actionable-clear'
+  | 'actionable-unclear'
+  | 'not-actionable';
+
+/**
+ * What the comment phase did with a review comment. `asked` (waiting for
+ * the reviewer's answer) and `pending` leave the comment unresolved.
+ */
+export type CommentAction =
+  | 'fixed'
+  | 'replied'
+  | 'acknowledged'
+  | 'asked'
+  | 'pending';
+
+/**
+ * One review comment as last reported by a comment phase
+ */
+export interface CommentRecord {
+  /** GitHub comment id */
+  id: number;
+  author: string;
+  /** File and line for inline review comments */
+  file: string | null;
+  line: number | null;
+  category: CommentCategory;
+  action: CommentAction;
+  /** Commit that addressed the comment, for `fixed` */
+  fixCommit: string | null;
+}
+
+/**
+ * Workflow-wide budgets checked by the runner before each phase
+ */
+export interface WorkflowBudget {
+  maxCostUsd?: number;
+  /**
+   * Time spent running phases, in milliseconds; time paused for approval,
+   * a human answer or a budget does not count
+   */
+  maxDurationMs?: number;
+  /** Total agent invocations allowed per phase */
+  maxInvocations?: Partial<Record<WorkflowPhase, number>>;
+}
+
+/**
+ * What the machine does when a CI or comment loop stops making progress
+ */
+export type StuckLoopAction = 'escalate' | 'fail' | 'off';
+
+/**
+ * Fingerprints seen in the CI and comment fix loops
+ */
+export interface LoopHistory {
+  /** One per CI_FAILED, oldest first */
+  ciFailures: string[];
+  /** One per COMMENTS_PENDING that reported comment ids, oldest first */
+  pendingComments: string[];
+  /** Commit reported by the last CI or comment fix push */
+  lastFixCommit: string | null;
+}
+
+/**
+ * Retry limits enforced by the workflow machine, set by the START event
+ */
+export interface WorkflowLimits {
+  maxVerifyAttempts: number;
+  maxCiAttempts: number;
+  maxCommentAttempts: number;
+  maxRebaseAttempts: number;
+  stuckLoopAction: StuckLoopAction;
+}
+
 export interface PlanInfo {
   path: string;
   issueNumber: number | null;
   completed: boolean;
+  title?: string;
+  dependsOn?: number[];
+  /** The plan's own PR, in stacked mode */
+  pr?: PlanPullRequest;
+}
+
+/**
+ * A plan's PR in stacked mode. While the plan is current, the PR fields of
+ * the workflow context are the live state; they are copied here when the
+ * workflow moves on to the next plan.
+ */
+export interface PlanPullRequest {
+  branch: string | null;
+  /** Branch the PR is stacked on; null when it targets the default branch */
+  baseBranch: string | null;
+  number: number | null;
+  url: string | null;
+  ciStatus: CiStatus | null;
+  ciAttempts: number;
+  ciRuns: CiRun[];
+  commentAttempts: number;
+  rebaseAttempts: number;
+  comments: CommentRecord[];
 }
 
 export interface SignalRecord {
@@ -59,30 +376,212 @@ export interface SignalRecord {
 }
 
 export interface WorkflowEvent {
-  type: WorkflowSignal | 'START' | 'FAIL';
+  /**
+   * USAGE_RECORDED carries `{ phase, usage, costUsd, durationMs, invocation? }`
+   * in `data` (`invocation: false` for time spent outside the agent),
+   * BUDGET_EXCEEDED carries `{ phase, reason }`, REJECT carries `{ reason }`,
+   * HUMAN_ANSWERED carries `{ answer }`, VERIFY_PASSED and VERIFY_FAILED
+   * carry `{ checks }`
+   */
+  type:
+    | WorkflowSignal
+    | 'START'
+    | 'FAIL'
+    | 'USAGE_RECORDED'
+    | 'BUDGET_EXCEEDED'
+    | 'RESUME'
+    | 'APPROVE'
+    | 'REJECT'
+    | 'HUMAN_ANSWERED';
   researchFile?: string;
+  /** START only: overrides for the default retry limits */
+  limits?: Partial<WorkflowLimits>;
+  /** START only: phases that require approval before they start */
+  approvalGates?: ApprovalGate[];
+  /** START only: run local checks before submitting */
+  verifyEnabled?: boolean;
+  /** START only: merge the PR with this strategy once comments are resolved */
+  mergeStrategy?: MergeStrategy | null;
+  /** START only: remove the worktree and branch and close plan issues at the end */
+  cleanupEnabled?: boolean;
+  /** START only: submit each plan as its own PR, stacked on the previous one */
+  stacked?: boolean;
   error?: string;
   data?: Record<string, unknown>;
+  timestamp?: string;
+}
+
+export interface JournalEntry {
+  event: WorkflowEvent;
+  timestamp: string;
+  iteration: number;
+  phaseBefore: WorkflowPhase;
+  phaseAfter: WorkflowPhase;
+  outputHash: string | null;
 }
 
 export interface WorkflowResult {
   success: boolean;
   context: WorkflowContext;
   finalPhase: WorkflowPhase;
+  /** Token and cost totals of the run, same as `context.usage` */
+  usage: WorkflowUsage;
+  /** True when the run was stopped by cancel() and can be resumed */
+  cancelled: boolean;
+}
+
+export interface NoSignalRetryPolicy {
+  /** Re-runs allowed after a phase output with no signal */
+  maxRetries: number;
+  /** Delay before the first retry */
+  backoffMs: number;
+  /** Factor applied to the delay for each further retry */
+  backoffMultiplier: number;
+  /** Characters of the previous output quoted in the follow-up prompt */
+  outputTailChars: number;
+}
+
+export type NoSignalRetryConfig = Partial<
+  Record<WorkflowPhase, Partial<NoSignalRetryPolicy>>
+>;
+
+export type ClaudeOutputFormat = 'text' | 'stream-json';
+
+export type ClaudePermissionMode =
+  | 'default'
+  | 'acceptEdits'
+  | 'bypassPermissions'
+  | 'plan';
+
+/**
+ * Agent settings applied to a phase's Claude invocation
+ */
+export interface AgentSettings {
+  model?: string;
+  /** Tool rules passed to `--allowedTools`, e.g. `Bash(gh:*)` or `Read` */
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  permissionMode?: ClaudePermissionMode;
+  /** Path to an MCP server config file */
+  mcpConfig?: string;
+  /** Extra system prompt text, placed before the runner's own instructions */
+  appendSystemPrompt?: string;
+  maxTurns?: number;
 }
 
-export interface ClaudeRunOptions {
+/**
+ * Contents of `workflow.config.(json|ts)`; every key is optional
+ */
+export interface WorkflowConfig {
+  claudePath?: string;
+  outputFormat?: ClaudeOutputFormat;
+  maxIterations?: number;
+  maxVerifyAttempts?: number;
+  maxCiAttempts?: number;
+  maxCommentAttempts?: number;
+  maxRebaseAttempts?: number;
+  /** Default timeout for each phase invocation, in milliseconds */
+  phaseTimeout?: number;
+  /** Per-phase timeouts overriding `phaseTimeout` */
+  phaseTimeouts?: Partial<Record<WorkflowPhase, number>>;
+  /** Milliseconds between SIGTERM and SIGKILL when a phase is stopped */
+  killGracePeriod?: number;
+  noSignalRetry?: NoSignalRetryConfig;
+  /** Agent settings for every phase */
+  agent?: AgentSettings;
+  /** Per-phase agent settings, overriding `agent` key by key */
+  phaseAgents?: Partial<Record<WorkflowPhase, AgentSettings>>;
+  budget?: WorkflowBudget;
+  /** Pause for `approve` / `reject` before these phases */
+  approvalGates?: ApprovalGate[];
+  /** Escalate (default), fail or ignore when a fix loop is stuck */
+  stuckLoopAction?: StuckLoopAction;
+  /** Local checks run before submitting; `verifying` is skipped when none are set */
+  verify?: VerifyCommands;
+  /** Merge the PR once comments are resolved; off by default */
+  merge?: boolean;
+  /** How `merging` merges the PR (default `squash`) */
+  mergeStrategy?: MergeStrategy;
+  /** Remove the worktree at the end, and after a merge the branch and plan issues; off by default */
+  cleanup?: boolean;
+  /** One PR per plan, each stacked on the previous plan's branch; off by default */
+  stacked?: boolean;
+}
+
+export interface ClaudeRunOptions extends AgentSettings {
   prompt: string;
   workingDirectory?: string;
   timeout?: number;
+  outputFormat?: ClaudeOutputFormat;
+  /** Called with each assistant text block as it streams (stream-json only) */
+  onText?: (text: string) => void;
+  /** Stops the run: SIGTERM, then SIGKILL after `killGracePeriod` */
+  signal?: AbortSignal;
+  /** Milliseconds between SIGTERM and SIGKILL on timeout or abort */
+  killGracePeriod?: number;
+}
+
+export interface ClaudeUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
 }
 
 export interface ClaudeRunResult {
   content: string;
   exitCode: number;
+  /** The final `result` message reported an error (stream-json only) */
+  isError?: boolean;
+  /** Populated from the final `result` message in stream-json mode */
+  sessionId?: string | null;
+  usage?: ClaudeUsage | null;
+  costUsd?: number | null;
+}
+
+/**
+ * Backend that executes a phase prompt, e.g. the Claude CLI
+ */
+export interface AgentAdapter {
+  runPrompt(options: ClaudeRunOptions): Promise<ClaudeRunResult>;
+  /**
+   * Run the local checks of the verifying phase. Recording and replay
+   * adapters implement it so check results are part of a recorded run;
+   * otherwise the runner runs the commands itself.
+   */
+  runChecks?(
+    commands: VerifyCommands,
+    options: VerifyRunOptions
+  ): Promise<VerifyCheckResult[]>;
+}
+
+/**
+ * One recorded agent invocation, stored as a JSON fixture
+ */
+export interface PhaseRecording {
+  prompt: string;
+  workingDirectory: string | null;
+  /** Signal nonce of the recorded run, swapped for the new one on replay */
+  nonce: string | null;
+  output: string;
+  /** Null when the invocation threw */
+  exitCode: number | null;
+  durationMs: number;
+  isError?: boolean;
+  sessionId?: string | null;
+  usage?: ClaudeUsage | null;
+  costUsd?: number | null;
+  /** Set when the invocation threw instead of returning */
+  error?: {
+    message: string;
+    reason: 'timeout' | 'aborted' | null;
+  };
+  /** Set for the local checks of a verifying phase instead of an agent run */
+  checks?: VerifyCheckResult[];
 }
 
 export interface ProgressFileData {
+  version: number;
   timestamp: string;
   researchFile: string;
   worktreePath: string | null;
@@ -91,21 +590,49 @@ export interface ProgressFileData {
   iteration: number;
   startedAt: string;
   lastUpdate: string;
+  error: string | null;
   plans: {
     total: number;
     completed: number;
+    currentIndex: number;
     list: PlanInfo[];
   };
   pr: {
     number: number | null;
     url: string | null;
-    ciStatus: 'pending' | 'passing' | 'failing' | null;
+    ciStatus: CiStatus | null;
     ciAttempts: number;
+    ciRuns: CiRun[];
+    rebaseAttempts: number;
   };
   comments: {
     total: number;
     resolved: number;
     pending: number;
+    attempts: number;
+    list: CommentRecord[];
+  };
+  verify: {
+    attempts: number;
+    failures: VerifyCheckResult[];
   };
+  changeSummary: ChangeSummary | null;
+  usage: WorkflowUsage;
+  pause: WorkflowPause | null;
+  approval: WorkflowApproval | null;
+  escalation: WorkflowEscalation | null;
+  loops: LoopHistory;
   signals: SignalRecord[];
+  /**
+   * How the run was started; a resume keeps these. Null in files written
+   * before they were saved, where the current configuration applies.
+   */
+  settings: {
+    limits: WorkflowLimits;
+    approvalGates: ApprovalGate[];
+    verifyEnabled: boolean;
+    mergeStrategy: MergeStrategy | null;
+    cleanupEnabled: boolean;
+    stacked: boolean;
+  } | null;
 }
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for ci-history.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createCiRun, getCheckTrends, getReportedCheckResults } from './ci-history';
+import type { CiCheckResult, CiRun } from '../types';
+
+const check = (overrides: Partial<CiCheckResult> = {}): CiCheckResult => ({
+  name: 'test',
+  conclusion: 'failure',
+  url: null,
+  summary: null,
+  ...overrides,
+});
+
+const run = (checks: CiCheckResult[]): CiRun => ({
+  status: 'failing',
+  failureReason: null,
+  checks,
+  reportedAt: '2024-01-01T00:00:00.000Z',
+});
+
+describe('getReportedCheckResults', () => {
+  test('fills in missing optional fields', () => {
+    expect(getReportedCheckResults({ results: [{ name: 'lint', conclusion: 'success' }] })).toEqual([
+      check({ name: 'lint', conclusion: 'success' }),
+    ]);
+  });
+
+  test('returns nothing without a results payload', () => {
+    expect(getReportedCheckResults({ failureReason: 'tests failed' })).toEqual([]);
+    expect(getReportedCheckResults()).toEqual([]);
+  });
+});
+
+describe('createCiRun', () => {
+  test('keeps the failure reason of a failed run', () => {
+    const event = {
+      type: 'CI_FAILED',
+      data: { failureReason: 'tests failed', results: [check({ summary: '2 failed' })] },
+    };
+    expect(createCiRun(event, '2024-01-01T00:03:00.000Z')).toEqual({
+      status: 'failing',
+      failureReason: 'tests failed',
+      checks: [check({ summary: '2 failed' })],
+      reportedAt: '2024-01-01T00:03:00.000Z',
+    });
+  });
+
+  test('records a passed run without checks', () => {
+    expect(createCiRun({ type: 'CI_PASSED' }, '2024-01-01T00:09:00.000Z')).toEqual({
+      status: 'passing',
+      failureReason: null,
+      checks: [],
+      reportedAt: '2024-01-01T00:09:00.000Z',
+    });
+  });
+});
+
+describe('getCheckTrends', () => {
+  test('lists the conclusions of each check across runs', () => {
+    const trends = getCheckTrends([
+      run([check(), check({ name: 'lint', conclusion: 'success' })]),
+      run([]),
+      run([check({ conclusion: 'success' }), check({ name: 'e2e', conclusion: 'timed_out' })]),
+    ]);
+
+    expect(trends).toEqual([
+      { name: 'test', conclusions: ['failure', 'success'] },
+      { name: 'lint', conclusions: ['success'] },
+      { name: 'e2e', conclusions: ['timed_out'] },
+    ]);
+  });
+});
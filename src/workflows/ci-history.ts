@@ -0,0 +1,57 @@
+/**
+ * CI status history across CI attempts
+ *
+ * Every CI_PASSED and CI_FAILED is kept as a CI run with the per-check
+ * results the CI phase reported, so the progress file can show which
+ * checks keep failing and whether fixes are improving things.
+ */
+
+import type { CheckConclusion, CiCheckResult, CiRun } from '../types';
+
+type CiEvent = { type: string; data?: Record<string, unknown> };
+
+/**
+ * Per-check results reported in a signal payload, or an empty list
+ */
+export function getReportedCheckResults(
+  data: Record<string, unknown> = {}
+): CiCheckResult[] {
+  const results = (data.results as CiCheckResult[] | undefined) ?? [];
+  return results.map((result) => ({
+    name: result.name,
+    conclusion: result.conclusion,
+    url: result.url ?? null,
+    summary: result.summary ?? null,
+  }));
+}
+
+/**
+ * CI run for a CI_PASSED or CI_FAILED event
+ */
+export function createCiRun(event: CiEvent, reportedAt: string): CiRun {
+  return {
+    status: event.type === 'CI_PASSED' ? 'passing' : 'failing',
+    failureReason:
+      event.type === 'CI_FAILED'
+        ? ((event.data?.failureReason as string | undefined) ?? null)
+        : null,
+    checks: getReportedCheckResults(event.data),
+    reportedAt,
+  };
+}
+
+/**
+ * Conclusions of each check over the runs that reported it, in the order
+ * the checks first appeared
+ */
+export function getCheckTrends(
+  runs: CiRun[]
+): Array<{ name: string; conclusions: CheckConclusion[] }> {
+  const trends = new Map<string, CheckConclusion[]>();
+  for (const run of runs) {
+    for (const check of run.checks) {
+      trends.set(check.name, [...(trends.get(check.name) ?? []), check.conclusion]);
+    }
+  }
+  return [...trends].map(([name, conclusions]) => ({ name, conclusions }));
+}
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for comment-tracking.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  countComments,
+  getReportedComments,
+  isCommentResolved,
+  mergeComments,
+} from './comment-tracking';
+import type { CommentRecord } from '../types';
+
+const comment = (overrides: Partial<CommentRecord> = {}): CommentRecord => ({
+  id: 1201,
+  author: 'alice',
+  file: 'src/auth.ts',
+  line: 42,
+  category: 'actionable-clear',
+  action: 'pending',
+  fixCommit: null,
+  ...overrides,
+});
+
+describe('isCommentResolved', () => {
+  test('treats asked and pending comments as unresolved', () => {
+    expect(isCommentResolved(comment({ action: 'fixed' }))).toBe(true);
+    expect(isCommentResolved(comment({ action: 'acknowledged' }))).toBe(true);
+    expect(isCommentResolved(comment({ action: 'asked' }))).toBe(false);
+    expect(isCommentResolved(comment({ action: 'pending' }))).toBe(false);
+  });
+});
+
+describe('getReportedComments', () => {
+  test('fills in missing optional fields', () => {
+    expect(
+      getReportedComments({
+        comments: [{ id: 7, author: 'bob', category: 'not-actionable', action: 'acknowledged' }],
+      })
+    ).toEqual([
+      {
+        id: 7,
+        author: 'bob',
+        file: null,
+        line: null,
+        category: 'not-actionable',
+        action: 'acknowledged',
+        fixCommit: null,
+      },
+    ]);
+  });
+
+  test('returns nothing without a comments payload', () => {
+    expect(getReportedComments({ pendingCount: 2 })).toEqual([]);
+    expect(getReportedComments()).toEqual([]);
+  });
+});
+
+describe('mergeComments', () => {
+  test('updates known comments in place and appends new ones', () => {
+    const known = [comment({ id: 1 }), comment({ id: 2 })];
+    const merged = mergeComments(known, [
+      comment({ id: 3, author: 'carol' }),
+      comment({ id: 1, action: 'fixed', fixCommit: 'abc1234' }),
+    ]);
+
+    expect(merged.map((c) => [c.id, c.action])).toEqual([
+      [1, 'fixed'],
+      [2, 'pending'],
+      [3, 'pending'],
+    ]);
+  });
+
+  test('keeps the fix commit when a later report omits it', () => {
+    const known = [comment({ action: 'fixed', fixCommit: 'abc1234' })];
+    const [merged] = mergeComments(known, [comment({ action: 'fixed' })]);
+    expect(merged.fixCommit).toBe('abc1234');
+  });
+
+  test('returns the known comments when nothing was reported', () => {
+    const known = [comment()];
+    expect(mergeComments(known, [])).toBe(known);
+  });
+});
+
+describe('countComments', () => {
+  test('counts resolved and pending comments', () => {
+    expect(
+      countComments([
+        comment({ id: 1, action: 'fixed' }),
+        comment({ id: 2, action: 'replied' }),
+        comment({ id: 3, action: 'asked' }),
+      ])
+    ).toEqual({ total: 3, resolved: 2, pending: 1 });
+  });
+});
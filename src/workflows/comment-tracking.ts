@@ -0,0 +1,79 @@
+/**
+ * Per-comment tracking for the comment resolution cycle
+ *
+ * Comment phases report each review comment they looked at with its
+ * category and the action taken. Reports are merged by comment id, so the
+ * latest report for a comment wins and comments seen earlier are kept.
+ */
+
+import type { CommentAction, CommentRecord } from '../types';
+
+// Actions after which a comment needs nothing more from the agent
+const RESOLVED_ACTIONS: readonly CommentAction[] = [
+  'fixed',
+  'replied',
+  'acknowledged',
+];
+
+/**
+ * Whether the comment has been dealt with
+ */
+export function isCommentResolved(comment: CommentRecord): boolean {
+  return RESOLVED_ACTIONS.includes(comment.action);
+}
+
+/**
+ * Comment records reported in a signal payload, or an empty list
+ */
+export function getReportedComments(
+  data: Record<string, unknown> = {}
+): CommentRecord[] {
+  const comments = (data.comments as CommentRecord[] | undefined) ?? [];
+  return comments.map((comment) => ({
+    id: comment.id,
+    author: comment.author,
+    file: comment.file ?? null,
+    line: comment.line ?? null,
+    category: comment.category,
+    action: comment.action,
+    fixCommit: comment.fixCommit ?? null,
+  }));
+}
+
+/**
+ * Merge reported comments into the known ones: known comments are updated
+ * in place, new ones appended in report order
+ */
+export function mergeComments(
+  known: CommentRecord[],
+  reported: CommentRecord[]
+): CommentRecord[] {
+  if (reported.length === 0) return known;
+
+  const byId = new Map(reported.map((comment) => [comment.id, comment]));
+  const merged = known.map((comment) => {
+    const update = byId.get(comment.id);
+    if (!update) return comment;
+    byId.delete(comment.id);
+    // A later report without a commit keeps the commit of an earlier fix
+    return { ...update, fixCommit: update.fixCommit ?? comment.fixCommit };
+  });
+
+  return [...merged, ...byId.values()];
+}
+
+/**
+ * Total, resolved and pending comment counts
+ */
+export function countComments(comments: CommentRecord[]): {
+  total: number;
+  resolved: number;
+  pending: number;
+} {
+  const resolved = comments.filter(isCommentResolved).length;
+  return {
+    total: comments.length,
+    resolved,
+    pending: comments.length - resolved,
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for loop-detection.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  createEmptyLoopHistory,
+  describeStall,
+  detectRepeat,
+  fingerprintCiFailure,
+  fingerprintPendingComments,
+  isEmptyFix,
+} from './loop-detection';
+
+describe('fingerprintCiFailure', () => {
+  test('ignores run-specific hashes, timestamps and durations', () => {
+    expect(
+      fingerprintCiFailure({
+        failureReason: 'e2e: timed out after 31.2s in run 8f3a9c1d at 2024-01-01T10:00:00Z',
+      })
+    ).toBe(
+      fingerprintCiFailure({
+        failureReason: 'E2E: timed out after 29.8s  in run 1b2c3d4e5 at 2024-01-02T11:30:00Z',
+      })
+    );
+  });
+
+  test('distinguishes different failures', () => {
+    expect(fingerprintCiFailure({ failureReason: 'lint: 2 errors' })).not.toBe(
+      fingerprintCiFailure({ failureReason: 'test: 2 failures' })
+    );
+  });
+
+  test('ignores the order of reported checks', () => {
+    expect(fingerprintCiFailure({ failureReason: 'x', checks: ['lint', 'test'] })).toBe(
+      fingerprintCiFailure({ failureReason: 'x', checks: ['test', 'lint'] })
+    );
+  });
+
+  test('returns null when the checks were still pending', () => {
+    expect(
+      fingerprintCiFailure({ failureReason: 'Checks still pending after timeout', pending: true })
+    ).toBeNull();
+  });
+});
+
+describe('fingerprintPendingComments', () => {
+  test('fingerprints the set of comment ids', () => {
+    expect(fingerprintPendingComments({ commentIds: [3, 1, 2] })).toBe(
+      fingerprintPendingComments({ commentIds: [1, 2, 3] })
+    );
+  });
+
+  test('returns null without comment ids', () => {
+    expect(fingerprintPendingComments({ pendingCount: 2 })).toBeNull();
+    expect(fingerprintPendingComments({ commentIds: [] })).toBeNull();
+  });
+});
+
+describe('detectRepeat', () => {
+  test('detects the same state after a fix', () => {
+    expect(detectRepeat(['a', 'b'], 'b')).toBe('repeated');
+  });
+
+  test('detects oscillation between two states', () => {
+    expect(detectRepeat(['a', 'b'], 'a')).toBe('oscillating');
+  });
+
+  test('accepts new states and unknown fingerprints', () => {
+    expect(detectRepeat([], 'a')).toBeNull();
+    expect(detectRepeat(['a', 'b'], 'c')).toBeNull();
+    expect(detectRepeat(['a'], null)).toBeNull();
+  });
+});
+
+describe('isEmptyFix', () => {
+  test('detects a push without changed files', () => {
+    expect(isEmptyFix(createEmptyLoopHistory(), { filesChanged: 0 })).toBe(true);
+  });
+
+  test('detects a push of the previous fix commit', () => {
+    const history = { ...createEmptyLoopHistory(), lastFixCommit: 'abc123' };
+    expect(isEmptyFix(history, { commitSha: 'abc123' })).toBe(true);
+    expect(isEmptyFix(history, { commitSha: 'def456' })).toBe(false);
+  });
+
+  test('assumes changes when nothing is reported', () => {
+    expect(isEmptyFix(createEmptyLoopHistory(), {})).toBe(false);
+  });
+});
+
+describe('describeStall', () => {
+  test('describes CI stalls with the failure reason', () => {
+    expect(describeStall('ci', 'repeated', { failureReason: 'lint: 2 errors' })).toBe(
+      'Stuck CI loop: the same failure came back after a fix (lint: 2 errors)'
+    );
+    expect(describeStall('ci', 'oscillating', { failureReason: 'lint' })).toBe(
+      'Stuck CI loop: failures alternate between two states (lint)'
+    );
+  });
+
+  test('describes comment stalls with the comment ids', () => {
+    expect(describeStall('comments', 'repeated', { commentIds: [4, 9] })).toBe(
+      'Stuck comment loop: the same comments are still pending after a fix (comments #4, #9)'
+    );
+    expect(describeStall('comments', 'empty_fix')).toBe(
+      'Stuck comment loop: fix pushed with no changes'
+    );
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Stuck-loop detection for the CI and comment fix cycles
+ *
+ * Each CI failure and each pending-comment set is reduced to a fingerprint.
+ * A loop is stuck when a fix brings back the same fingerprint, when the
+ * fingerprints alternate between two states, or when a fix pushes nothing.
+ */
+
+import { createHash } from 'node:crypto';
+import type { LoopHistory } from '../types';
+
+export type LoopStall = 'repeated' | 'oscillating' | 'empty_fix';
+
+/**
+ * History with no failures or fixes seen
+ */
+export function createEmptyLoopHistory(): LoopHistory {
+  return { ciFailures: [], pendingComments: [], lastFixCommit: null };
+}
+
+/**
+ * Fingerprint a CI_FAILED payload from its failing checks and failure
+ * reason. Run-specific noise (hashes, timestamps, durations) is ignored.
+ * Null for a report of checks still pending, which is not a failure that
+ * a fix could bring back.
+ */
+export function fingerprintCiFailure(
+  data: Record<string, unknown> = {}
+): string | null {
+  if (data.pending === true) return null;
+  const checks = ((data.checks as string[] | undefined) ?? []).slice().sort();
+  const reason = normalize(String(data.failureReason ?? ''));
+  return hash(`${checks.join(',')}\n${reason}`);
+}
+
+/**
+ * Fingerprint a COMMENTS_PENDING payload from its comment ids, or null when
+ * the phase did not report which comments are pending
+ */
+export function fingerprintPendingComments(
+  data: Record<string, unknown> = {}
+): string | null {
+  const ids = data.commentIds as number[] | undefined;
+  if (!ids || ids.length === 0) return null;
+  return hash([...ids].sort((a, b) => a - b).join(','));
+}
+
+/**
+ * How a new fingerprint repeats the loop so far: the same as the last one,
+ * or back to the one before after a different state in between
+ */
+export function detectRepeat(
+  history: string[],
+  fingerprint: string | null
+): LoopStall | null {
+  if (fingerprint === null) return null;
+  if (history.at(-1) === fingerprint) return 'repeated';
+  if (history.length >= 2 && history.at(-2) === fingerprint) return 'oscillating';
+  return null;
+}
+
+/**
+ * Whether a *_FIX_PUSHED payload reports a push without changes: no files
+ * changed, or the same commit as the previous fix
+ */
+export function isEmptyFix(
+  history: LoopHistory,
+  data: Record<string, unknown> = {}
+): boolean {
+  if (data.filesChanged === 0) return true;
+  const commit = data.commitSha as string | undefined;
+  return commit !== undefined && commit === history.lastFixCommit;
+}
+
+/**
+ * Diagnostic for a stuck loop, e.g.
+ * `Stuck CI loop: the same failure came back after a fix (lint: 2 errors)`
+ */
+export function describeStall(
+  loop: 'ci' | 'comments',
+  stall: LoopStall,
+  data: Record<string, unknown> = {}
+): string {
+  const prefix = loop === 'ci' ? 'Stuck CI loop' : 'Stuck comment loop';
+
+  if (stall === 'empty_fix') {
+    return `${prefix}: fix pushed with no changes`;
+  }
+
+  const detail =
+    loop === 'ci'
+      ? String(data.failureReason ?? 'unknown failure')
+      : `comments ${((data.commentIds as number[] | undefined) ?? []).map((id) => `#${id}`).join(', ')}`;
+
+  if (stall === 'repeated') {
+    return loop === 'ci'
+      ? `${prefix}: the same failure came back after a fix (${detail})`
+      : `${prefix}: the same comments are still pending after a fix (${detail})`;
+  }
+
+  return loop === 'ci'
+    ? `${prefix}: failures alternate between two states (${detail})`
+    : `${prefix}: pending comments alternate between two sets (${detail})`;
+}
+
+function normalize(reason: string): string {
+  return reason
+    .toLowerCase()
+    .replace(/\d{4}-\d{2}-\d{2}t[\d:.]+z?/g, '<time>')
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{7,}\b/g, '<hash>')
+    .replace(/\b\d+(\.\d+)?\s?(ms|s|m|min|h)\b/g, '<duration>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
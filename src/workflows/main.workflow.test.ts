@@ -0,0 +1,998 @@
+/**
+ * Unit tests for main.workflow.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createActor } from 'xstate';
+import {
+  workflowMachine,
+  DEFAULT_WORKFLOW_LIMITS,
+  createEmptyUsage,
+} from './main.workflow';
+import type {
+  CheckConclusion,
+  CiCheckResult,
+  PlanInfo,
+  StuckLoopAction,
+  VerifyCheckResult,
+  WorkflowEvent,
+} from '../types';
+
+const PLANS: PlanInfo[] = [
+  { path: 'plans/workflow-1-auth.md', issueNumber: 1, completed: false },
+  { path: 'plans/workflow-2-login.md', issueNumber: 2, completed: false },
+  { path: 'plans/workflow-3-tests.md', issueNumber: 3, completed: false },
+];
+
+function startImplementing() {
+  const actor = createActor(workflowMachine);
+  actor.start();
+  const events: WorkflowEvent[] = [
+    { type: 'START', researchFile: 'research/test.md' },
+    { type: 'SETUP_COMPLETE', data: { worktreePath: '/wt', branch: 'feat/test' } },
+    { type: 'PLANNING_COMPLETE', data: { plans: PLANS } },
+  ];
+  events.forEach((event) => actor.send(event));
+  return actor;
+}
+
+describe('workflowMachine planning', () => {
+  test('stores the reported plans', () => {
+    const actor = startImplementing();
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('implementing');
+    expect(snapshot.context.plans).toEqual(PLANS);
+    expect(snapshot.context.currentPlanIndex).toBe(0);
+  });
+});
+
+describe('workflowMachine PLAN_COMPLETE', () => {
+  test('marks the plan named by planNumber', () => {
+    const actor = startImplementing();
+    actor.send({ type: 'PLAN_COMPLETE', data: { planNumber: 2 } });
+
+    const { plans, currentPlanIndex } = actor.getSnapshot().context;
+    expect(plans.map((p) => p.completed)).toEqual([false, true, false]);
+    expect(currentPlanIndex).toBe(0);
+  });
+
+  test('advances past every completed plan', () => {
+    const actor = startImplementing();
+    actor.send({ type: 'PLAN_COMPLETE', data: { planNumber: 1 } });
+    actor.send({ type: 'PLAN_COMPLETE', data: { planNumber: 2 } });
+
+    expect(actor.getSnapshot().context.currentPlanIndex).toBe(2);
+  });
+
+  test('falls back to the current plan without a planNumber', () => {
+    const actor = startImplementing();
+    actor.send({ type: 'PLAN_COMPLETE' });
+
+    const { plans, currentPlanIndex } = actor.getSnapshot().context;
+    expect(plans[0].completed).toBe(true);
+    expect(currentPlanIndex).toBe(1);
+  });
+
+  test('falls back to the current plan for an out-of-range planNumber', () => {
+    const actor = startImplementing();
+    actor.send({ type: 'PLAN_COMPLETE', data: { planNumber: 9 } });
+
+    expect(actor.getSnapshot().context.plans[0].completed).toBe(true);
+  });
+});
+
+describe('workflowMachine limits', () => {
+  function startCi(limits?: WorkflowEvent['limits']) {
+    const actor = createActor(workflowMachine);
+    actor.start();
+    const events: WorkflowEvent[] = [
+      { type: 'START', researchFile: 'research/test.md', limits },
+      { type: 'SETUP_COMPLETE', data: { worktreePath: '/wt', branch: 'feat/test' } },
+      { type: 'PLANNING_COMPLETE', data: { plans: PLANS.slice(0, 1) } },
+      { type: 'IMPLEMENTATION_COMPLETE' },
+      { type: 'PR_CREATED', data: { prNumber: 1, prUrl: 'https://example.com/pr/1' } },
+    ];
+    events.forEach((event) => actor.send(event));
+    return actor;
+  }
+
+  function failCi(actor: ReturnType<typeof startCi>, times: number) {
+    for (let i = 0; i < times; i++) {
+      // A different failure each time, so the loop is not stuck
+      actor.send({ type: 'CI_FAILED', data: { failureReason: `check ${i}` } });
+      if (actor.getSnapshot().value === 'ci_fixing') {
+        actor.send({ type: 'CI_FIX_PUSHED' });
+      }
+    }
+  }
+
+  test('uses the default limits when START sets none', () => {
+    const actor = startCi();
+    expect(actor.getSnapshot().context.limits).toEqual(DEFAULT_WORKFLOW_LIMITS);
+
+    failCi(actor, 6);
+    expect(actor.getSnapshot().value).toBe('failed');
+    expect(actor.getSnapshot().context.error).toBe('CI failed after 5 attempts');
+  });
+
+  test('reads the CI limit from START', () => {
+    const actor = startCi({ maxCiAttempts: 8 });
+    failCi(actor, 6);
+    expect(actor.getSnapshot().value).toBe('ci_resolution');
+
+    failCi(actor, 3);
+    expect(actor.getSnapshot().value).toBe('failed');
+    expect(actor.getSnapshot().context.error).toBe('CI failed after 8 attempts');
+  });
+
+  test('reads the comment limit from START', () => {
+    const actor = startCi({ maxCommentAttempts: 1 });
+    actor.send({ type: 'CI_PASSED' });
+    actor.send({ type: 'COMMENTS_PENDING' });
+    actor.send({ type: 'COMMENT_FIX_PUSHED' });
+    actor.send({ type: 'COMMENTS_PENDING' });
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('failed');
+    expect(snapshot.context.limits.maxCiAttempts).toBe(5);
+    expect(snapshot.context.error).toBe('Comments unresolved after 1 attempts');
+  });
+});
+
+describe('workflowMachine usage', () => {
+  const usage = (inputTokens: number, outputTokens: number) => ({
+    inputTokens,
+    outputTokens,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 100,
+  });
+
+  test('adds usage to the workflow and phase totals', () => {
+    const actor = startImplementing();
+    actor.send({
+      type: 'USAGE_RECORDED',
+      data: { phase: 'implementing', usage: usage(10, 5), costUsd: 0.25, durationMs: 1000 },
+    });
+    actor.send({
+      type: 'USAGE_RECORDED',
+      data: { phase: 'implementing', usage: usage(20, 5), costUsd: 0.5, durationMs: 2000 },
+    });
+    actor.send({
+      type: 'USAGE_RECORDED',
+      data: { phase: 'ci_fixing', usage: null, costUsd: null, durationMs: 500 },
+    });
+
+    const { usage: recorded } = actor.getSnapshot().context;
+    expect(recorded.total).toEqual({
+      invocations: 3,
+      inputTokens: 30,
+      outputTokens: 10,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 200,
+      costUsd: 0.75,
+      durationMs: 3500,
+    });
+    expect(recorded.phases.implementing?.invocations).toBe(2);
+    expect(recorded.phases.implementing?.durationMs).toBe(3000);
+    expect(recorded.phases.implementing?.costUsd).toBe(0.75);
+    expect(recorded.phases.ci_fixing?.invocations).toBe(1);
+    expect(recorded.phases.ci_fixing?.costUsd).toBe(0);
+  });
+
+  test('adds time outside the agent without counting an invocation', () => {
+    const actor = startImplementing();
+    actor.send({
+      type: 'USAGE_RECORDED',
+      data: { phase: 'verifying', usage: null, costUsd: null, durationMs: 800, invocation: false },
+    });
+
+    const { usage: recorded } = actor.getSnapshot().context;
+    expect(recorded.total.invocations).toBe(0);
+    expect(recorded.total.durationMs).toBe(800);
+    expect(recorded.phases.verifying?.invocations).toBe(0);
+  });
+
+  test('does not change the phase', () => {
+    const actor = startImplementing();
+    actor.send({
+      type: 'USAGE_RECORDED',
+      data: { phase: 'implementing', usage: usage(1, 1), costUsd: 0.01 },
+    });
+    expect(actor.getSnapshot().value).toBe('implementing');
+  });
+
+  test('starts each workflow with empty usage', () => {
+    const actor = startImplementing();
+    expect(actor.getSnapshot().context.usage).toEqual(createEmptyUsage());
+  });
+});
+
+describe('workflowMachine approval gates', () => {
+  function startWithGates(approvalGates: WorkflowEvent['approvalGates']) {
+    const actor = createActor(workflowMachine);
+    actor.start();
+    actor.send({ type: 'START', researchFile: 'research/test.md', approvalGates });
+    actor.send({ type: 'SETUP_COMPLETE', data: { worktreePath: '/wt', branch: 'feat/test' } });
+    actor.send({ type: 'PLANNING_COMPLETE', data: { plans: PLANS } });
+    return actor;
+  }
+
+  test('runs straight through without gates', () => {
+    const actor = startWithGates(undefined);
+    expect(actor.getSnapshot().value).toBe('implementing');
+    expect(actor.getSnapshot().context.approvalGates).toEqual([]);
+  });
+
+  test('waits for approval of the plans before implementing', () => {
+    const actor = startWithGates(['implementing']);
+
+    let snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('awaiting_approval');
+    expect(snapshot.status).toBe('active');
+    expect(snapshot.context.plans).toEqual(PLANS);
+    expect(snapshot.context.approval?.phase).toBe('implementing');
+
+    actor.send({ type: 'APPROVE' });
+    snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('implementing');
+    expect(snapshot.context.approval).toBeNull();
+  });
+
+  test('waits before submitting with the reported summary', () => {
+    const actor = startWithGates(['submitting']);
+    expect(actor.getSnapshot().value).toBe('implementing');
+
+    actor.send({
+      type: 'IMPLEMENTATION_COMPLETE',
+      data: { prTitle: 'Add auth', diffSummary: '3 files changed' },
+      timestamp: '2024-01-01T01:00:00.000Z',
+    });
+
+    expect(actor.getSnapshot().value).toBe('awaiting_approval');
+    expect(actor.getSnapshot().context.approval).toEqual({
+      phase: 'submitting',
+      requestedAt: '2024-01-01T01:00:00.000Z',
+      prTitle: 'Add auth',
+      diffSummary: '3 files changed',
+    });
+
+    actor.send({ type: 'APPROVE' });
+    expect(actor.getSnapshot().value).toBe('submitting');
+  });
+
+  test('fails with the reason on rejection', () => {
+    const actor = startWithGates(['implementing']);
+    actor.send({ type: 'REJECT', data: { reason: 'Split plan 2' } });
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('failed');
+    expect(snapshot.context.error).toBe('Rejected before implementing: Split plan 2');
+    expect(snapshot.context.approval).toBeNull();
+  });
+
+  test('ignores signals and budget pauses while waiting', () => {
+    const actor = startWithGates(['implementing']);
+    actor.send({ type: 'IMPLEMENTATION_COMPLETE' });
+    actor.send({ type: 'BUDGET_EXCEEDED', data: { phase: 'implementing', reason: 'x' } });
+
+    expect(actor.getSnapshot().value).toBe('awaiting_approval');
+  });
+});
+
+describe('workflowMachine local verification', () => {
+  const passed: VerifyCheckResult = {
+    name: 'typecheck',
+    command: 'tsc --noEmit',
+    exitCode: 0,
+    timedOut: false,
+    output: '',
+  };
+  const failed: VerifyCheckResult = {
+    name: 'test',
+    command: 'bun test',
+    exitCode: 1,
+    timedOut: false,
+    output: '1 fail',
+  };
+
+  function startVerifying(
+    approvalGates: WorkflowEvent['approvalGates'] = [],
+    limits?: WorkflowEvent['limits']
+  ) {
+    const actor = createActor(workflowMachine);
+    actor.start();
+    actor.send({
+      type: 'START',
+      researchFile: 'research/test.md',
+      verifyEnabled: true,
+      approvalGates,
+      limits,
+    });
+    actor.send({ type: 'SETUP_COMPLETE', data: { worktreePath: '/wt', branch: 'feat/test' } });
+    actor.send({ type: 'PLANNING_COMPLETE', data: { plans: PLANS } });
+    actor.send({
+      type: 'IMPLEMENTATION_COMPLETE',
+      data: { prTitle: 'Add auth', diffSummary: '3 files changed' },
+    });
+    return actor;
+  }
+
+  test('submits straight after implementing when disabled', () => {
+    const actor = startImplementing();
+    actor.send({ type: 'IMPLEMENTATION_COMPLETE' });
+    expect(actor.getSnapshot().value).toBe('submitting');
+  });
+
+  test('fixes failed checks and verifies again before submitting', () => {
+    const actor = startVerifying();
+    expect(actor.getSnapshot().value).toBe('verifying');
+
+    actor.send({ type: 'VERIFY_FAILED', data: { checks: [passed, failed] } });
+    let snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('verify_fixing');
+    expect(snapshot.context.verifyAttempts).toBe(1);
+    expect(snapshot.context.verifyFailures).toEqual([failed]);
+
+    actor.send({ type: 'VERIFY_FIXED' });
+    expect(actor.getSnapshot().value).toBe('verifying');
+
+    actor.send({ type: 'VERIFY_PASSED', data: { checks: [passed] } });
+    snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('submitting');
+    expect(snapshot.context.verifyFailures).toEqual([]);
+  });
+
+  test('fails once fix attempts are exhausted', () => {
+    const actor = startVerifying([], { maxVerifyAttempts: 1 });
+    actor.send({ type: 'VERIFY_FAILED', data: { checks: [failed] } });
+    actor.send({ type: 'VERIFY_FIXED' });
+    actor.send({ type: 'VERIFY_FAILED', data: { checks: [failed] } });
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('failed');
+    expect(snapshot.context.error).toBe('Local checks failed after 1 attempts: test');
+  });
+
+  test('asks for approval after the checks pass, with the implementation summary', () => {
+    const actor = startVerifying(['submitting']);
+    actor.send({
+      type: 'VERIFY_PASSED',
+      data: { checks: [passed] },
+      timestamp: '2024-01-01T01:00:00.000Z',
+    });
+
+    expect(actor.getSnapshot().value).toBe('awaiting_approval');
+    expect(actor.getSnapshot().context.approval).toEqual({
+      phase: 'submitting',
+      requestedAt: '2024-01-01T01:00:00.000Z',
+      prTitle: 'Add auth',
+      diffSummary: '3 files changed',
+    });
+  });
+
+  test('does not accept verification results from other phases', () => {
+    const actor = startImplementing();
+    actor.send({ type: 'VERIFY_PASSED', data: { checks: [] } });
+    expect(actor.getSnapshot().value).toBe('implementing');
+  });
+});
+
+describe('workflowMachine escalation', () => {
+  function startCiResolution() {
+    const actor = startImplementing();
+    actor.send({ type: 'IMPLEMENTATION_COMPLETE' });
+    actor.send({ type: 'PR_CREATED', data: { prNumber: 7, prUrl: 'https://github.com/o/r/pull/7' } });
+    return actor;
+  }
+
+  test('waits for a human and returns to the escalated phase', () => {
+    const actor = startCiResolution();
+    actor.send({ type: 'CI_FAILED', data: { failureReason: 'e2e' } });
+    actor.send({
+      type: 'NEEDS_HUMAN',
+      data: { reason: 'Staging credentials expired', checks: ['e2e'] },
+      timestamp: '2024-01-01T02:00:00.000Z',
+    });
+
+    let snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('needs_human');
+    expect(snapshot.status).toBe('active');
+    expect(snapshot.context.escalation).toEqual({
+      phase: 'ci_fixing',
+      reason: 'Staging credentials expired',
+      commentIds: [],
+      checks: ['e2e'],
+      requestedAt: '2024-01-01T02:00:00.000Z',
+      answer: null,
+    });
+
+    actor.send({ type: 'HUMAN_ANSWERED', data: { answer: 'Rotated' } });
+    snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('ci_fixing');
+    expect(snapshot.context.escalation?.answer).toBe('Rotated');
+    expect(snapshot.context.ciAttempts).toBe(1);
+  });
+
+  test('keeps the answer until the escalated phase signals', () => {
+    const actor = startCiResolution();
+    actor.send({ type: 'CI_FAILED', data: { failureReason: 'e2e' } });
+    actor.send({ type: 'NEEDS_HUMAN', data: { reason: 'Staging credentials expired' } });
+    actor.send({ type: 'HUMAN_ANSWERED', data: { answer: 'Rotated' } });
+
+    // A budget pause does not end the phase's use of the answer
+    actor.send({ type: 'BUDGET_EXCEEDED', data: { phase: 'ci_fixing', reason: 'x' } });
+    actor.send({ type: 'RESUME' });
+    expect(actor.getSnapshot().context.escalation?.answer).toBe('Rotated');
+
+    actor.send({ type: 'CI_FIX_PUSHED' });
+    expect(actor.getSnapshot().value).toBe('ci_resolution');
+    expect(actor.getSnapshot().context.escalation).toBeNull();
+  });
+
+  test('drops an escalation answered without text', () => {
+    const actor = startCiResolution();
+    actor.send({ type: 'NEEDS_HUMAN', data: { reason: 'x' } });
+    actor.send({ type: 'HUMAN_ANSWERED', data: { answer: null } });
+
+    expect(actor.getSnapshot().value).toBe('ci_resolution');
+    expect(actor.getSnapshot().context.escalation).toBeNull();
+  });
+
+  test('escalates comments without counting an attempt', () => {
+    const actor = startCiResolution();
+    actor.send({ type: 'CI_PASSED' });
+    actor.send({ type: 'NEEDS_HUMAN', data: { reason: 'Unclear', commentIds: [5, 6] } });
+
+    expect(actor.getSnapshot().value).toBe('needs_human');
+    expect(actor.getSnapshot().context.commentAttempts).toBe(0);
+    expect(actor.getSnapshot().context.signals.at(-1)?.signal).toBe('NEEDS_HUMAN');
+
+    actor.send({ type: 'HUMAN_ANSWERED' });
+    expect(actor.getSnapshot().value).toBe('comment_resolution');
+  });
+
+  test('is not accepted before the PR exists', () => {
+    const actor = startImplementing();
+    actor.send({ type: 'NEEDS_HUMAN', data: { reason: 'Unclear plan' } });
+
+    expect(actor.getSnapshot().value).toBe('implementing');
+  });
+
+  test('ignores signals and budget pauses while waiting', () => {
+    const actor = startCiResolution();
+    actor.send({ type: 'NEEDS_HUMAN', data: { reason: 'x' } });
+    actor.send({ type: 'CI_PASSED' });
+    actor.send({ type: 'BUDGET_EXCEEDED', data: { phase: 'ci_resolution', reason: 'x' } });
+
+    expect(actor.getSnapshot().value).toBe('needs_human');
+  });
+});
+
+describe('workflowMachine stuck loops', () => {
+  function startCi(stuckLoopAction: StuckLoopAction = 'escalate') {
+    const actor = createActor(workflowMachine);
+    actor.start();
+    actor.send({ type: 'START', researchFile: 'research/test.md', limits: { stuckLoopAction } });
+    actor.send({ type: 'SETUP_COMPLETE', data: { worktreePath: '/wt', branch: 'feat/test' } });
+    actor.send({ type: 'PLANNING_COMPLETE', data: { plans: PLANS } });
+    actor.send({ type: 'IMPLEMENTATION_COMPLETE' });
+    actor.send({ type: 'PR_CREATED', data: { prNumber: 7, prUrl: 'https://github.com/o/r/pull/7' } });
+    return actor;
+  }
+
+  const ciFailed = (failureReason: string): WorkflowEvent => ({
+    type: 'CI_FAILED',
+    data: { failureReason, checks: ['lint'] },
+  });
+
+  test('escalates the same failure after a fix without using an attempt', () => {
+    const actor = startCi();
+    actor.send(ciFailed('lint: 2 errors'));
+    actor.send({ type: 'CI_FIX_PUSHED', data: { commitSha: 'aaa111' } });
+    actor.send(ciFailed('lint: 2 errors'));
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('needs_human');
+    expect(snapshot.context.ciAttempts).toBe(1);
+    expect(snapshot.context.escalation).toMatchObject({
+      phase: 'ci_fixing',
+      reason: 'Stuck CI loop: the same failure came back after a fix (lint: 2 errors)',
+      checks: ['lint'],
+    });
+
+    actor.send({ type: 'HUMAN_ANSWERED' });
+    expect(actor.getSnapshot().value).toBe('ci_fixing');
+    expect(actor.getSnapshot().context.loops.ciFailures).toEqual([]);
+  });
+
+  test('does not count checks still pending as a repeated failure', () => {
+    const actor = startCi();
+    const pending: WorkflowEvent = {
+      type: 'CI_FAILED',
+      data: { failureReason: 'Checks still pending after timeout', pending: true },
+    };
+    actor.send(pending);
+    actor.send({ type: 'CI_FIX_PUSHED', data: { commitSha: 'aaa111' } });
+    actor.send(pending);
+
+    expect(actor.getSnapshot().value).toBe('ci_fixing');
+    expect(actor.getSnapshot().context.loops.ciFailures).toEqual([]);
+  });
+
+  test('detects failures alternating between two states', () => {
+    const actor = startCi();
+    for (const reason of ['lint: unused import', 'test: auth.test.ts']) {
+      actor.send(ciFailed(reason));
+      actor.send({ type: 'CI_FIX_PUSHED' });
+    }
+    actor.send(ciFailed('lint: unused import'));
+
+    expect(actor.getSnapshot().value).toBe('needs_human');
+    expect(actor.getSnapshot().context.escalation?.reason).toStartWith(
+      'Stuck CI loop: failures alternate between two states'
+    );
+  });
+
+  test('fails early when configured to', () => {
+    const actor = startCi('fail');
+    actor.send(ciFailed('lint: 2 errors'));
+    actor.send({ type: 'CI_FIX_PUSHED', data: { filesChanged: 0 } });
+
+    expect(actor.getSnapshot().value).toBe('failed');
+    expect(actor.getSnapshot().context.error).toBe('Stuck CI loop: fix pushed with no changes');
+  });
+
+  test('keeps looping when detection is off', () => {
+    const actor = startCi('off');
+    actor.send(ciFailed('lint: 2 errors'));
+    actor.send({ type: 'CI_FIX_PUSHED' });
+    actor.send(ciFailed('lint: 2 errors'));
+
+    expect(actor.getSnapshot().value).toBe('ci_fixing');
+    expect(actor.getSnapshot().context.ciAttempts).toBe(2);
+  });
+
+  test('escalates the same pending comments after a fix', () => {
+    const actor = startCi();
+    actor.send({ type: 'CI_PASSED' });
+    actor.send({ type: 'COMMENTS_PENDING', data: { commentIds: [11, 12] } });
+    actor.send({ type: 'COMMENT_FIX_PUSHED', data: { commitSha: 'bbb222' } });
+    actor.send({ type: 'COMMENTS_PENDING', data: { commentIds: [12, 11] } });
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('needs_human');
+    expect(snapshot.context.commentAttempts).toBe(1);
+    expect(snapshot.context.escalation).toMatchObject({
+      phase: 'comment_resolving',
+      commentIds: [12, 11],
+    });
+  });
+
+  test('escalates a comment fix that pushes the previous commit again', () => {
+    const actor = startCi();
+    actor.send({ type: 'CI_PASSED' });
+    actor.send({ type: 'COMMENTS_PENDING', data: { commentIds: [11] } });
+    actor.send({ type: 'COMMENT_FIX_PUSHED', data: { commitSha: 'bbb222' } });
+    actor.send({ type: 'COMMENTS_PENDING', data: { commentIds: [13] } });
+    actor.send({ type: 'COMMENT_FIX_PUSHED', data: { commitSha: 'bbb222' } });
+
+    expect(actor.getSnapshot().value).toBe('needs_human');
+    expect(actor.getSnapshot().context.escalation?.reason).toBe(
+      'Stuck comment loop: fix pushed with no changes'
+    );
+  });
+});
+
+describe('workflowMachine comment tracking', () => {
+  function startCommentResolution() {
+    const actor = startImplementing();
+    actor.send({ type: 'IMPLEMENTATION_COMPLETE' });
+    actor.send({ type: 'PR_CREATED', data: { prNumber: 7, prUrl: 'https://github.com/o/r/pull/7' } });
+    actor.send({ type: 'CI_PASSED' });
+    return actor;
+  }
+
+  const report = (id: number, action: string, fixCommit: string | null = null) => ({
+    id,
+    author: 'alice',
+    file: 'src/auth.ts',
+    line: id,
+    category: 'actionable-clear',
+    action,
+    fixCommit,
+  });
+
+  test('stores reported comments and updates them across iterations', () => {
+    const actor = startCommentResolution();
+    actor.send({
+      type: 'COMMENTS_PENDING',
+      data: { comments: [report(1, 'pending'), report(2, 'asked')] },
+    });
+    actor.send({
+      type: 'COMMENT_FIX_PUSHED',
+      data: { comments: [report(1, 'fixed', 'abc1234')] },
+    });
+    actor.send({ type: 'COMMENTS_RESOLVED', data: { comments: [report(2, 'replied')] } });
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('completed');
+    expect(snapshot.context.comments.map((c) => [c.id, c.action, c.fixCommit])).toEqual([
+      [1, 'fixed', 'abc1234'],
+      [2, 'replied', null],
+    ]);
+  });
+
+  test('keeps the comments reported with a stuck loop', () => {
+    const actor = startCommentResolution();
+    const pending = { commentIds: [1], comments: [report(1, 'pending')] };
+    actor.send({ type: 'COMMENTS_PENDING', data: pending });
+    actor.send({ type: 'COMMENT_FIX_PUSHED' });
+    actor.send({ type: 'COMMENTS_PENDING', data: { ...pending, comments: [report(1, 'asked')] } });
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('needs_human');
+    expect(snapshot.context.comments[0].action).toBe('asked');
+  });
+});
+
+describe('workflowMachine CI history', () => {
+  function startCi() {
+    const actor = startImplementing();
+    actor.send({ type: 'IMPLEMENTATION_COMPLETE' });
+    actor.send({ type: 'PR_CREATED', data: { prNumber: 7, prUrl: 'https://github.com/o/r/pull/7' } });
+    return actor;
+  }
+
+  const result = (name: string, conclusion: CheckConclusion): CiCheckResult => ({
+    name,
+    conclusion,
+    url: null,
+    summary: null,
+  });
+
+  test('tracks the CI status from CI signals', () => {
+    const actor = startCi();
+    expect(actor.getSnapshot().context.ciStatus).toBe('pending');
+
+    actor.send({ type: 'CI_FAILED', data: { failureReason: 'tests failed' } });
+    expect(actor.getSnapshot().context.ciStatus).toBe('failing');
+
+    actor.send({ type: 'CI_FIX_PUSHED' });
+    expect(actor.getSnapshot().context.ciStatus).toBe('pending');
+
+    actor.send({ type: 'CI_PASSED' });
+    expect(actor.getSnapshot().context.ciStatus).toBe('passing');
+  });
+
+  test('records every CI report with its check results', () => {
+    const actor = startCi();
+    actor.send({
+      type: 'CI_FAILED',
+      data: {
+        failureReason: 'tests failed',
+        results: [result('test', 'failure'), result('lint', 'success')],
+      },
+      timestamp: '2024-01-01T00:03:00.000Z',
+    });
+    actor.send({ type: 'CI_FIX_PUSHED' });
+    actor.send({ type: 'CI_PASSED', data: { results: [result('test', 'success')] } });
+
+    const { ciRuns } = actor.getSnapshot().context;
+    expect(ciRuns).toHaveLength(2);
+    expect(ciRuns[0]).toEqual({
+      status: 'failing',
+      failureReason: 'tests failed',
+      checks: [result('test', 'failure'), result('lint', 'success')],
+      reportedAt: '2024-01-01T00:03:00.000Z',
+    });
+    expect(ciRuns[1]).toMatchObject({ status: 'passing', checks: [result('test', 'success')] });
+  });
+
+  test('records the CI run that triggered a stuck loop', () => {
+    const actor = startCi();
+    const failed = { type: 'CI_FAILED' as const, data: { failureReason: 'lint', checks: ['lint'] } };
+    actor.send(failed);
+    actor.send({ type: 'CI_FIX_PUSHED' });
+    actor.send(failed);
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('needs_human');
+    expect(snapshot.context.ciStatus).toBe('failing');
+    expect(snapshot.context.ciRuns).toHaveLength(2);
+  });
+});
+
+describe('workflowMachine merging and cleanup', () => {
+  function startCommentResolution(options: Partial<WorkflowEvent> = {}) {
+    const actor = createActor(workflowMachine);
+    actor.start();
+    actor.send({ type: 'START', researchFile: 'research/test.md', ...options });
+    actor.send({ type: 'SETUP_COMPLETE', data: { worktreePath: '/wt', branch: 'feat/test' } });
+    actor.send({ type: 'PLANNING_COMPLETE', data: { plans: PLANS } });
+    actor.send({ type: 'IMPLEMENTATION_COMPLETE' });
+    actor.send({ type: 'PR_CREATED', data: { prNumber: 7, prUrl: 'https://github.com/o/r/pull/7' } });
+    actor.send({ type: 'CI_PASSED' });
+    return actor;
+  }
+
+  test('completes once comments are resolved when both are off', () => {
+    const actor = startCommentResolution();
+    actor.send({ type: 'COMMENTS_RESOLVED' });
+    expect(actor.getSnapshot().value).toBe('completed');
+  });
+
+  test('merges and then cleans up', () => {
+    const actor = startCommentResolution({ mergeStrategy: 'squash', cleanupEnabled: true });
+    actor.send({ type: 'COMMENTS_RESOLVED' });
+    expect(actor.getSnapshot().value).toBe('merging');
+
+    actor.send({ type: 'PR_MERGED', data: { mergeCommit: '9f2c1e7' } });
+    expect(actor.getSnapshot().value).toBe('cleanup');
+
+    actor.send({ type: 'CLEANUP_COMPLETE' });
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('completed');
+    expect(snapshot.context.signals.map((s) => s.signal).slice(-3)).toEqual([
+      'PR_MERGED',
+      'CLEANUP_COMPLETE',
+      'WORKFLOW_COMPLETE',
+    ]);
+  });
+
+  test('skips either phase when it is not enabled', () => {
+    const merged = startCommentResolution({ mergeStrategy: 'merge' });
+    merged.send({ type: 'COMMENTS_RESOLVED' });
+    merged.send({ type: 'PR_MERGED' });
+    expect(merged.getSnapshot().value).toBe('completed');
+
+    const cleaned = startCommentResolution({ cleanupEnabled: true });
+    cleaned.send({ type: 'COMMENTS_RESOLVED' });
+    expect(cleaned.getSnapshot().value).toBe('cleanup');
+  });
+
+  test('escalates a merge still waiting for approvals and merges after the answer', () => {
+    const actor = startCommentResolution({ mergeStrategy: 'squash' });
+    actor.send({ type: 'COMMENTS_RESOLVED' });
+    actor.send({ type: 'NEEDS_HUMAN', data: { reason: 'Waiting for required approvals' } });
+
+    expect(actor.getSnapshot().value).toBe('needs_human');
+    expect(actor.getSnapshot().context.escalation?.phase).toBe('merging');
+
+    actor.send({ type: 'HUMAN_ANSWERED' });
+    expect(actor.getSnapshot().value).toBe('merging');
+  });
+
+  test('fails when cleanup fails', () => {
+    const actor = startCommentResolution({ cleanupEnabled: true });
+    actor.send({ type: 'COMMENTS_RESOLVED' });
+    actor.send({ type: 'FAIL', error: 'Worktree has uncommitted changes' });
+
+    expect(actor.getSnapshot().value).toBe('failed');
+    expect(actor.getSnapshot().context.error).toBe('Worktree has uncommitted changes');
+  });
+});
+
+describe('workflowMachine rebasing', () => {
+  function startCi(maxRebaseAttempts = 3) {
+    const actor = createActor(workflowMachine);
+    actor.start();
+    actor.send({ type: 'START', researchFile: 'research/test.md', limits: { maxRebaseAttempts } });
+    actor.send({ type: 'SETUP_COMPLETE', data: { worktreePath: '/wt', branch: 'feat/test' } });
+    actor.send({ type: 'PLANNING_COMPLETE', data: { plans: PLANS } });
+    actor.send({ type: 'IMPLEMENTATION_COMPLETE' });
+    actor.send({ type: 'PR_CREATED', data: { prNumber: 7, prUrl: 'https://github.com/o/r/pull/7' } });
+    return actor;
+  }
+
+  test('rebases a conflicting PR without using a CI attempt', () => {
+    const actor = startCi();
+    actor.send({
+      type: 'CI_FAILED',
+      data: { failureReason: 'merge conflict', baseStatus: 'conflicting' },
+    });
+
+    let snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('rebasing');
+    expect(snapshot.context.rebaseAttempts).toBe(1);
+    expect(snapshot.context.ciAttempts).toBe(0);
+    expect(snapshot.context.ciRuns).toHaveLength(1);
+
+    actor.send({ type: 'REBASE_PUSHED', data: { commitSha: 'ccc333' } });
+    snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('ci_resolution');
+    expect(snapshot.context.ciStatus).toBe('pending');
+  });
+
+  test('rebases a PR that fell behind while comments were resolved', () => {
+    const actor = startCi();
+    actor.send({ type: 'CI_PASSED', data: { baseStatus: 'up_to_date' } });
+    expect(actor.getSnapshot().value).toBe('comment_resolution');
+
+    actor.send({ type: 'COMMENTS_RESOLVED', data: { baseStatus: 'behind' } });
+    expect(actor.getSnapshot().value).toBe('rebasing');
+  });
+
+  test('fails once the rebase attempts are used up', () => {
+    const actor = startCi(1);
+    const conflicting = { type: 'CI_PASSED' as const, data: { baseStatus: 'conflicting' } };
+    actor.send(conflicting);
+    actor.send({ type: 'REBASE_PUSHED' });
+    actor.send(conflicting);
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('failed');
+    expect(snapshot.context.error).toBe(
+      'PR still conflicts with its base branch after 1 rebase attempts'
+    );
+  });
+
+  test('escalates a conflict that needs a decision and rebases after the answer', () => {
+    const actor = startCi();
+    actor.send({ type: 'CI_PASSED', data: { baseStatus: 'conflicting' } });
+    actor.send({ type: 'NEEDS_HUMAN', data: { reason: 'Conflict in src/auth.ts' } });
+
+    expect(actor.getSnapshot().context.escalation?.phase).toBe('rebasing');
+    actor.send({ type: 'HUMAN_ANSWERED' });
+    expect(actor.getSnapshot().value).toBe('rebasing');
+  });
+});
+
+describe('workflowMachine stacked PRs', () => {
+  function startStacked(options: Partial<WorkflowEvent> = {}) {
+    const actor = createActor(workflowMachine);
+    actor.start();
+    actor.send({ type: 'START', researchFile: 'research/test.md', stacked: true, ...options });
+    actor.send({ type: 'SETUP_COMPLETE', data: { worktreePath: '/wt', branch: 'feat/test' } });
+    actor.send({ type: 'PLANNING_COMPLETE', data: { plans: PLANS } });
+    return actor;
+  }
+
+  function reviewPr(actor: ReturnType<typeof startStacked>, prNumber: number) {
+    actor.send({
+      type: 'PR_CREATED',
+      data: { prNumber, prUrl: `https://github.com/o/r/pull/${prNumber}` },
+    });
+    actor.send({ type: 'CI_FAILED', data: { failureReason: 'lint' } });
+    actor.send({ type: 'CI_FIX_PUSHED', data: { commitSha: `fix${prNumber}` } });
+    actor.send({ type: 'CI_PASSED' });
+    actor.send({
+      type: 'COMMENTS_RESOLVED',
+      data: {
+        comments: [{ id: prNumber, author: 'alice', category: 'not-actionable', action: 'acknowledged' }],
+      },
+    });
+  }
+
+  test('submits each plan as soon as it is implemented', () => {
+    const actor = startStacked();
+    actor.send({ type: 'PLAN_COMPLETE', data: { planNumber: 1 } });
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('submitting');
+    expect(snapshot.context.plans.map((p) => p.completed)).toEqual([true, false, false]);
+    expect(snapshot.context.currentPlanIndex).toBe(0);
+  });
+
+  test('opens a PR for the current plan on its stacked branch', () => {
+    const actor = startStacked();
+    actor.send({ type: 'PLAN_COMPLETE', data: { planNumber: 1 } });
+    reviewPr(actor, 101);
+    actor.send({ type: 'PLAN_COMPLETE', data: { planNumber: 2 } });
+    actor.send({
+      type: 'PR_CREATED',
+      data: { prNumber: 102, prUrl: 'https://github.com/o/r/pull/102' },
+    });
+
+    const { plans } = actor.getSnapshot().context;
+    expect(plans[1].pr).toMatchObject({
+      branch: 'feat/test-plan-2',
+      baseBranch: 'feat/test',
+      number: 102,
+      ciStatus: 'pending',
+    });
+  });
+
+  test('keeps each PR with its plan and starts the next plan fresh', () => {
+    const actor = startStacked();
+    actor.send({ type: 'PLAN_COMPLETE', data: { planNumber: 1 } });
+    reviewPr(actor, 101);
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('implementing');
+    expect(snapshot.context.currentPlanIndex).toBe(1);
+    expect(snapshot.context.plans[0].pr).toMatchObject({
+      branch: 'feat/test',
+      baseBranch: null,
+      number: 101,
+      ciStatus: 'passing',
+      ciAttempts: 1,
+    });
+    expect(snapshot.context.plans[0].pr?.ciRuns).toHaveLength(2);
+    expect(snapshot.context.plans[0].pr?.comments.map((c) => c.id)).toEqual([101]);
+    expect(snapshot.context).toMatchObject({
+      prNumber: null,
+      ciStatus: null,
+      ciRuns: [],
+      comments: [],
+      ciAttempts: 0,
+    });
+    expect(snapshot.context.loops.lastFixCommit).toBeNull();
+  });
+
+  test('completes once the last PR is reviewed', () => {
+    const actor = startStacked();
+    actor.send({ type: 'PLAN_COMPLETE', data: { planNumber: 1 } });
+    reviewPr(actor, 101);
+    actor.send({ type: 'PLAN_COMPLETE', data: { planNumber: 2 } });
+    reviewPr(actor, 102);
+    // The last plan may also report IMPLEMENTATION_COMPLETE on its own
+    actor.send({ type: 'IMPLEMENTATION_COMPLETE' });
+    reviewPr(actor, 103);
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('completed');
+    expect(snapshot.context.plans.map((p) => p.pr?.number)).toEqual([101, 102, 103]);
+    expect(snapshot.context.prNumber).toBe(103);
+  });
+
+  test('runs local checks and the submitting gate for each plan', () => {
+    const verifying = startStacked({ verifyEnabled: true });
+    verifying.send({ type: 'PLAN_COMPLETE', data: { planNumber: 1 } });
+    expect(verifying.getSnapshot().value).toBe('verifying');
+
+    const gated = startStacked({ approvalGates: ['submitting'] });
+    gated.send({ type: 'PLAN_COMPLETE', data: { planNumber: 1, prTitle: 'Add auth' } });
+    expect(gated.getSnapshot().value).toBe('awaiting_approval');
+    expect(gated.getSnapshot().context.approval?.prTitle).toBe('Add auth');
+  });
+});
+
+describe('workflowMachine budget pause', () => {
+  test('pauses the named phase and resumes it', () => {
+    const actor = startImplementing();
+    actor.send({ type: 'PLAN_COMPLETE', data: { planNumber: 1 } });
+    actor.send({
+      type: 'BUDGET_EXCEEDED',
+      data: { phase: 'implementing', reason: 'Cost budget exceeded' },
+    });
+
+    let snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('budget_exceeded');
+    expect(snapshot.status).toBe('active');
+    expect(snapshot.context.pause).toEqual({
+      phase: 'implementing',
+      reason: 'Cost budget exceeded',
+    });
+
+    actor.send({ type: 'RESUME' });
+    snapshot = actor.getSnapshot();
+    expect(snapshot.value).toBe('implementing');
+    expect(snapshot.context.pause).toBeNull();
+    expect(snapshot.context.currentPlanIndex).toBe(1);
+  });
+
+  test('keeps the first pause reason while paused', () => {
+    const actor = startImplementing();
+    actor.send({ type: 'BUDGET_EXCEEDED', data: { phase: 'implementing', reason: 'first' } });
+    actor.send({ type: 'BUDGET_EXCEEDED', data: { phase: 'setup', reason: 'second' } });
+
+    expect(actor.getSnapshot().context.pause?.reason).toBe('first');
+  });
+
+  test('ignores a pause for a phase that cannot run', () => {
+    const actor = createActor(workflowMachine);
+    actor.start();
+    actor.send({ type: 'BUDGET_EXCEEDED', data: { phase: 'idle', reason: 'x' } });
+
+    expect(actor.getSnapshot().value).toBe('idle');
+  });
+
+  test('does not pause a finished workflow', () => {
+    const actor = startImplementing();
+    actor.send({ type: 'FAIL', error: 'boom' });
+    actor.send({ type: 'BUDGET_EXCEEDED', data: { phase: 'implementing', reason: 'x' } });
+
+    expect(actor.getSnapshot().value).toBe('failed');
+  });
+});
+
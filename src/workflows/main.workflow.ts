@@ -1,16 +1,499 @@
 /**
  * XState workflow machine for the full SDLC pipeline
  *
- * States: idle → setup → planning → implementing → submitting →
- *         ci_resolution ↔ ci_fixing → comment_resolution ↔ comment_resolving → completed
+ * States: idle → setup → planning → implementing → [verifying ↔ verify_fixing] →
+ *         submitting → ci_resolution ↔ ci_fixing →
+ *         comment_resolution ↔ comment_resolving → [merging] → [cleanup] →
+ *         completed
+ *
+ * A CI or comment report saying the PR is behind or conflicts with its base
+ * branch goes to rebasing, which force-pushes and returns to ci_resolution.
+ * In stacked mode every plan is submitted as its own PR once implemented,
+ * and resolved comments go back to implementing while plans remain.
+ *
+ * verifying runs only when START enables local checks; the runner runs them
+ * itself and reports VERIFY_PASSED or VERIFY_FAILED. merging and cleanup
+ * run only when START sets a merge strategy or enables cleanup.
+ * Any active phase can be paused in budget_exceeded and resumed with RESUME.
+ * With approval gates configured, implementing and submitting are preceded
+ * by awaiting_approval, left with APPROVE or REJECT. CI and comment phases
+ * can escalate to needs_human with NEEDS_HUMAN and continue on HUMAN_ANSWERED;
+ * fix loops that stop making progress are escalated or failed early.
+ */
+
+import { createMachine, assign, type AnyEventObject } from 'xstate';
+import {
+  createEmptyLoopHistory,
+  describeStall,
+  detectRepeat,
+  fingerprintCiFailure,
+  fingerprintPendingComments,
+  isEmptyFix,
+} from './loop-detection';
+import { getReportedComments, mergeComments } from './comment-tracking';
+import { createCiRun } from './ci-history';
+import {
+  getNextPlanIndex,
+  openPlanPullRequest,
+  savePlanPullRequest,
+} from './stacked-prs';
+import type {
+  ApprovalGate,
+  BaseStatus,
+  ChangeSummary,
+  CiStatus,
+  ClaudeUsage,
+  CommentRecord,
+  EscalationPhase,
+  PlanInfo,
+  UsageTotals,
+  VerifyCheckResult,
+  WorkflowApproval,
+  WorkflowContext,
+  WorkflowEscalation,
+  WorkflowEvent,
+  WorkflowLimits,
+  WorkflowPhase,
+  WorkflowUsage,
+} from '../types';
+
+// Retry limits used when START does not override them
+export const DEFAULT_WORKFLOW_LIMITS: WorkflowLimits = {
+  maxVerifyAttempts: 3,
+  maxCiAttempts: 5,
+  maxCommentAttempts: 10,
+  maxRebaseAttempts: 3,
+  stuckLoopAction: 'escalate',
+};
+
+/**
+ * Usage with no invocations recorded
  */
+export function createEmptyUsage(): WorkflowUsage {
+  return { total: emptyTotals(), phases: {} };
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    invocations: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+    durationMs: 0,
+  };
+}
+
+function addTotals(
+  totals: UsageTotals,
+  invocations: number,
+  usage: ClaudeUsage | null,
+  costUsd: number | null,
+  durationMs: number
+): UsageTotals {
+  return {
+    invocations: totals.invocations + invocations,
+    inputTokens: totals.inputTokens + (usage?.inputTokens ?? 0),
+    outputTokens: totals.outputTokens + (usage?.outputTokens ?? 0),
+    cacheCreationInputTokens:
+      totals.cacheCreationInputTokens + (usage?.cacheCreationInputTokens ?? 0),
+    cacheReadInputTokens:
+      totals.cacheReadInputTokens + (usage?.cacheReadInputTokens ?? 0),
+    costUsd: totals.costUsd + (costUsd ?? 0),
+    durationMs: totals.durationMs + durationMs,
+  };
+}
+
+// Add one invocation's usage to the workflow and phase totals.
+// `invocation: false` adds running time that was not an agent invocation.
+function recordUsage(
+  current: WorkflowUsage,
+  event: { type: string; data?: Record<string, unknown> }
+): WorkflowUsage {
+  const phase = event.data?.phase as WorkflowPhase;
+  const usage = (event.data?.usage as ClaudeUsage | null | undefined) ?? null;
+  const costUsd = (event.data?.costUsd as number | null | undefined) ?? null;
+  const durationMs = (event.data?.durationMs as number | undefined) ?? 0;
+  const invocations = event.data?.invocation === false ? 0 : 1;
+
+  return {
+    total: addTotals(current.total, invocations, usage, costUsd, durationMs),
+    phases: {
+      ...current.phases,
+      [phase]: addTotals(
+        current.phases[phase] ?? emptyTotals(),
+        invocations,
+        usage,
+        costUsd,
+        durationMs
+      ),
+    },
+  };
+}
+
+// Phases that can be paused by BUDGET_EXCEEDED and resumed
+const PAUSABLE_PHASES = [
+  'setup',
+  'planning',
+  'implementing',
+  'verifying',
+  'verify_fixing',
+  'submitting',
+  'ci_resolution',
+  'ci_fixing',
+  'comment_resolution',
+  'comment_resolving',
+  'rebasing',
+  'merging',
+  'cleanup',
+] as const satisfies readonly WorkflowPhase[];
+
+// Phases that can wait in awaiting_approval
+const APPROVAL_GATES = [
+  'implementing',
+  'submitting',
+] as const satisfies readonly ApprovalGate[];
+
+// Approval request for `phase`, with the change summary reported by
+// IMPLEMENTATION_COMPLETE if there is one
+function requestApproval(
+  phase: ApprovalGate,
+  event: { type: string; timestamp?: string },
+  summary: ChangeSummary | null = null
+): WorkflowApproval {
+  return {
+    phase,
+    requestedAt: eventTime(event),
+    prTitle: summary?.prTitle ?? null,
+    diffSummary: summary?.diffSummary ?? null,
+  };
+}
+
+// PR title and diff summary from an IMPLEMENTATION_COMPLETE payload
+function getChangeSummary(event: {
+  type: string;
+  data?: Record<string, unknown>;
+}): ChangeSummary {
+  return {
+    prTitle: (event.data?.prTitle as string | undefined) ?? null,
+    diffSummary: (event.data?.diffSummary as string | undefined) ?? null,
+  };
+}
+
+// Checks reported by VERIFY_PASSED / VERIFY_FAILED that did not pass
+function getFailedChecks(event: {
+  type: string;
+  data?: Record<string, unknown>;
+}): VerifyCheckResult[] {
+  const checks = (event.data?.checks as VerifyCheckResult[] | undefined) ?? [];
+  return checks.filter((check) => check.exitCode !== 0);
+}
+
+// Phases that can escalate to needs_human
+const ESCALATION_PHASES = [
+  'ci_resolution',
+  'ci_fixing',
+  'comment_resolution',
+  'comment_resolving',
+  'rebasing',
+  'merging',
+] as const satisfies readonly EscalationPhase[];
+
+// Escalation raised by NEEDS_HUMAN in `phase`, or by a stuck loop
+function requestHuman(
+  phase: EscalationPhase,
+  event: { type: string; data?: Record<string, unknown>; timestamp?: string },
+  reason: string | null = null
+): WorkflowEscalation {
+  return {
+    phase,
+    reason:
+      reason ??
+      (event.data?.reason as string | undefined) ??
+      'Needs a human decision',
+    commentIds: (event.data?.commentIds as number[] | undefined) ?? [],
+    checks: (event.data?.checks as string[] | undefined) ?? [],
+    requestedAt: eventTime(event),
+    answer: null,
+  };
+}
+
+// Exit action of the escalation phases: an answered escalation is done
+// with once the phase emits a signal. A budget pause keeps it, so the
+// answer still reaches the phase when it resumes.
+const dropAnsweredEscalation = assign<
+  WorkflowContext,
+  AnyEventObject,
+  undefined,
+  AnyEventObject,
+  never
+>({
+  escalation: ({ context, event }) =>
+    event.type === 'BUDGET_EXCEEDED' ? context.escalation : null,
+});
+
+// NEEDS_HUMAN transition for an escalation phase. Retry counters are
+// left as they are, so the remaining attempts are kept for after the answer.
+function escalate(phase: EscalationPhase) {
+  return {
+    target: 'needs_human',
+    actions: assign<WorkflowContext, AnyEventObject, undefined, AnyEventObject, never>({
+      escalation: ({ event }) => requestHuman(phase, event),
+      signals: ({ context, event }) =>
+        addSignal(context, event.type, eventTime(event)),
+      lastUpdate: ({ event }) => eventTime(event),
+    }),
+  };
+}
+
+type LoopEvent = { type: string; data?: Record<string, unknown> };
+
+// Diagnostic when a CI failure repeats the loop, or null
+function stuckCiFailure(context: WorkflowContext, event: LoopEvent): string | null {
+  const stall = detectRepeat(
+    context.loops.ciFailures,
+    fingerprintCiFailure(event.data)
+  );
+  return stall ? describeStall('ci', stall, event.data) : null;
+}
+
+// Diagnostic when the pending comments repeat the loop, or null
+function stuckPendingComments(
+  context: WorkflowContext,
+  event: LoopEvent
+): string | null {
+  const stall = detectRepeat(
+    context.loops.pendingComments,
+    fingerprintPendingComments(event.data)
+  );
+  return stall ? describeStall('comments', stall, event.data) : null;
+}
+
+// Diagnostic when a fix push carried no changes, or null
+function emptyFix(loop: 'ci' | 'comments') {
+  return (context: WorkflowContext, event: LoopEvent): string | null =>
+    isEmptyFix(context.loops, event.data)
+      ? describeStall(loop, 'empty_fix', event.data)
+      : null;
+}
+
+// Transitions taken before the regular ones when `detect` reports a stuck
+// loop: fail with the diagnostic, or escalate and continue with `phase`
+// once a human has answered
+function onStuckLoop(
+  phase: EscalationPhase,
+  detect: (context: WorkflowContext, event: LoopEvent) => string | null
+) {
+  type Args = { context: WorkflowContext; event: AnyEventObject };
+  return [
+    {
+      guard: ({ context, event }: Args) =>
+        context.limits.stuckLoopAction === 'fail' && detect(context, event) !== null,
+      target: 'failed',
+      actions: assign<WorkflowContext, AnyEventObject, undefined, AnyEventObject, never>({
+        error: ({ context, event }) => detect(context, event),
+        ciStatus: ({ context, event }) => reportedCiStatus(context, event),
+        ciRuns: ({ context, event }) => recordCiRun(context, event),
+        comments: ({ context, event }) => recordComments(context, event),
+        signals: ({ context, event }) =>
+          addSignal(context, event.type, eventTime(event)),
+      }),
+    },
+    {
+      guard: ({ context, event }: Args) =>
+        context.limits.stuckLoopAction === 'escalate' &&
+        detect(context, event) !== null,
+      target: 'needs_human',
+      actions: assign<WorkflowContext, AnyEventObject, undefined, AnyEventObject, never>({
+        escalation: ({ context, event }) =>
+          requestHuman(phase, event, detect(context, event)),
+        ciStatus: ({ context, event }) => reportedCiStatus(context, event),
+        ciRuns: ({ context, event }) => recordCiRun(context, event),
+        comments: ({ context, event }) => recordComments(context, event),
+        signals: ({ context, event }) =>
+          addSignal(context, event.type, eventTime(event)),
+        lastUpdate: ({ event }) => eventTime(event),
+      }),
+    },
+  ];
+}
+
+// Base branch status reported by a CI or comment signal, if any
+function getBaseStatus(event: LoopEvent): BaseStatus | null {
+  return (event.data?.baseStatus as BaseStatus | undefined) ?? null;
+}
+
+// Whether the PR has to be rebased before CI and review can go on
+function needsRebase(event: LoopEvent): boolean {
+  const status = getBaseStatus(event);
+  return status === 'behind' || status === 'conflicting';
+}
+
+// Transitions taken before the regular ones when a CI or comment report
+// says the PR is behind or conflicts with its base branch: rebase while
+// attempts remain, otherwise fail. The report is recorded but uses no CI
+// or comment attempt.
+function onBaseMoved() {
+  type Args = { context: WorkflowContext; event: AnyEventObject };
+  return [
+    {
+      guard: ({ context, event }: Args) =>
+        needsRebase(event) &&
+        context.rebaseAttempts < context.limits.maxRebaseAttempts,
+      target: 'rebasing',
+      actions: assign<WorkflowContext, AnyEventObject, undefined, AnyEventObject, never>({
+        rebaseAttempts: ({ context }) => context.rebaseAttempts + 1,
+        ciStatus: ({ context, event }) => reportedCiStatus(context, event),
+        ciRuns: ({ context, event }) => recordCiRun(context, event),
+        comments: ({ context, event }) => recordComments(context, event),
+        signals: ({ context, event }) =>
+          addSignal(context, event.type, eventTime(event)),
+        lastUpdate: ({ event }) => eventTime(event),
+      }),
+    },
+    {
+      guard: ({ event }: Args) => needsRebase(event),
+      target: 'failed',
+      actions: assign<WorkflowContext, AnyEventObject, undefined, AnyEventObject, never>({
+        error: ({ context, event }) => {
+          const state =
+            getBaseStatus(event) === 'conflicting' ? 'conflicts with' : 'is behind';
+          return `PR still ${state} its base branch after ${context.limits.maxRebaseAttempts} rebase attempts`;
+        },
+        ciStatus: ({ context, event }) => reportedCiStatus(context, event),
+        ciRuns: ({ context, event }) => recordCiRun(context, event),
+        comments: ({ context, event }) => recordComments(context, event),
+        signals: ({ context, event }) =>
+          addSignal(context, event.type, eventTime(event)),
+      }),
+    },
+  ];
+}
+
+// Loop history with a CI failure added, unless the checks were still pending
+function recordCiFailure(context: WorkflowContext, event: LoopEvent) {
+  const fingerprint = fingerprintCiFailure(event.data);
+  return fingerprint === null
+    ? context.loops
+    : {
+        ...context.loops,
+        ciFailures: [...context.loops.ciFailures, fingerprint],
+      };
+}
+
+// Loop history with a pending-comment set added, if the ids were reported
+function recordPendingComments(context: WorkflowContext, event: LoopEvent) {
+  const fingerprint = fingerprintPendingComments(event.data);
+  return fingerprint === null
+    ? context.loops
+    : {
+        ...context.loops,
+        pendingComments: [...context.loops.pendingComments, fingerprint],
+      };
+}
+
+// Loop history with the commit of a fix push
+function recordFix(context: WorkflowContext, event: LoopEvent) {
+  return {
+    ...context.loops,
+    lastFixCommit:
+      (event.data?.commitSha as string | undefined) ?? context.loops.lastFixCommit,
+  };
+}
+
+// CI history with the run a CI_PASSED or CI_FAILED reported
+function recordCiRun(
+  context: WorkflowContext,
+  event: LoopEvent & { timestamp?: string }
+) {
+  if (event.type !== 'CI_PASSED' && event.type !== 'CI_FAILED') {
+    return context.ciRuns;
+  }
+  return [...context.ciRuns, createCiRun(event, eventTime(event))];
+}
 
-import { createMachine, assign } from 'xstate';
-import type { WorkflowContext, WorkflowEvent, WorkflowPhase } from '../types';
+// CI status after a CI report; other events leave it as it is
+function reportedCiStatus(
+  context: WorkflowContext,
+  event: LoopEvent
+): CiStatus | null {
+  if (event.type === 'CI_PASSED') return 'passing';
+  if (event.type === 'CI_FAILED') return 'failing';
+  return context.ciStatus;
+}
 
-// Retry limits
-const MAX_CI_ATTEMPTS = 5;
-const MAX_COMMENT_ATTEMPTS = 10;
+// Comment records updated with the ones a comment signal reported
+function recordComments(context: WorkflowContext, event: LoopEvent) {
+  return mergeComments(context.comments, getReportedComments(event.data));
+}
+
+// Transitions taken before the regular ones in stacked mode, where a plan
+// is submitted as its own PR as soon as it is implemented. The plan stays
+// current until its PR has been reviewed.
+function onStackedPlanImplemented() {
+  type Args = { context: WorkflowContext; event: AnyEventObject };
+  return [
+    {
+      guard: ({ context }: Args) => context.stacked && context.verifyEnabled,
+      target: 'verifying',
+      actions: assign<WorkflowContext, AnyEventObject, undefined, AnyEventObject, never>({
+        plans: ({ context, event }) => markPlanComplete(context, event),
+        changeSummary: ({ event }) => getChangeSummary(event),
+        signals: ({ context, event }) =>
+          addSignal(context, event.type, eventTime(event)),
+        lastUpdate: ({ event }) => eventTime(event),
+      }),
+    },
+    {
+      guard: ({ context }: Args) =>
+        context.stacked && context.approvalGates.includes('submitting'),
+      target: 'awaiting_approval',
+      actions: assign<WorkflowContext, AnyEventObject, undefined, AnyEventObject, never>({
+        plans: ({ context, event }) => markPlanComplete(context, event),
+        approval: ({ event }) =>
+          requestApproval('submitting', event, getChangeSummary(event)),
+        signals: ({ context, event }) =>
+          addSignal(context, event.type, eventTime(event)),
+        lastUpdate: ({ event }) => eventTime(event),
+      }),
+    },
+    {
+      guard: ({ context }: Args) => context.stacked,
+      target: 'submitting',
+      actions: assign<WorkflowContext, AnyEventObject, undefined, AnyEventObject, never>({
+        plans: ({ context, event }) => markPlanComplete(context, event),
+        signals: ({ context, event }) =>
+          addSignal(context, event.type, eventTime(event)),
+        lastUpdate: ({ event }) => eventTime(event),
+      }),
+    },
+  ];
+}
+
+// Context for the next plan of a stack: the reviewed PR is kept with its
+// plan, and the PR state and retry counters start over
+function startNextPlan(
+  context: WorkflowContext,
+  comments: CommentRecord[]
+): Partial<WorkflowContext> {
+  return {
+    plans: savePlanPullRequest(context, comments),
+    currentPlanIndex: getNextPlanIndex(context.plans),
+    prNumber: null,
+    prUrl: null,
+    ciStatus: null,
+    ciRuns: [],
+    comments: [],
+    verifyAttempts: 0,
+    ciAttempts: 0,
+    commentAttempts: 0,
+    rebaseAttempts: 0,
+    verifyFailures: [],
+    changeSummary: null,
+    loops: createEmptyLoopHistory(),
+  };
+}
 
 // Initial context
 const initialContext: WorkflowContext = {
@@ -21,18 +504,66 @@ const initialContext: WorkflowContext = {
   currentPlanIndex: 0,
   prNumber: null,
   prUrl: null,
+  ciStatus: null,
+  ciRuns: [],
+  verifyAttempts: 0,
   ciAttempts: 0,
   commentAttempts: 0,
+  rebaseAttempts: 0,
+  limits: DEFAULT_WORKFLOW_LIMITS,
+  usage: createEmptyUsage(),
+  pause: null,
+  approvalGates: [],
+  approval: null,
+  escalation: null,
+  loops: createEmptyLoopHistory(),
+  comments: [],
+  verifyEnabled: false,
+  verifyFailures: [],
+  changeSummary: null,
+  mergeStrategy: null,
+  cleanupEnabled: false,
+  stacked: false,
   error: null,
   startedAt: new Date().toISOString(),
   lastUpdate: new Date().toISOString(),
   signals: [],
 };
 
+// Event time, falling back to now. Runner-stamped events make replays
+// from the event journal reproduce the same timestamps.
+function eventTime(event: { type: string; timestamp?: string }): string {
+  return event.timestamp ?? new Date().toISOString();
+}
+
+// Plans reported by the planning phase, reset to not completed
+function getReportedPlans(event: {
+  type: string;
+  data?: Record<string, unknown>;
+}): PlanInfo[] {
+  const plans = (event.data?.plans as PlanInfo[] | undefined) ?? [];
+  return plans.map((p) => ({ ...p, completed: false }));
+}
+
+// Mark the plan named by `planNumber` (1-based) complete,
+// falling back to the current plan when the signal has no number
+function markPlanComplete(
+  context: WorkflowContext,
+  event: { type: string; data?: Record<string, unknown> }
+): PlanInfo[] {
+  const planNumber = event.data?.planNumber as number | undefined;
+  const index =
+    planNumber !== undefined && planNumber >= 1 && planNumber <= context.plans.length
+      ? planNumber - 1
+      : context.currentPlanIndex;
+  return context.plans.map((p, i) => (i === index ? { ...p, completed: true } : p));
+}
+
 // Helper to add signal to context
 function addSignal(
   context: WorkflowContext,
-  signal: string
+  signal: string,
+  timestamp: string
 ): WorkflowContext['signals'] {
   // Only add valid workflow signals, skip internal events like 'START'
   if (signal === 'START') {
@@ -42,7 +573,7 @@ function addSignal(
     ...context.signals,
     {
       signal: signal as WorkflowContext['signals'][0]['signal'],
-      timestamp: new Date().toISOString(),
+      timestamp,
     },
   ];
 }
@@ -52,6 +583,30 @@ export const workflowMachine = createMachine({
   initial: 'idle',
   context: initialContext,
 
+  on: {
+    // Usage is recorded after every agent invocation, whatever the phase
+    USAGE_RECORDED: {
+      actions: assign({
+        usage: ({ context, event }) => recordUsage(context.usage, event),
+      }),
+    },
+    // The runner pauses the workflow before a phase once a budget is used up
+    BUDGET_EXCEEDED: {
+      guard: ({ event }) =>
+        (PAUSABLE_PHASES as readonly string[]).includes(
+          event.data?.phase as string
+        ),
+      target: '.budget_exceeded',
+      actions: assign({
+        pause: ({ event }) => ({
+          phase: event.data?.phase as WorkflowPhase,
+          reason: (event.data?.reason as string) ?? 'Budget exceeded',
+        }),
+        lastUpdate: ({ event }) => eventTime(event),
+      }),
+    },
+  },
+
   states: {
     idle: {
       on: {
@@ -59,8 +614,26 @@ export const workflowMachine = createMachine({
           target: 'setup',
           actions: assign({
             researchFile: ({ event }) => event.researchFile ?? '',
-            startedAt: () => new Date().toISOString(),
-            lastUpdate: () => new Date().toISOString(),
+            limits: ({ event }) => ({
+              ...DEFAULT_WORKFLOW_LIMITS,
+              ...event.limits,
+            }),
+            startedAt: ({ event }) => eventTime(event),
+            lastUpdate: ({ event }) => eventTime(event),
+            approvalGates: ({ event }) => event.approvalGates ?? [],
+            verifyEnabled: ({ event }) => event.verifyEnabled ?? false,
+            mergeStrategy: ({ event }) => event.mergeStrategy ?? null,
+            cleanupEnabled: ({ event }) => event.cleanupEnabled ?? false,
+            stacked: ({ event }) => event.stacked ?? false,
+            usage: () => createEmptyUsage(),
+            pause: () => null,
+            approval: () => null,
+            escalation: () => null,
+            loops: () => createEmptyLoopHistory(),
+            ciRuns: () => [],
+            comments: () => [],
+            verifyFailures: () => [],
+            changeSummary: () => null,
             signals: () => [],
           }),
         },
@@ -75,15 +648,17 @@ export const workflowMachine = createMachine({
             worktreePath: ({ event }) =>
               (event.data?.worktreePath as string) ?? null,
             branch: ({ event }) => (event.data?.branch as string) ?? null,
-            signals: ({ context, event }) => addSignal(context, event.type),
-            lastUpdate: () => new Date().toISOString(),
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
+            lastUpdate: ({ event }) => eventTime(event),
           }),
         },
         FAIL: {
           target: 'failed',
           actions: assign({
             error: ({ event }) => event.error ?? 'Setup failed',
-            signals: ({ context, event }) => addSignal(context, event.type),
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
           }),
         },
       },
@@ -91,58 +666,180 @@ export const workflowMachine = createMachine({
 
     planning: {
       on: {
-        PLANNING_COMPLETE: {
-          target: 'implementing',
+        PLANNING_COMPLETE: [
+          {
+            guard: ({ context }) => context.approvalGates.includes('implementing'),
+            target: 'awaiting_approval',
+            actions: assign({
+              plans: ({ event }) => getReportedPlans(event),
+              currentPlanIndex: () => 0,
+              approval: ({ event }) => requestApproval('implementing', event),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+          {
+            target: 'implementing',
+            actions: assign({
+              plans: ({ event }) => getReportedPlans(event),
+              currentPlanIndex: () => 0,
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+        ],
+        FAIL: {
+          target: 'failed',
           actions: assign({
-            plans: ({ event }) => {
-              const count = (event.data?.plansCount as number) ?? 0;
-              // Plans will be populated by the phase command
-              return Array.from({ length: count }, (_, i) => ({
-                path: `plans/workflow-${i + 1}.md`,
-                issueNumber: null,
-                completed: false,
-              }));
-            },
-            signals: ({ context, event }) => addSignal(context, event.type),
-            lastUpdate: () => new Date().toISOString(),
+            error: ({ event }) => event.error ?? 'Planning failed',
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
           }),
         },
+      },
+    },
+
+    implementing: {
+      on: {
+        PLAN_COMPLETE: [
+          ...onStackedPlanImplemented(),
+          {
+            target: 'implementing',
+            actions: assign(({ context, event }) => {
+              const plans = markPlanComplete(context, event);
+              const nextIndex = plans.findIndex((p) => !p.completed);
+              return {
+                plans,
+                currentPlanIndex: nextIndex === -1 ? plans.length : nextIndex,
+                signals: addSignal(context, event.type, eventTime(event)),
+                lastUpdate: eventTime(event),
+              };
+            }),
+          },
+        ],
+        IMPLEMENTATION_COMPLETE: [
+          ...onStackedPlanImplemented(),
+          {
+            guard: ({ context }) => context.verifyEnabled,
+            target: 'verifying',
+            actions: assign({
+              changeSummary: ({ event }) => getChangeSummary(event),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+          {
+            guard: ({ context }) => context.approvalGates.includes('submitting'),
+            target: 'awaiting_approval',
+            actions: assign({
+              approval: ({ event }) =>
+                requestApproval('submitting', event, getChangeSummary(event)),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+          {
+            target: 'submitting',
+            actions: assign({
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+        ],
         FAIL: {
           target: 'failed',
           actions: assign({
-            error: ({ event }) => event.error ?? 'Planning failed',
-            signals: ({ context, event }) => addSignal(context, event.type),
+            error: ({ event }) => event.error ?? 'Implementation failed',
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
           }),
         },
       },
     },
 
-    implementing: {
+    verifying: {
       on: {
-        PLAN_COMPLETE: {
-          target: 'implementing',
+        VERIFY_PASSED: [
+          {
+            guard: ({ context }) => context.approvalGates.includes('submitting'),
+            target: 'awaiting_approval',
+            actions: assign({
+              approval: ({ context, event }) =>
+                requestApproval('submitting', event, context.changeSummary),
+              verifyFailures: () => [],
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+          {
+            target: 'submitting',
+            actions: assign({
+              verifyFailures: () => [],
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+        ],
+        VERIFY_FAILED: [
+          {
+            guard: ({ context }) =>
+              context.verifyAttempts < context.limits.maxVerifyAttempts,
+            target: 'verify_fixing',
+            actions: assign({
+              verifyAttempts: ({ context }) => context.verifyAttempts + 1,
+              verifyFailures: ({ event }) => getFailedChecks(event),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+          {
+            target: 'failed',
+            actions: assign({
+              error: ({ context, event }) => {
+                const names = getFailedChecks(event).map((check) => check.name);
+                return `Local checks failed after ${context.limits.maxVerifyAttempts} attempts: ${names.join(', ')}`;
+              },
+              verifyFailures: ({ event }) => getFailedChecks(event),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+            }),
+          },
+        ],
+        FAIL: {
+          target: 'failed',
           actions: assign({
-            plans: ({ context }) =>
-              context.plans.map((p, i) =>
-                i === context.currentPlanIndex ? { ...p, completed: true } : p
-              ),
-            currentPlanIndex: ({ context }) => context.currentPlanIndex + 1,
-            signals: ({ context, event }) => addSignal(context, event.type),
-            lastUpdate: () => new Date().toISOString(),
+            error: ({ event }) => event.error ?? 'Local verification failed',
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
           }),
         },
-        IMPLEMENTATION_COMPLETE: {
-          target: 'submitting',
+      },
+    },
+
+    verify_fixing: {
+      on: {
+        VERIFY_FIXED: {
+          target: 'verifying',
           actions: assign({
-            signals: ({ context, event }) => addSignal(context, event.type),
-            lastUpdate: () => new Date().toISOString(),
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
+            lastUpdate: ({ event }) => eventTime(event),
           }),
         },
         FAIL: {
           target: 'failed',
           actions: assign({
-            error: ({ event }) => event.error ?? 'Implementation failed',
-            signals: ({ context, event }) => addSignal(context, event.type),
+            error: ({ event }) => event.error ?? 'Local check fix failed',
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
           }),
         },
       },
@@ -155,44 +852,68 @@ export const workflowMachine = createMachine({
           actions: assign({
             prNumber: ({ event }) => (event.data?.prNumber as number) ?? null,
             prUrl: ({ event }) => (event.data?.prUrl as string) ?? null,
-            signals: ({ context, event }) => addSignal(context, event.type),
-            lastUpdate: () => new Date().toISOString(),
+            ciStatus: (): CiStatus => 'pending',
+            plans: ({ context, event }) =>
+              context.stacked ? openPlanPullRequest(context, event) : context.plans,
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
+            lastUpdate: ({ event }) => eventTime(event),
           }),
         },
         FAIL: {
           target: 'failed',
           actions: assign({
             error: ({ event }) => event.error ?? 'PR submission failed',
-            signals: ({ context, event }) => addSignal(context, event.type),
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
           }),
         },
       },
     },
 
     ci_resolution: {
+      exit: dropAnsweredEscalation,
       on: {
-        CI_PASSED: {
-          target: 'comment_resolution',
-          actions: assign({
-            signals: ({ context, event }) => addSignal(context, event.type),
-            lastUpdate: () => new Date().toISOString(),
-          }),
-        },
+        CI_PASSED: [
+          ...onBaseMoved(),
+          {
+            target: 'comment_resolution',
+            actions: assign({
+              ciStatus: (): CiStatus => 'passing',
+              ciRuns: ({ context, event }) => recordCiRun(context, event),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+        ],
         CI_FAILED: [
+          ...onBaseMoved(),
+          ...onStuckLoop('ci_fixing', stuckCiFailure),
           {
-            guard: ({ context }) => context.ciAttempts < MAX_CI_ATTEMPTS,
+            guard: ({ context }) =>
+              context.ciAttempts < context.limits.maxCiAttempts,
             target: 'ci_fixing',
             actions: assign({
               ciAttempts: ({ context }) => context.ciAttempts + 1,
-              signals: ({ context, event }) => addSignal(context, event.type),
-              lastUpdate: () => new Date().toISOString(),
+              ciStatus: (): CiStatus => 'failing',
+              ciRuns: ({ context, event }) => recordCiRun(context, event),
+              loops: ({ context, event }) => recordCiFailure(context, event),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
             }),
           },
           {
             target: 'failed',
             actions: assign({
-              error: () => `CI failed after ${MAX_CI_ATTEMPTS} attempts`,
-              signals: ({ context, event }) => addSignal(context, event.type),
+              error: ({ context }) =>
+                `CI failed after ${context.limits.maxCiAttempts} attempts`,
+              ciStatus: (): CiStatus => 'failing',
+              ciRuns: ({ context, event }) => recordCiRun(context, event),
+              loops: ({ context, event }) => recordCiFailure(context, event),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
             }),
           },
         ],
@@ -200,57 +921,120 @@ export const workflowMachine = createMachine({
           target: 'failed',
           actions: assign({
             error: ({ event }) => event.error ?? 'CI resolution failed',
-            signals: ({ context, event }) => addSignal(context, event.type),
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
           }),
         },
+        NEEDS_HUMAN: escalate('ci_resolution'),
       },
     },
 
     ci_fixing: {
+      exit: dropAnsweredEscalation,
       on: {
-        CI_FIX_PUSHED: {
-          target: 'ci_resolution',
-          actions: assign({
-            signals: ({ context, event }) => addSignal(context, event.type),
-            lastUpdate: () => new Date().toISOString(),
-          }),
-        },
+        CI_FIX_PUSHED: [
+          ...onStuckLoop('ci_fixing', emptyFix('ci')),
+          {
+            target: 'ci_resolution',
+            actions: assign({
+              // A new commit is being checked
+              ciStatus: (): CiStatus => 'pending',
+              loops: ({ context, event }) => recordFix(context, event),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+        ],
         FAIL: {
           target: 'failed',
           actions: assign({
             error: ({ event }) => event.error ?? 'CI fix failed',
-            signals: ({ context, event }) => addSignal(context, event.type),
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
           }),
         },
+        NEEDS_HUMAN: escalate('ci_fixing'),
       },
     },
 
     comment_resolution: {
+      exit: dropAnsweredEscalation,
       on: {
-        COMMENTS_RESOLVED: {
-          target: 'completed',
-          actions: assign({
-            signals: ({ context, event }) => addSignal(context, event.type),
-            lastUpdate: () => new Date().toISOString(),
-          }),
-        },
+        COMMENTS_RESOLVED: [
+          ...onBaseMoved(),
+          // In stacked mode the next plan starts once this plan's PR is done
+          {
+            guard: ({ context }) =>
+              context.stacked && getNextPlanIndex(context.plans) !== -1,
+            target: 'implementing',
+            actions: assign(({ context, event }) => ({
+              ...startNextPlan(context, recordComments(context, event)),
+              signals: addSignal(context, event.type, eventTime(event)),
+              lastUpdate: eventTime(event),
+            })),
+          },
+          {
+            guard: ({ context }) => context.mergeStrategy !== null,
+            target: 'merging',
+            actions: assign({
+              comments: ({ context, event }) => recordComments(context, event),
+              plans: ({ context, event }) =>
+                savePlanPullRequest(context, recordComments(context, event)),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+          {
+            guard: ({ context }) => context.cleanupEnabled,
+            target: 'cleanup',
+            actions: assign({
+              comments: ({ context, event }) => recordComments(context, event),
+              plans: ({ context, event }) =>
+                savePlanPullRequest(context, recordComments(context, event)),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+          {
+            target: 'completed',
+            actions: assign({
+              comments: ({ context, event }) => recordComments(context, event),
+              plans: ({ context, event }) =>
+                savePlanPullRequest(context, recordComments(context, event)),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+        ],
         COMMENTS_PENDING: [
+          ...onBaseMoved(),
+          ...onStuckLoop('comment_resolving', stuckPendingComments),
           {
             guard: ({ context }) =>
-              context.commentAttempts < MAX_COMMENT_ATTEMPTS,
+              context.commentAttempts < context.limits.maxCommentAttempts,
             target: 'comment_resolving',
             actions: assign({
               commentAttempts: ({ context }) => context.commentAttempts + 1,
-              signals: ({ context, event }) => addSignal(context, event.type),
-              lastUpdate: () => new Date().toISOString(),
+              loops: ({ context, event }) => recordPendingComments(context, event),
+              comments: ({ context, event }) => recordComments(context, event),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
             }),
           },
           {
             target: 'failed',
             actions: assign({
-              error: () =>
-                `Comments unresolved after ${MAX_COMMENT_ATTEMPTS} attempts`,
-              signals: ({ context, event }) => addSignal(context, event.type),
+              error: ({ context }) =>
+                `Comments unresolved after ${context.limits.maxCommentAttempts} attempts`,
+              loops: ({ context, event }) => recordPendingComments(context, event),
+              comments: ({ context, event }) => recordComments(context, event),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
             }),
           },
         ],
@@ -258,36 +1042,212 @@ export const workflowMachine = createMachine({
           target: 'failed',
           actions: assign({
             error: ({ event }) => event.error ?? 'Comment resolution failed',
-            signals: ({ context, event }) => addSignal(context, event.type),
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
           }),
         },
+        NEEDS_HUMAN: escalate('comment_resolution'),
       },
     },
 
     comment_resolving: {
+      exit: dropAnsweredEscalation,
       on: {
-        COMMENT_FIX_PUSHED: {
-          target: 'comment_resolution',
+        COMMENT_FIX_PUSHED: [
+          ...onStuckLoop('comment_resolving', emptyFix('comments')),
+          {
+            target: 'comment_resolution',
+            actions: assign({
+              loops: ({ context, event }) => recordFix(context, event),
+              comments: ({ context, event }) => recordComments(context, event),
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+        ],
+        FAIL: {
+          target: 'failed',
           actions: assign({
-            signals: ({ context, event }) => addSignal(context, event.type),
-            lastUpdate: () => new Date().toISOString(),
+            error: ({ event }) => event.error ?? 'Comment fix failed',
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
+          }),
+        },
+        NEEDS_HUMAN: escalate('comment_resolving'),
+      },
+    },
+
+    rebasing: {
+      exit: dropAnsweredEscalation,
+      on: {
+        REBASE_PUSHED: {
+          target: 'ci_resolution',
+          actions: assign({
+            // CI runs again on the rebased branch
+            ciStatus: (): CiStatus => 'pending',
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
+            lastUpdate: ({ event }) => eventTime(event),
           }),
         },
         FAIL: {
           target: 'failed',
           actions: assign({
-            error: ({ event }) => event.error ?? 'Comment fix failed',
-            signals: ({ context, event }) => addSignal(context, event.type),
+            error: ({ event }) => event.error ?? 'Rebase failed',
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
+          }),
+        },
+        // e.g. a conflict that needs a decision on intent
+        NEEDS_HUMAN: escalate('rebasing'),
+      },
+    },
+
+    merging: {
+      exit: dropAnsweredEscalation,
+      on: {
+        PR_MERGED: [
+          {
+            guard: ({ context }) => context.cleanupEnabled,
+            target: 'cleanup',
+            actions: assign({
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+          {
+            target: 'completed',
+            actions: assign({
+              signals: ({ context, event }) =>
+                addSignal(context, event.type, eventTime(event)),
+              lastUpdate: ({ event }) => eventTime(event),
+            }),
+          },
+        ],
+        FAIL: {
+          target: 'failed',
+          actions: assign({
+            error: ({ event }) => event.error ?? 'Merge failed',
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
+          }),
+        },
+        // e.g. still waiting for required approvals
+        NEEDS_HUMAN: escalate('merging'),
+      },
+    },
+
+    cleanup: {
+      on: {
+        CLEANUP_COMPLETE: {
+          target: 'completed',
+          actions: assign({
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
+            lastUpdate: ({ event }) => eventTime(event),
+          }),
+        },
+        FAIL: {
+          target: 'failed',
+          actions: assign({
+            error: ({ event }) => event.error ?? 'Cleanup failed',
+            signals: ({ context, event }) =>
+              addSignal(context, event.type, eventTime(event)),
+          }),
+        },
+      },
+    },
+
+    budget_exceeded: {
+      on: {
+        // Only BUDGET_EXCEEDED can enter this state, so it is not re-entered
+        BUDGET_EXCEEDED: {},
+        RESUME: PAUSABLE_PHASES.map((phase) => ({
+          guard: ({ context }: { context: WorkflowContext }) =>
+            context.pause?.phase === phase,
+          target: phase,
+          actions: assign<
+            WorkflowContext,
+            AnyEventObject,
+            undefined,
+            AnyEventObject,
+            never
+          >({
+            pause: () => null,
+            lastUpdate: ({ event }) => eventTime(event),
+          }),
+        })),
+      },
+    },
+
+    awaiting_approval: {
+      on: {
+        // No phase runs while waiting, so there is no budget to exceed
+        BUDGET_EXCEEDED: {},
+        APPROVE: APPROVAL_GATES.map((phase) => ({
+          guard: ({ context }: { context: WorkflowContext }) =>
+            context.approval?.phase === phase,
+          target: phase,
+          actions: assign<
+            WorkflowContext,
+            AnyEventObject,
+            undefined,
+            AnyEventObject,
+            never
+          >({
+            approval: () => null,
+            lastUpdate: ({ event }) => eventTime(event),
+          }),
+        })),
+        REJECT: {
+          target: 'failed',
+          actions: assign({
+            error: ({ context, event }) => {
+              const reason = (event.data?.reason as string) || 'no reason given';
+              return `Rejected before ${context.approval?.phase ?? 'next phase'}: ${reason}`;
+            },
+            approval: () => null,
+            lastUpdate: ({ event }) => eventTime(event),
           }),
         },
       },
     },
 
+    needs_human: {
+      on: {
+        // No phase runs while waiting, so there is no budget to exceed
+        BUDGET_EXCEEDED: {},
+        HUMAN_ANSWERED: ESCALATION_PHASES.map((phase) => ({
+          guard: ({ context }: { context: WorkflowContext }) =>
+            context.escalation?.phase === phase,
+          target: phase,
+          actions: assign<
+            WorkflowContext,
+            AnyEventObject,
+            undefined,
+            AnyEventObject,
+            never
+          >({
+            escalation: ({ context, event }) =>
+              context.escalation && event.data?.answer
+                ? { ...context.escalation, answer: event.data.answer as string }
+                : null,
+            // A human stepped in, so the loop starts over
+            loops: () => createEmptyLoopHistory(),
+            lastUpdate: ({ event }) => eventTime(event),
+          }),
+        })),
+      },
+    },
+
     completed: {
       type: 'final',
       entry: assign({
-        signals: ({ context }) => addSignal(context, 'WORKFLOW_COMPLETE'),
-        lastUpdate: () => new Date().toISOString(),
+        signals: ({ context, event }) =>
+          addSignal(context, 'WORKFLOW_COMPLETE', eventTime(event)),
+        lastUpdate: ({ event }) => eventTime(event),
       }),
     },
 
@@ -317,3 +1277,29 @@ export function isTerminal(stateValue: string): boolean {
 export function isSuccess(stateValue: string): boolean {
   return stateValue === 'completed';
 }
+
+/**
+ * Check if the workflow is paused waiting for a raised budget, an approval
+ * or a human answer
+ */
+export function isPaused(stateValue: string): boolean {
+  return (
+    stateValue === 'budget_exceeded' ||
+    isAwaitingApproval(stateValue) ||
+    isEscalated(stateValue)
+  );
+}
+
+/**
+ * Check if the workflow is waiting for `approve` or `reject`
+ */
+export function isAwaitingApproval(stateValue: string): boolean {
+  return stateValue === 'awaiting_approval';
+}
+
+/**
+ * Check if the workflow is waiting for a human to answer an escalation
+ */
+export function isEscalated(stateValue: string): boolean {
+  return stateValue === 'needs_human';
+}
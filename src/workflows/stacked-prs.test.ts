@@ -0,0 +1,156 @@
+/**
+ * Unit tests for stacked-prs.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  getNextPlanIndex,
+  getPlanBranch,
+  getStackBase,
+  getWorkflowBranches,
+  openPlanPullRequest,
+  savePlanPullRequest,
+} from './stacked-prs';
+import { createEmptyUsage, DEFAULT_WORKFLOW_LIMITS } from './main.workflow';
+import { createEmptyLoopHistory } from './loop-detection';
+import type { PlanInfo, WorkflowContext } from '../types';
+
+const PLANS: PlanInfo[] = [
+  { path: 'plans/plan-1.md', issueNumber: 42, completed: true },
+  { path: 'plans/plan-2.md', issueNumber: 43, completed: true },
+  { path: 'plans/plan-3.md', issueNumber: null, completed: false },
+];
+
+const createContext = (overrides: Partial<WorkflowContext> = {}): WorkflowContext => ({
+  researchFile: 'research/test.md',
+  worktreePath: '/wt',
+  branch: 'feat/auth',
+  plans: PLANS,
+  currentPlanIndex: 0,
+  prNumber: null,
+  prUrl: null,
+  ciStatus: null,
+  ciRuns: [],
+  verifyAttempts: 0,
+  ciAttempts: 0,
+  commentAttempts: 0,
+  rebaseAttempts: 0,
+  limits: DEFAULT_WORKFLOW_LIMITS,
+  usage: createEmptyUsage(),
+  pause: null,
+  approvalGates: [],
+  approval: null,
+  escalation: null,
+  loops: createEmptyLoopHistory(),
+  comments: [],
+  verifyEnabled: false,
+  verifyFailures: [],
+  changeSummary: null,
+  mergeStrategy: null,
+  cleanupEnabled: false,
+  stacked: true,
+  error: null,
+  startedAt: '2024-01-01T00:00:00.000Z',
+  lastUpdate: '2024-01-01T00:00:00.000Z',
+  signals: [],
+  ...overrides,
+});
+
+describe('getPlanBranch', () => {
+  test('uses the worktree branch for the first plan only', () => {
+    expect(getPlanBranch('feat/auth', 0)).toBe('feat/auth');
+    expect(getPlanBranch('feat/auth', 2)).toBe('feat/auth-plan-3');
+    expect(getPlanBranch(null, 1)).toBeNull();
+  });
+});
+
+describe('getStackBase', () => {
+  test('stacks each plan on the previous plan branch', () => {
+    const context = createContext();
+    expect(getStackBase(context, 0)).toBeNull();
+    expect(getStackBase(context, 1)).toBe('feat/auth');
+    expect(getStackBase(context, 2)).toBe('feat/auth-plan-2');
+  });
+
+  test('prefers the branch the previous PR reported', () => {
+    const context = createContext({
+      plans: openPlanPullRequest(createContext(), {
+        type: 'PR_CREATED',
+        data: { prNumber: 101, branch: 'auth/setup' },
+      }),
+    });
+    expect(getStackBase(context, 1)).toBe('auth/setup');
+  });
+});
+
+describe('openPlanPullRequest', () => {
+  test('gives the current plan a fresh PR', () => {
+    const plans = openPlanPullRequest(createContext({ currentPlanIndex: 1 }), {
+      type: 'PR_CREATED',
+      data: { prNumber: 102, prUrl: 'https://github.com/o/r/pull/102' },
+    });
+
+    expect(plans[0].pr).toBeUndefined();
+    expect(plans[1].pr).toEqual({
+      branch: 'feat/auth-plan-2',
+      baseBranch: 'feat/auth',
+      number: 102,
+      url: 'https://github.com/o/r/pull/102',
+      ciStatus: 'pending',
+      ciAttempts: 0,
+      ciRuns: [],
+      commentAttempts: 0,
+      rebaseAttempts: 0,
+      comments: [],
+    });
+  });
+});
+
+describe('savePlanPullRequest', () => {
+  test('copies the live PR state to the current plan', () => {
+    const opened = createContext({
+      plans: openPlanPullRequest(createContext(), {
+        type: 'PR_CREATED',
+        data: { prNumber: 101 },
+      }),
+    });
+    const [plan] = savePlanPullRequest({
+      ...opened,
+      ciStatus: 'passing',
+      ciAttempts: 2,
+      commentAttempts: 1,
+    });
+
+    expect(plan.pr).toMatchObject({
+      number: 101,
+      ciStatus: 'passing',
+      ciAttempts: 2,
+      commentAttempts: 1,
+    });
+  });
+
+  test('leaves plans without a PR unchanged', () => {
+    const context = createContext({ stacked: false, ciStatus: 'passing' });
+    expect(savePlanPullRequest(context)).toEqual(PLANS);
+  });
+});
+
+describe('getNextPlanIndex', () => {
+  test('finds the first plan still to implement', () => {
+    expect(getNextPlanIndex(PLANS)).toBe(2);
+    expect(getNextPlanIndex(PLANS.slice(0, 2))).toBe(-1);
+  });
+});
+
+describe('getWorkflowBranches', () => {
+  test('lists the worktree branch and each plan branch once', () => {
+    const context = createContext({
+      plans: openPlanPullRequest(createContext({ currentPlanIndex: 1 }), {
+        type: 'PR_CREATED',
+        data: { prNumber: 102 },
+      }),
+    });
+    expect(getWorkflowBranches(context)).toEqual(['feat/auth', 'feat/auth-plan-2']);
+    expect(getWorkflowBranches(createContext({ branch: null, plans: [] }))).toEqual([]);
+  });
+});
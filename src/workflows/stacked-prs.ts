@@ -0,0 +1,117 @@
+/**
+ * Stacked PRs: one PR per plan
+ *
+ * In stacked mode each plan is submitted as soon as it is implemented, on
+ * its own branch stacked on the previous plan's branch, and its CI and
+ * comment loops run before the next plan starts. Each plan keeps the state
+ * of its PR once the workflow moves on.
+ */
+
+import type { CommentRecord, PlanInfo, WorkflowContext } from '../types';
+
+type PrEvent = { type: string; data?: Record<string, unknown> };
+
+/**
+ * Branch for the plan at `index`: the first plan's PR uses the worktree
+ * branch, later plans get `<branch>-plan-N`
+ */
+export function getPlanBranch(
+  branch: string | null,
+  index: number
+): string | null {
+  if (branch === null) return null;
+  return index === 0 ? branch : `${branch}-plan-${index + 1}`;
+}
+
+/**
+ * Branch the plan's PR is stacked on, or null for the first plan, whose PR
+ * targets the default branch
+ */
+export function getStackBase(
+  context: WorkflowContext,
+  index: number
+): string | null {
+  if (index === 0) return null;
+  return (
+    context.plans[index - 1]?.pr?.branch ??
+    getPlanBranch(context.branch, index - 1)
+  );
+}
+
+/**
+ * Plans with a fresh PR for the current plan, as reported by PR_CREATED
+ */
+export function openPlanPullRequest(
+  context: WorkflowContext,
+  event: PrEvent
+): PlanInfo[] {
+  const index = context.currentPlanIndex;
+  return context.plans.map((plan, i) =>
+    i === index
+      ? {
+          ...plan,
+          pr: {
+            branch:
+              (event.data?.branch as string | undefined) ??
+              getPlanBranch(context.branch, i),
+            baseBranch:
+              (event.data?.baseBranch as string | undefined) ??
+              getStackBase(context, i),
+            number: (event.data?.prNumber as number | undefined) ?? null,
+            url: (event.data?.prUrl as string | undefined) ?? null,
+            ciStatus: 'pending',
+            ciAttempts: 0,
+            ciRuns: [],
+            commentAttempts: 0,
+            rebaseAttempts: 0,
+            comments: [],
+          },
+        }
+      : plan
+  );
+}
+
+/**
+ * Plans with the live PR state copied to the current plan's PR. Plans
+ * without a PR of their own are returned as they are.
+ */
+export function savePlanPullRequest(
+  context: WorkflowContext,
+  comments: CommentRecord[] = context.comments
+): PlanInfo[] {
+  const index = context.currentPlanIndex;
+  return context.plans.map((plan, i) =>
+    i === index && plan.pr
+      ? {
+          ...plan,
+          pr: {
+            ...plan.pr,
+            ciStatus: context.ciStatus,
+            ciAttempts: context.ciAttempts,
+            ciRuns: context.ciRuns,
+            commentAttempts: context.commentAttempts,
+            rebaseAttempts: context.rebaseAttempts,
+            comments,
+          },
+        }
+      : plan
+  );
+}
+
+/**
+ * Index of the next plan still to implement, or -1 when all are done
+ */
+export function getNextPlanIndex(plans: PlanInfo[]): number {
+  return plans.findIndex((plan) => !plan.completed);
+}
+
+/**
+ * Local branches of the workflow: the worktree branch and every plan branch
+ */
+export function getWorkflowBranches(context: WorkflowContext): string[] {
+  const branches = [
+    context.branch,
+    ...context.plans.map((plan) => plan.pr?.branch ?? null),
+  ].filter((branch): branch is string => branch !== null);
+  return [...new Set(branches)];
+}